@@ -1,11 +1,16 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { LlmAdapter } from "./interfaces";
+import type { LlmAdapter, LlmRequest, UsageCallback } from "./interfaces";
+import { withRetry, type RetryCallback, type RetryConfig } from "./retry";
 
 interface ClaudeConfig {
   apiKey: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  onUsage?: UsageCallback;
+  // Rate limits and overloads are retried here rather than by the SDK, so they can be reported
+  retry?: RetryConfig;
+  onRetry?: RetryCallback;
 }
 
 export class ClaudeAdapter implements LlmAdapter {
@@ -23,41 +28,60 @@ export class ClaudeAdapter implements LlmAdapter {
     };
     this.client = new Anthropic({
       apiKey: this.config.apiKey,
+      maxRetries: 0,
     });
   }
 
-  async *generate(sessionId: string, prompt: string): AsyncIterable<string> {
+  get model(): string {
+    return this.config.model!;
+  }
+
+  async *generate(sessionId: string, request: LlmRequest): AsyncIterable<string> {
+    const model = request.settings?.model ?? this.config.model!;
     const controller = new AbortController();
     this.activeStreams.set(sessionId, controller);
+    // Input tokens arrive with message_start, the output count with message_delta
+    let inputTokens = 0;
+    let outputTokens = 0;
 
     try {
-      const stream = await this.client.messages.create(
-        {
-          model: this.config.model!,
-          max_tokens: this.config.maxTokens!,
-          temperature: this.config.temperature,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          stream: true,
-        },
-        {
-          signal: controller.signal,
-        }
-      );
+      const { client, config } = this;
+      const attempt = async function* () {
+        const stream = await client.messages.create(
+          {
+            model,
+            max_tokens: request.settings?.maxTokens ?? config.maxTokens!,
+            temperature: request.settings?.temperature ?? config.temperature,
+            system: request.system,
+            messages: request.messages,
+            stream: true,
+          },
+          {
+            signal: controller.signal,
+          }
+        );
 
-      for await (const event of stream) {
-        if (event.type === "content_block_delta") {
-          if (event.delta.type === "text_delta") {
-            yield event.delta.text;
+        for await (const event of stream) {
+          if (event.type === "message_start") {
+            inputTokens = event.message.usage.input_tokens;
+            outputTokens = event.message.usage.output_tokens;
+          } else if (event.type === "message_delta") {
+            outputTokens = event.usage.output_tokens;
+          } else if (event.type === "content_block_delta") {
+            if (event.delta.type === "text_delta") {
+              yield event.delta.text;
+            }
           }
         }
-      }
+      };
+
+      yield* withRetry(
+        { sessionId, provider: this.id, signal: controller.signal, config: config.retry, onRetry: config.onRetry },
+        attempt
+      );
     } catch (error: any) {
-      if (error.name === "AbortError") {
+      // The SDKs throw APIUserAbortError (named "Error") when stopped
+      if (controller.signal.aborted) {
         console.info(`[claude] generation stopped for ${sessionId}`);
       } else {
         console.error(`[claude] error for ${sessionId}:`, error);
@@ -65,6 +89,10 @@ export class ClaudeAdapter implements LlmAdapter {
       }
     } finally {
       this.activeStreams.delete(sessionId);
+      // Stopped generations still bill for what was produced
+      if (inputTokens || outputTokens) {
+        this.config.onUsage?.(sessionId, { provider: this.id, model, inputTokens, outputTokens });
+      }
     }
   }
 
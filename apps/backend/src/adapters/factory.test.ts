@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from "vitest";
+import { RealAdapterFactory, type FactoryConfig } from "./factory";
+import { FailoverSttAdapter } from "./failover";
+import { PiperTtsAdapter } from "./tts-piper";
+import { WhisperSttAdapter } from "./stt-whisper";
+import type { ProviderStatus } from "./interfaces";
+import { ProviderRegistry, type LlmCreateOptions } from "./registry";
+import { usageCost } from "./pricing";
+
+function factory(config: FactoryConfig = {}): RealAdapterFactory {
+  return new RealAdapterFactory({
+    sttProvider: "whisper",
+    ttsProvider: "piper",
+    guestProvider: "local",
+    sttFallbacks: [],
+    ttsFallbacks: [],
+    guestFallbacks: [],
+    settings: { ANTHROPIC_API_KEY: "test-key" },
+    ...config,
+  });
+}
+
+describe("RealAdapterFactory", () => {
+  it("should resolve to loaded adapters rather than pending ones", async () => {
+    const stt = await factory().stt();
+    const tts = await factory().tts("claude");
+
+    expect(stt).toBeInstanceOf(WhisperSttAdapter);
+    expect(tts).toBeInstanceOf(PiperTtsAdapter);
+    expect(stt.start).toBeInstanceOf(Function);
+  });
+
+  it("should reject when the provider's API key is missing", async () => {
+    await expect(factory({ sttProvider: "assemblyai" }).stt()).rejects.toThrow(
+      "ASSEMBLYAI_API_KEY is required for AssemblyAI STT"
+    );
+    await expect(factory({ guestProvider: "groq" }).llm("guest")).rejects.toThrow("GROQ_API_KEY is required for Groq");
+  });
+
+  it("should wrap fallback chains", async () => {
+    const stt = await factory({ sttProvider: "assemblyai", sttFallbacks: ["whisper"] }).stt();
+
+    expect(stt).toBeInstanceOf(FailoverSttAdapter);
+  });
+
+  it("should report provider readiness", async () => {
+    const status = await factory({
+      sttProvider: "assemblyai",
+      sttFallbacks: ["whisper"],
+      guestProvider: "groq",
+      guestFallbacks: ["local"],
+    }).status();
+
+    expect(status.ready).toBe(true);
+    expect(status.providers).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ role: "stt", provider: "assemblyai", ready: false, reason: "ASSEMBLYAI_API_KEY is not set" }),
+        expect.objectContaining({ role: "stt", provider: "whisper", ready: true }),
+        expect.objectContaining({ role: "tts", provider: "piper", ready: true }),
+        expect.objectContaining({ role: "llm", provider: "claude", speaker: "claude", ready: true }),
+        expect.objectContaining({ role: "llm", provider: "groq", speaker: "guest", ready: false }),
+        expect.objectContaining({ role: "llm", provider: "local", speaker: "guest", ready: true }),
+      ])
+    );
+  });
+
+  it("should not be ready when a role has no usable provider", async () => {
+    const status = await factory({ settings: {} }).status();
+
+    expect(status.ready).toBe(false);
+    expect(status.providers.find((p: ProviderStatus) => p.provider === "claude")?.reason).toBe("ANTHROPIC_API_KEY is not set");
+  });
+
+  it("should tag and price the usage adapters report", async () => {
+    const onUsage = vi.fn();
+    const registry = new ProviderRegistry([
+      {
+        role: "llm",
+        id: "metered",
+        label: "Metered",
+        pricing: { inputTokens: 1, outputTokens: 5 },
+        create: ({ onUsage: report }: LlmCreateOptions) => ({
+          id: "metered",
+          async *generate(sessionId: string) {
+            report?.(sessionId, { provider: "metered", inputTokens: 1000, outputTokens: 200 });
+            yield "hi";
+          },
+          stop: vi.fn(),
+        }),
+      },
+    ]);
+    const llm = await factory({ guestProvider: "metered", registry, onUsage }).llm("guest");
+
+    for await (const _chunk of llm.generate("session-1", { messages: [] })) {
+      // drain
+    }
+
+    expect(onUsage).toHaveBeenCalledWith("session-1", {
+      provider: "metered",
+      inputTokens: 1000,
+      outputTokens: 200,
+      role: "llm",
+      speaker: "guest",
+      costUsd: 0.002,
+    });
+  });
+
+  it("should pass each speaker's model settings to its LLM provider", async () => {
+    const create = vi.fn(({ speaker }: LlmCreateOptions) => ({ id: speaker, generate: vi.fn(), stop: vi.fn() }));
+    const registry = new ProviderRegistry([
+      { role: "llm", id: "claude", label: "Claude", create },
+      { role: "llm", id: "local", label: "Local", create },
+    ]);
+    const settings = { CLAUDE_MODEL: "claude-sonnet-4-20250514", CLAUDE_MAX_TOKENS: "1024", GUEST_TEMPERATURE: "0.2" };
+
+    await factory({ registry, settings }).llm("claude");
+    await factory({ registry, settings }).llm("guest");
+
+    expect(create.mock.calls[0][0].generation).toEqual({ model: "claude-sonnet-4-20250514", maxTokens: 1024 });
+    expect(create.mock.calls[1][0].generation).toEqual({ temperature: 0.2 });
+  });
+
+  it("should only give the guest model to the primary of its fallback chain", async () => {
+    const create = vi.fn(({ speaker }: LlmCreateOptions) => ({
+      id: speaker,
+      async *generate() {
+        if (create.mock.calls.length === 1) throw new Error("groq down");
+        yield "hi";
+      },
+      stop: vi.fn(),
+    }));
+    const registry = new ProviderRegistry([
+      { role: "llm", id: "groq", label: "Groq", create },
+      { role: "llm", id: "local", label: "Local", create },
+    ]);
+    const settings = { GUEST_MODEL: "llama-3.3-70b-versatile", GUEST_TEMPERATURE: "0.2" };
+    const llm = await factory({ registry, settings, guestProvider: "groq", guestFallbacks: ["local"] }).llm("guest");
+
+    for await (const _chunk of llm.generate("session-1", { messages: [] })) {
+      // drain
+    }
+
+    expect(create.mock.calls[0][0].generation).toEqual({ model: "llama-3.3-70b-versatile", temperature: 0.2 });
+    expect(create.mock.calls[1][0].generation).toEqual({ temperature: 0.2 });
+  });
+});
+
+describe("usageCost", () => {
+  it("should use the longest matching model prefix", () => {
+    const pricing = {
+      inputTokens: 10,
+      models: { "gpt-4o": { inputTokens: 2.5 }, "gpt-4o-mini": { inputTokens: 0.15 } },
+    };
+
+    expect(usageCost(pricing, { provider: "openai", model: "gpt-4o-mini-2024", inputTokens: 1_000_000 })).toBe(0.15);
+    expect(usageCost(pricing, { provider: "openai", model: "gpt-4o", inputTokens: 1_000_000 })).toBe(2.5);
+    expect(usageCost(pricing, { provider: "openai", model: "o1", inputTokens: 1_000_000 })).toBe(10);
+  });
+
+  it("should price audio per minute and characters per million", () => {
+    expect(usageCost({ audioMinutes: 0.006 }, { provider: "assemblyai", audioSeconds: 900 })).toBeCloseTo(0.09);
+    expect(usageCost({ characters: 16 }, { provider: "google", characters: 7000 })).toBeCloseTo(0.112);
+    expect(usageCost(undefined, { provider: "piper", characters: 7000 })).toBe(0);
+  });
+});
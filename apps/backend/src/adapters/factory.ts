@@ -1,210 +1,330 @@
-import type { AdapterFactory, LlmAdapter, SttAdapter, TtsAdapter } from "./interfaces";
-
-// Import adapters (these will be loaded lazily to avoid import errors if deps are missing)
-import { ClaudeAdapter } from "./claude";
-import { 
-  OpenAICompatibleAdapter, 
-  createGroqAdapter, 
-  createTogetherAdapter,
-  createLocalLlamaAdapter 
-} from "./openai-compatible";
-
-// Dynamic imports for optional dependencies
-async function loadAssemblyAI() {
-  const { AssemblyAISttAdapter } = await import("./stt-assemblyai");
-  return AssemblyAISttAdapter;
-}
+import type { AgentId, AudioFormat } from "@basil/shared";
+import type {
+  AdapterFactory,
+  AdapterStatus,
+  GenerationSettings,
+  LlmAdapter,
+  ProviderStatus,
+  SttAdapter,
+  TranscriptCallback,
+  TtsAdapter,
+  TtsUtterance,
+  Usage,
+  UsageCallback,
+  UsageReport,
+  VoiceConfig,
+} from "./interfaces";
+import {
+  CircuitBreaker,
+  FailoverLlmAdapter,
+  FailoverSttAdapter,
+  FailoverTtsAdapter,
+  type CircuitBreakerConfig,
+  type FailoverEvent,
+  type ProviderRole,
+} from "./failover";
+import {
+  listFromEnv,
+  providerChain,
+  providerRegistry,
+  settingReader,
+  type ProviderDefinition,
+  type ProviderRegistry,
+  type SettingReader,
+} from "./registry";
+import { usageCost } from "./pricing";
+import type { RetryConfig, RetryEvent } from "./retry";
+import { withoutUndefined } from "./util";
 
-async function loadGoogleStt() {
-  const { GoogleSttAdapter } = await import("./stt-google");
-  return GoogleSttAdapter;
-}
+export interface FactoryConfig {
+  // Provider ids as registered in the provider registry
+  sttProvider?: string;
+  ttsProvider?: string;
+  guestProvider?: string;
 
-async function loadWhisperStt() {
-  const { WhisperSttAdapter } = await import("./stt-whisper");
-  return WhisperSttAdapter;
-}
+  // Providers tried in order when the one before fails (STT_FALLBACKS=whisper, ...)
+  sttFallbacks?: string[];
+  ttsFallbacks?: string[];
+  guestFallbacks?: string[];
+  // Shared by every provider in a fallback chain
+  circuitBreaker?: CircuitBreakerConfig;
+  // Backoff for LLM rate limits and overloads, before failing over
+  llmRetry?: RetryConfig;
 
-async function loadGoogleTts() {
-  const { GoogleTtsAdapter, createClaudeVoice, createGuestVoice } = await import("./tts-google");
-  return { GoogleTtsAdapter, createClaudeVoice, createGuestVoice };
-}
+  // Provider settings (API keys, endpoints, ...) by env var name; defaults to process.env
+  settings?: Record<string, string | undefined>;
+  registry?: ProviderRegistry;
 
-async function loadPiperTts() {
-  const { PiperTtsAdapter, createClaudePiperVoice, createGuestPiperVoice } = await import("./tts-piper");
-  return { PiperTtsAdapter, createClaudePiperVoice, createGuestPiperVoice };
-}
-
-export interface FactoryConfig {
-  sttProvider?: "assemblyai" | "google" | "whisper";
-  ttsProvider?: "google" | "piper";
-  guestProvider?: "groq" | "together" | "local" | "openai";
-  
-  // API Keys
-  anthropicApiKey?: string;
-  assemblyaiApiKey?: string;
-  groqApiKey?: string;
-  togetherApiKey?: string;
-  openaiApiKey?: string;
-  
-  // Google Cloud credentials are read from GOOGLE_APPLICATION_CREDENTIALS env var
-  
-  // Custom configurations
-  whisperEndpoint?: string;
-  piperPath?: string;
-  piperModelPath?: string;
-  localLlamaEndpoint?: string;
-  guestModel?: string;
+  // Per-speaker voice settings (CLAUDE_VOICE, GUEST_VOICE_RATE, ...)
+  voices?: Partial<Record<AgentId, VoiceConfig>>;
   
   // Callbacks
-  onSttTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  onSttTranscript?: TranscriptCallback;
   onSttError?: (sessionId: string, error: Error) => void;
-  onTtsAudioChunk?: (sessionId: string, audioChunk: Buffer) => void;
-  onTtsComplete?: (sessionId: string) => void;
-  onTtsError?: (sessionId: string, error: Error) => void;
+  // Chunks are tagged with the format of the provider that synthesized them
+  onTtsAudioChunk?: (sessionId: string, audioChunk: Buffer, utterance: TtsUtterance, format: AudioFormat) => void;
+  onTtsComplete?: (sessionId: string, utterance: TtsUtterance) => void;
+  onTtsError?: (sessionId: string, error: Error, utterance: TtsUtterance) => void;
+  onFailover?: (sessionId: string, event: FailoverEvent) => void;
+  onUsage?: (sessionId: string, usage: UsageReport) => void;
+  onLlmRetry?: (sessionId: string, event: RetryEvent & { speaker: AgentId }) => void;
 }
 
 export class RealAdapterFactory implements AdapterFactory {
   private config: FactoryConfig;
+  private registry: ProviderRegistry;
+  private setting: SettingReader;
+  // One breaker per provider, shared by every adapter that uses it
+  private breakers = new Map<string, CircuitBreaker>();
 
   constructor(config: FactoryConfig = {}) {
     // Read from environment variables
     this.config = {
-      sttProvider: (process.env.STT_PROVIDER as any) || "assemblyai",
-      ttsProvider: (process.env.TTS_PROVIDER as any) || "google",
-      guestProvider: (process.env.GUEST_PROVIDER as any) || "groq",
-      
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-      assemblyaiApiKey: process.env.ASSEMBLYAI_API_KEY,
-      groqApiKey: process.env.GROQ_API_KEY,
-      togetherApiKey: process.env.TOGETHER_API_KEY,
-      openaiApiKey: process.env.OPENAI_API_KEY,
-      
-      whisperEndpoint: process.env.WHISPER_ENDPOINT || "http://localhost:8001/transcribe",
-      piperPath: process.env.PIPER_PATH || "piper",
-      piperModelPath: process.env.PIPER_MODEL_PATH,
-      localLlamaEndpoint: process.env.LOCAL_LLAMA_ENDPOINT || "http://localhost:8080/v1",
-      guestModel: process.env.GUEST_MODEL,
+      sttProvider: process.env.STT_PROVIDER || "assemblyai",
+      ttsProvider: process.env.TTS_PROVIDER || "google",
+      guestProvider: process.env.GUEST_PROVIDER || "groq",
+      sttFallbacks: listFromEnv("STT_FALLBACKS"),
+      ttsFallbacks: listFromEnv("TTS_FALLBACKS"),
+      guestFallbacks: listFromEnv("GUEST_FALLBACKS"),
+      circuitBreaker: {
+        failureThreshold: numberFromEnv("CIRCUIT_FAILURE_THRESHOLD"),
+        resetTimeoutMs: numberFromEnv("CIRCUIT_RESET_MS"),
+      },
+      llmRetry: {
+        maxRetries: numberFromEnv("LLM_MAX_RETRIES"),
+        baseDelayMs: numberFromEnv("LLM_RETRY_BASE_MS"),
+        maxDelayMs: numberFromEnv("LLM_RETRY_MAX_MS"),
+      },
+
+      voices: {
+        claude: voiceFromEnv("CLAUDE"),
+        guest: voiceFromEnv("GUEST"),
+      },
       
       ...config,
     };
+    this.registry = this.config.registry ?? providerRegistry;
+    this.setting = settingReader(this.config.settings);
   }
 
-  stt(): SttAdapter {
-    const provider = this.config.sttProvider!;
-    
-    switch (provider) {
-      case "assemblyai": {
-        if (!this.config.assemblyaiApiKey) {
-          throw new Error("ASSEMBLYAI_API_KEY is required for AssemblyAI STT");
-        }
-        return loadAssemblyAI().then(AssemblyAISttAdapter => 
-          new AssemblyAISttAdapter({
-            apiKey: this.config.assemblyaiApiKey!,
-            onTranscript: this.config.onSttTranscript,
-            onError: this.config.onSttError,
-          })
-        ) as any; // Will be loaded async in practice
-      }
-      
-      case "google": {
-        return loadGoogleStt().then(GoogleSttAdapter =>
-          new GoogleSttAdapter({
-            onTranscript: this.config.onSttTranscript,
-            onError: this.config.onSttError,
-          })
-        ) as any;
-      }
-      
-      case "whisper": {
-        return loadWhisperStt().then(WhisperSttAdapter =>
-          new WhisperSttAdapter({
-            endpoint: this.config.whisperEndpoint,
-            onTranscript: this.config.onSttTranscript,
-            onError: this.config.onSttError,
-          })
-        ) as any;
-      }
-      
-      default:
-        throw new Error(`Unknown STT provider: ${provider}`);
+  async stt(): Promise<SttAdapter> {
+    const providers: string[] = providerChain(this.config.sttProvider!, this.config.sttFallbacks);
+    if (providers.length === 1) {
+      return this.createStt(providers[0], this.config.onSttError);
     }
+
+    const failover: FailoverSttAdapter = new FailoverSttAdapter(
+      providers.map((provider) => ({
+        provider,
+        breaker: this.breaker("stt", provider),
+        create: () =>
+          this.createStt(provider, (sessionId, error) => void failover.handleError(provider, sessionId, error)),
+      })),
+      { onFailover: this.config.onFailover, onError: this.config.onSttError }
+    );
+    return failover;
   }
 
-  tts(): TtsAdapter {
-    const provider = this.config.ttsProvider!;
-    
-    switch (provider) {
-      case "google": {
-        return loadGoogleTts().then(({ createClaudeVoice }) =>
-          createClaudeVoice()
-        ) as any;
-      }
-      
-      case "piper": {
-        return loadPiperTts().then(({ createClaudePiperVoice }) =>
-          createClaudePiperVoice(this.config.piperModelPath)
-        ) as any;
-      }
-      
-      default:
-        throw new Error(`Unknown TTS provider: ${provider}`);
+  private async createStt(
+    provider: string,
+    onError: FactoryConfig["onSttError"]
+  ): Promise<SttAdapter> {
+    const definition = this.definition("stt", provider);
+    return definition.create({
+      setting: this.setting,
+      onTranscript: this.config.onSttTranscript,
+      onError,
+      onUsage: this.reportUsage(definition),
+    });
+  }
+
+  async tts(speaker: AgentId, voice: VoiceConfig = {}): Promise<TtsAdapter> {
+    const providers: string[] = providerChain(this.config.ttsProvider!, this.config.ttsFallbacks);
+    const voiceConfig: VoiceConfig = { ...this.config.voices?.[speaker], ...withoutUndefined(voice) };
+    const onError = (sessionId: string, error: Error, utteranceId: string) =>
+      this.config.onTtsError?.(sessionId, error, { speaker, utteranceId });
+    if (providers.length === 1) {
+      return this.createTts(providers[0], speaker, voiceConfig, onError);
     }
+
+    // Errors go to the failover adapter, which retries the clause on the next provider
+    const failover: FailoverTtsAdapter = new FailoverTtsAdapter(
+      providers.map((provider) => ({
+        provider,
+        breaker: this.breaker("tts", provider),
+        create: () =>
+          this.createTts(provider, speaker, voiceConfig, (_sessionId, error) => failover.handleError(provider, error)),
+      })),
+      { speaker, onFailover: this.config.onFailover }
+    );
+    return failover;
+  }
+
+  private async createTts(
+    provider: string,
+    speaker: AgentId,
+    voice: VoiceConfig,
+    onError: (sessionId: string, error: Error, utteranceId: string) => void
+  ): Promise<TtsAdapter> {
+    const definition = this.definition("tts", provider);
+    const adapter: TtsAdapter = await definition.create({
+      setting: this.setting,
+      speaker,
+      voice,
+      onUsage: this.reportUsage(definition, speaker),
+      // Tag every callback with the speaker this voice belongs to
+      onAudioChunk: (sessionId: string, chunk: Buffer, utteranceId: string) =>
+        this.config.onTtsAudioChunk?.(sessionId, chunk, { speaker, utteranceId }, adapter.outputFormat),
+      onComplete: (sessionId: string, utteranceId: string) => this.config.onTtsComplete?.(sessionId, { speaker, utteranceId }),
+      onError,
+    });
+    return adapter;
   }
 
-  llm(identifier: "claude" | "guest"): LlmAdapter {
+  async llm(identifier: "claude" | "guest"): Promise<LlmAdapter> {
     if (identifier === "claude") {
-      if (!this.config.anthropicApiKey) {
-        throw new Error("ANTHROPIC_API_KEY is required for Claude");
-      }
-      return new ClaudeAdapter({
-        apiKey: this.config.anthropicApiKey,
-      });
+      return this.createLlm("claude", "claude");
     }
     
     // Guest LLM
-    const provider = this.config.guestProvider!;
-    
-    switch (provider) {
-      case "groq": {
-        if (!this.config.groqApiKey) {
-          throw new Error("GROQ_API_KEY is required for Groq");
-        }
-        return createGroqAdapter(
-          this.config.groqApiKey,
-          this.config.guestModel
-        );
+    const providers: string[] = providerChain(this.config.guestProvider!, this.config.guestFallbacks);
+    if (providers.length === 1) {
+      return this.createLlm(providers[0], "guest");
+    }
+
+    return new FailoverLlmAdapter(
+      providers.map((provider) => ({
+        provider,
+        breaker: this.breaker("llm", provider),
+        create: () => this.createLlm(provider, "guest", provider === providers[0]),
+      })),
+      { speaker: "guest", onFailover: this.config.onFailover }
+    );
+  }
+
+  private createLlm(provider: string, speaker: AgentId, primary = true): Promise<LlmAdapter> {
+    const definition = this.definition("llm", provider);
+    return Promise.resolve(
+      definition.create({
+        setting: this.setting,
+        speaker,
+        generation: this.generation(speaker, primary),
+        onUsage: this.reportUsage(definition, speaker),
+        retry: this.config.llmRetry,
+        onRetry: (sessionId: string, event: RetryEvent) => this.config.onLlmRetry?.(sessionId, { ...event, speaker }),
+      })
+    );
+  }
+
+  // Default sampling settings for a speaker (CLAUDE_MODEL, GUEST_TEMPERATURE, ...).
+  // The model names one of the primary's models; fallbacks keep their own
+  private generation(speaker: AgentId, primary: boolean): GenerationSettings {
+    const prefix = speaker.toUpperCase();
+    const number = (key: string) => {
+      const value = this.setting(key);
+      return value === undefined ? undefined : Number(value);
+    };
+    return withoutUndefined({
+      model: primary ? this.setting(`${prefix}_MODEL`) : undefined,
+      temperature: number(`${prefix}_TEMPERATURE`),
+      maxTokens: number(`${prefix}_MAX_TOKENS`),
+    });
+  }
+
+  /**
+   * Reports which configured providers can be used: API key present, SDK
+   * installed and circuit not open. Ready when every role has at least one.
+   */
+  async status(): Promise<AdapterStatus> {
+    const check = async (role: ProviderRole, provider: string, speaker?: AgentId): Promise<ProviderStatus> => {
+      const breaker = role === "llm" && provider === "claude" ? undefined : this.breakers.get(`${role}:${provider}`);
+      const status: ProviderStatus = { role, provider, speaker, ready: false, circuit: breaker?.state ?? "closed" };
+
+      const definition = this.registry.get(role, provider);
+      if (!definition) {
+        return { ...status, reason: "unknown provider" };
       }
-      
-      case "together": {
-        if (!this.config.togetherApiKey) {
-          throw new Error("TOGETHER_API_KEY is required for Together");
-        }
-        return createTogetherAdapter(
-          this.config.togetherApiKey,
-          this.config.guestModel
-        );
+      const missing = this.registry.missingKeys(definition, this.setting);
+      if (missing.length > 0) {
+        return { ...status, reason: `${missing.join(", ")} is not set` };
       }
-      
-      case "local": {
-        return createLocalLlamaAdapter(
-          this.config.localLlamaEndpoint,
-          this.config.guestModel
-        );
+      try {
+        await definition.load?.();
+      } catch (error) {
+        return { ...status, reason: `SDK failed to load: ${(error as Error).message}` };
       }
-      
-      case "openai": {
-        if (!this.config.openaiApiKey) {
-          throw new Error("OPENAI_API_KEY is required for OpenAI");
-        }
-        return new OpenAICompatibleAdapter("openai", {
-          apiKey: this.config.openaiApiKey,
-          model: this.config.guestModel || "gpt-4o-mini",
-        });
+      if (breaker && !breaker.isAvailable) {
+        return { ...status, reason: "circuit open" };
       }
-      
-      default:
-        throw new Error(`Unknown guest provider: ${provider}`);
+      return { ...status, ready: true };
+    };
+
+    const stt: string[] = providerChain(this.config.sttProvider!, this.config.sttFallbacks);
+    const tts: string[] = providerChain(this.config.ttsProvider!, this.config.ttsFallbacks);
+    const guest: string[] = providerChain(this.config.guestProvider!, this.config.guestFallbacks);
+    const providers: ProviderStatus[] = await Promise.all([
+      ...stt.map((provider) => check("stt", provider)),
+      ...tts.map((provider) => check("tts", provider)),
+      check("llm", "claude", "claude"),
+      ...guest.map((provider) => check("llm", provider, "guest")),
+    ]);
+
+    const anyReady = (predicate: (status: ProviderStatus) => boolean) =>
+      providers.some((status) => status.ready && predicate(status));
+    return {
+      ready:
+        anyReady((s) => s.role === "stt") &&
+        anyReady((s) => s.role === "tts") &&
+        anyReady((s) => s.speaker === "claude") &&
+        anyReady((s) => s.speaker === "guest"),
+      providers,
+    };
+  }
+
+  /**
+   * Looks up a provider, throwing when it's unknown or missing a required setting.
+   */
+  private definition<R extends ProviderRole>(role: R, provider: string): Extract<ProviderDefinition, { role: R }> {
+    const definition = this.registry.require(role, provider);
+    const missing = this.registry.missingKeys(definition, this.setting);
+    if (missing.length > 0) {
+      throw new Error(`${missing.join(", ")} is required for ${definition.label}`);
+    }
+    return definition;
+  }
+
+  // Tags an adapter's usage with its role and speaker, and prices it
+  private reportUsage(definition: ProviderDefinition, speaker?: AgentId): UsageCallback {
+    return (sessionId: string, usage: Usage) =>
+      this.config.onUsage?.(sessionId, {
+        ...usage,
+        role: definition.role,
+        speaker,
+        costUsd: usageCost(definition.pricing, usage),
+      });
+  }
+
+  private breaker(role: ProviderRole, provider: string): CircuitBreaker {
+    const key = `${role}:${provider}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, this.config.circuitBreaker);
+      this.breakers.set(key, breaker);
     }
+    return breaker;
   }
 }
+
+function voiceFromEnv(prefix: string): VoiceConfig {
+  return withoutUndefined({
+    voiceName: process.env[`${prefix}_VOICE`],
+    speakingRate: numberFromEnv(`${prefix}_VOICE_RATE`),
+    pitch: numberFromEnv(`${prefix}_VOICE_PITCH`),
+    piperModelPath: process.env[`${prefix}_PIPER_MODEL`] || undefined,
+  });
+}
+
+function numberFromEnv(key: string): number | undefined {
+  const value = process.env[key];
+  return value === undefined || value === "" ? undefined : Number(value);
+}
@@ -0,0 +1,359 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  CircuitBreaker,
+  FailoverLlmAdapter,
+  FailoverSttAdapter,
+  FailoverTtsAdapter,
+  type ProviderCandidate,
+} from "./failover";
+import type { LlmAdapter, SttAdapter, TtsAdapter } from "./interfaces";
+
+function candidate<T>(provider: string, adapter: T, breaker = new CircuitBreaker(provider)): ProviderCandidate<T> {
+  return { provider, breaker, create: () => adapter };
+}
+
+// Local fake LLM: yields `chunks`, throwing after `failAfter` of them
+function fakeLlm(id: string, chunks: string[], failAfter?: number): LlmAdapter {
+  return {
+    id,
+    async *generate() {
+      for (const [index, chunk] of chunks.entries()) {
+        if (index === failAfter) throw new Error(`${id} down`);
+        yield chunk;
+      }
+      if (failAfter === chunks.length) throw new Error(`${id} down`);
+    },
+    stop: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should open after repeated failures", () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 2, resetTimeoutMs: 1000 });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it("should reset the failure count on success", () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should let a single probe through once the reset timeout passes", () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 1, resetTimeoutMs: 1000, onStateChange });
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(onStateChange.mock.calls.map((call: any[]) => call[0])).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("should free the probe slot when a probe is abandoned", () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 1, resetTimeoutMs: 1000 });
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.releaseRequest();
+
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it("should re-open when the probe fails", () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 3, resetTimeoutMs: 1000 });
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+  });
+});
+
+describe("FailoverLlmAdapter", () => {
+  it("should fall back when the primary fails before producing text", async () => {
+    const onFailover = vi.fn();
+    const llm = new FailoverLlmAdapter(
+      [candidate("groq", fakeLlm("groq", ["never"], 0)), candidate("local", fakeLlm("local", ["Hello", " there"]))],
+      { speaker: "guest", onFailover }
+    );
+
+    await expect(collect(llm.generate("session-1", { messages: [] }))).resolves.toBe("Hello there");
+    expect(llm.served).toEqual({ provider: "local", model: undefined });
+    expect(onFailover).toHaveBeenCalledWith(
+      "session-1",
+      expect.objectContaining({ role: "llm", speaker: "guest", from: "groq", to: "local", circuit: "closed" })
+    );
+  });
+
+  it("should not restart a reply that already streamed text", async () => {
+    const fallback = fakeLlm("local", ["Fallback"]);
+    const generate = vi.spyOn(fallback, "generate");
+    const llm = new FailoverLlmAdapter([
+      candidate("groq", fakeLlm("groq", ["Half a"], 1)),
+      candidate("local", fallback),
+    ]);
+
+    await expect(collect(llm.generate("session-1", { messages: [] }))).rejects.toThrow("groq down");
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it("should only send a model override to the primary", async () => {
+    const primary = fakeLlm("groq", ["never"], 0);
+    const fallback = { ...fakeLlm("local", ["Hi"]), model: "local-model" };
+    const primaryGenerate = vi.spyOn(primary, "generate");
+    const fallbackGenerate = vi.spyOn(fallback, "generate");
+    const llm = new FailoverLlmAdapter([candidate("groq", primary), candidate("local", fallback)]);
+    const settings = { model: "llama-3.3-70b-versatile", temperature: 0.2 };
+
+    await collect(llm.generate("session-1", { messages: [], settings }));
+
+    expect(primaryGenerate).toHaveBeenCalledWith("session-1", { messages: [], settings });
+    expect(fallbackGenerate).toHaveBeenCalledWith("session-1", {
+      messages: [],
+      settings: { model: undefined, temperature: 0.2 },
+    });
+    expect(llm.served).toEqual({ provider: "local", model: "local-model" });
+  });
+
+  it("should skip providers whose circuit is open", async () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 1, resetTimeoutMs: 60_000 });
+    const primary = fakeLlm("groq", ["never"], 0);
+    const generate = vi.spyOn(primary, "generate");
+    const llm = new FailoverLlmAdapter([candidate("groq", primary, breaker), candidate("local", fakeLlm("local", ["ok"]))]);
+
+    await collect(llm.generate("session-1", { messages: [] }));
+    await collect(llm.generate("session-1", { messages: [] }));
+
+    expect(breaker.state).toBe("open");
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should settle a half-open probe the consumer stops reading", async () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 1, resetTimeoutMs: 0 });
+    breaker.recordFailure();
+    const llm = new FailoverLlmAdapter([candidate("groq", fakeLlm("groq", ["Hello", " there"]), breaker)]);
+
+    for await (const _chunk of llm.generate("session-1", { messages: [] })) break;
+
+    expect(breaker.state).toBe("closed");
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it("should not fail over when stopped before the first token", async () => {
+    const breaker = new CircuitBreaker("groq", { failureThreshold: 1 });
+    let abort!: () => void;
+    // Like the SDKs: a plain Error, not an AbortError, once the request is aborted
+    const primary: LlmAdapter = {
+      id: "groq",
+      async *generate() {
+        await new Promise<void>((resolve) => (abort = resolve));
+        throw new Error("Request was aborted.");
+      },
+      stop: vi.fn(async () => abort()),
+    };
+    const fallback = fakeLlm("local", ["Hi"]);
+    const fallbackGenerate = vi.spyOn(fallback, "generate");
+    const onFailover = vi.fn();
+    const llm = new FailoverLlmAdapter([candidate("groq", primary, breaker), candidate("local", fallback)], { onFailover });
+
+    const reply = collect(llm.generate("session-1", { messages: [] }));
+    await vi.waitFor(() => expect(abort).toBeDefined());
+    await llm.stop("session-1");
+
+    await expect(reply).resolves.toBe("");
+    expect(breaker.state).toBe("closed");
+    expect(fallbackGenerate).not.toHaveBeenCalled();
+    expect(onFailover).not.toHaveBeenCalled();
+  });
+
+  it("should treat a provider that can't be created as failed", async () => {
+    const onFailover = vi.fn();
+    const llm = new FailoverLlmAdapter(
+      [
+        {
+          provider: "together",
+          breaker: new CircuitBreaker("together"),
+          create: () => {
+            throw new Error("TOGETHER_API_KEY is required for Together");
+          },
+        },
+        candidate("local", fakeLlm("local", ["ok"])),
+      ],
+      { onFailover }
+    );
+
+    await expect(collect(llm.generate("session-1", { messages: [] }))).resolves.toBe("ok");
+    expect(onFailover.mock.calls[0][1].error.message).toContain("TOGETHER_API_KEY");
+  });
+
+  it("should report the last error when every provider fails", async () => {
+    const onFailover = vi.fn();
+    const llm = new FailoverLlmAdapter(
+      [candidate("groq", fakeLlm("groq", ["x"], 0)), candidate("local", fakeLlm("local", ["x"], 0))],
+      { onFailover }
+    );
+
+    await expect(collect(llm.generate("session-1", { messages: [] }))).rejects.toThrow("local down");
+    expect(onFailover).toHaveBeenLastCalledWith("session-1", expect.objectContaining({ from: "local", to: undefined }));
+  });
+});
+
+describe("FailoverTtsAdapter", () => {
+  it("should synthesize again on the next provider when the callback reports an error", async () => {
+    let failover!: FailoverTtsAdapter;
+    const google: TtsAdapter = {
+      synthesize: vi.fn(async () => failover.handleError("google", new Error("quota exceeded"))),
+      stop: vi.fn().mockResolvedValue(undefined),
+    };
+    const piper: TtsAdapter = { synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn().mockResolvedValue(undefined) };
+    const onFailover = vi.fn();
+    failover = new FailoverTtsAdapter([candidate("google", google), candidate("piper", piper)], {
+      speaker: "claude",
+      onFailover,
+    });
+
+    await failover.synthesize("session-1", "Hello.", "utterance-1");
+
+    expect(piper.synthesize).toHaveBeenCalledWith("session-1", "Hello.", "utterance-1");
+    expect(onFailover).toHaveBeenCalledWith(
+      "session-1",
+      expect.objectContaining({ role: "tts", speaker: "claude", from: "google", to: "piper" })
+    );
+  });
+
+  it("should not fail over after being stopped", async () => {
+    let failover!: FailoverTtsAdapter;
+    const google: TtsAdapter = {
+      synthesize: vi.fn(async () => {
+        await failover.stop("session-1");
+        failover.handleError("google", new Error("aborted"));
+      }),
+      stop: vi.fn().mockResolvedValue(undefined),
+    };
+    const piper: TtsAdapter = { synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn().mockResolvedValue(undefined) };
+    failover = new FailoverTtsAdapter([candidate("google", google), candidate("piper", piper)]);
+
+    await failover.synthesize("session-1", "Hello.");
+
+    expect(google.stop).toHaveBeenCalledWith("session-1");
+    expect(piper.synthesize).not.toHaveBeenCalled();
+  });
+});
+
+describe("FailoverSttAdapter", () => {
+  function fakeStt(): SttAdapter & { sendAudio: ReturnType<typeof vi.fn> } {
+    return {
+      start: vi.fn().mockResolvedValue(undefined),
+      stop: vi.fn().mockResolvedValue(undefined),
+      sendAudio: vi.fn(),
+    };
+  }
+
+  it("should start the next provider when the primary can't connect", async () => {
+    const assemblyai = fakeStt();
+    assemblyai.start = vi.fn().mockRejectedValue(new Error("401"));
+    const whisper = fakeStt();
+    const stt = new FailoverSttAdapter([candidate("assemblyai", assemblyai), candidate("whisper", whisper)]);
+
+    await stt.start("session-1");
+    stt.sendAudio("session-1", Buffer.alloc(10));
+
+    expect(whisper.start).toHaveBeenCalledWith("session-1");
+    expect(whisper.sendAudio).toHaveBeenCalled();
+    expect(assemblyai.sendAudio).not.toHaveBeenCalled();
+  });
+
+  it("should switch providers when the stream errors mid-session", async () => {
+    const assemblyai = fakeStt();
+    const whisper = fakeStt();
+    const onFailover = vi.fn();
+    const stt = new FailoverSttAdapter([candidate("assemblyai", assemblyai), candidate("whisper", whisper)], {
+      onFailover,
+    });
+    await stt.start("session-1");
+
+    await stt.handleError("assemblyai", "session-1", new Error("socket closed"));
+    stt.sendAudio("session-1", Buffer.alloc(10));
+
+    expect(assemblyai.stop).toHaveBeenCalledWith("session-1");
+    expect(whisper.sendAudio).toHaveBeenCalled();
+    expect(onFailover).toHaveBeenCalledWith("session-1", expect.objectContaining({ from: "assemblyai", to: "whisper" }));
+  });
+
+  it("should pass the error on once every provider has failed", async () => {
+    const assemblyai = fakeStt();
+    const whisper = fakeStt();
+    whisper.start = vi.fn().mockRejectedValue(new Error("whisper offline"));
+    const onError = vi.fn();
+    const stt = new FailoverSttAdapter([candidate("assemblyai", assemblyai), candidate("whisper", whisper)], {
+      onError,
+    });
+    await stt.start("session-1");
+
+    await stt.handleError("assemblyai", "session-1", new Error("socket closed"));
+
+    expect(onError).toHaveBeenCalledWith("session-1", expect.objectContaining({ message: "whisper offline" }));
+  });
+
+  it("should ignore errors from providers that are no longer active", async () => {
+    const assemblyai = fakeStt();
+    const whisper = fakeStt();
+    const onFailover = vi.fn();
+    const stt = new FailoverSttAdapter([candidate("assemblyai", assemblyai), candidate("whisper", whisper)], {
+      onFailover,
+    });
+    await stt.start("session-1");
+
+    await stt.handleError("whisper", "session-1", new Error("late error"));
+
+    expect(onFailover).not.toHaveBeenCalled();
+  });
+
+  it("should flush the active provider only", async () => {
+    const assemblyai = fakeStt();
+    assemblyai.start = vi.fn().mockRejectedValue(new Error("401"));
+    const whisper = { ...fakeStt(), flush: vi.fn().mockResolvedValue(undefined) };
+    const stt = new FailoverSttAdapter([candidate("assemblyai", assemblyai), candidate("whisper", whisper)]);
+    await stt.start("session-1");
+
+    await stt.flush("session-1");
+    await stt.flush("session-2");
+
+    expect(whisper.flush).toHaveBeenCalledTimes(1);
+    expect(whisper.flush).toHaveBeenCalledWith("session-1");
+  });
+});
@@ -0,0 +1,419 @@
+import type { AgentId, AudioFormat } from "@basil/shared";
+import type { LlmAdapter, LlmRequest, ServedBy, SttAdapter, TtsAdapter } from "./interfaces";
+
+export type ProviderRole = "stt" | "tts" | "llm";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures before the circuit opens
+  failureThreshold?: number;
+  // How long an open circuit rejects requests before letting a probe through
+  resetTimeoutMs?: number;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Tracks the health of one provider. After `failureThreshold` consecutive
+ * failures the circuit opens and the provider is skipped; once
+ * `resetTimeoutMs` has passed a single probe request is let through
+ * (half-open), which closes the circuit on success or re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig & { failureThreshold: number; resetTimeoutMs: number };
+  private current: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(readonly name: string, config: CircuitBreakerConfig = {}) {
+    this.config = {
+      onStateChange: config.onStateChange,
+      failureThreshold: config.failureThreshold ?? 3,
+      resetTimeoutMs: config.resetTimeoutMs ?? 30_000,
+    };
+  }
+
+  get state(): CircuitState {
+    return this.current;
+  }
+
+  /**
+   * Whether a request could go through right now, without claiming the probe.
+   */
+  get isAvailable(): boolean {
+    if (this.current === "closed") return true;
+    if (this.current === "open") return Date.now() - this.openedAt >= this.config.resetTimeoutMs;
+    return !this.probing;
+  }
+
+  /**
+   * Claims a request slot. In half-open state only one probe is allowed at a time.
+   */
+  allowRequest(): boolean {
+    if (!this.isAvailable) return false;
+    if (this.current === "closed") return true;
+
+    this.transition("half-open");
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.probing = false;
+    this.transition("closed");
+  }
+
+  /**
+   * A claimed request ended with no outcome (the caller gave up on it);
+   * frees the probe slot without changing state.
+   */
+  releaseRequest(): void {
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    this.probing = false;
+    this.failures++;
+    if (this.current === "half-open" || this.failures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.current;
+    if (previous === next) return;
+
+    this.current = next;
+    console.info(`[circuit] ${this.name}: ${previous} → ${next}`);
+    this.config.onStateChange?.(next, previous);
+  }
+}
+
+export interface FailoverEvent {
+  role: ProviderRole;
+  speaker?: AgentId;
+  // Provider that failed
+  from: string;
+  // Provider tried next, or undefined when none is left
+  to?: string;
+  error: Error;
+  // Circuit state of the failed provider after the failure
+  circuit: CircuitState;
+}
+
+// Until a provider has started: what every built-in STT and TTS provider can use
+const DEFAULT_FORMAT: AudioFormat = { encoding: "pcm_s16le", sampleRate: 16000, channels: 1 };
+
+export interface ProviderCandidate<T> {
+  provider: string;
+  breaker: CircuitBreaker;
+  create: () => T | Promise<T>;
+}
+
+interface FailoverConfig {
+  role: ProviderRole;
+  speaker?: AgentId;
+  onFailover?: (sessionId: string, event: FailoverEvent) => void;
+}
+
+/**
+ * Ordered providers for one role. Adapters are created on first use so a
+ * fallback that is never needed costs nothing.
+ */
+class FailoverChain<T> {
+  private adapters = new Map<string, Promise<T>>();
+
+  constructor(
+    private candidates: ProviderCandidate<T>[],
+    private config: FailoverConfig
+  ) {}
+
+  get primary(): string {
+    return this.candidates[0].provider;
+  }
+
+  /**
+   * Candidates whose circuit lets a request through, in order, starting
+   * after `after` when given.
+   */
+  *available(after?: string): Generator<ProviderCandidate<T>> {
+    const start = after === undefined ? 0 : this.candidates.findIndex((c) => c.provider === after) + 1;
+    for (const candidate of this.candidates.slice(start)) {
+      if (candidate.breaker.allowRequest()) yield candidate;
+    }
+  }
+
+  adapter(candidate: ProviderCandidate<T>): Promise<T> {
+    let adapter = this.adapters.get(candidate.provider);
+    if (!adapter) {
+      adapter = Promise.resolve().then(candidate.create);
+      this.adapters.set(candidate.provider, adapter);
+      // A provider that can't be created (e.g. missing key) is retried next time
+      adapter.catch(() => this.adapters.delete(candidate.provider));
+    }
+    return adapter;
+  }
+
+  /**
+   * Runs `op` against the first healthy provider, failing over down the
+   * chain. Throws the last error once every provider has failed.
+   */
+  async run<R>(
+    sessionId: string,
+    op: (adapter: T, provider: string) => Promise<R>,
+    after?: string
+  ): Promise<R> {
+    let lastError: Error | undefined;
+    for (const candidate of this.available(after)) {
+      try {
+        const result = await op(await this.adapter(candidate), candidate.provider);
+        candidate.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        lastError = error as Error;
+        this.fail(sessionId, candidate.provider, lastError);
+      }
+    }
+    throw lastError ?? new Error(`No ${this.config.role} provider available`);
+  }
+
+  /**
+   * Records a failure of `provider` and reports the failover.
+   */
+  fail(sessionId: string, provider: string, error: Error): void {
+    const index = this.candidates.findIndex((c) => c.provider === provider);
+    const candidate = this.candidates[index];
+    candidate.breaker.recordFailure();
+
+    const next = this.candidates.slice(index + 1).find((c) => c.breaker.isAvailable);
+    const { role, speaker } = this.config;
+    console.warn(
+      `[failover] ${role}${speaker ? `/${speaker}` : ""} ${provider} failed (${error.message}), ` +
+        (next ? `trying ${next.provider}` : "no providers left")
+    );
+    this.config.onFailover?.(sessionId, {
+      role,
+      speaker,
+      from: provider,
+      to: next?.provider,
+      error,
+      circuit: candidate.breaker.state,
+    });
+  }
+}
+
+/**
+ * STT with failover. A provider that fails to start, or errors mid-stream,
+ * is replaced by the next healthy one for the rest of the session.
+ */
+export class FailoverSttAdapter implements SttAdapter {
+  private chain: FailoverChain<SttAdapter>;
+  private active = new Map<string, { provider: string; adapter: SttAdapter }>();
+  private format = DEFAULT_FORMAT;
+  private onError?: (sessionId: string, error: Error) => void;
+
+  constructor(
+    candidates: ProviderCandidate<SttAdapter>[],
+    config: Omit<FailoverConfig, "role"> & {
+      // Called when every provider has failed mid-stream
+      onError?: (sessionId: string, error: Error) => void;
+    } = {}
+  ) {
+    this.chain = new FailoverChain(candidates, { ...config, role: "stt" });
+    this.onError = config.onError;
+  }
+
+  // Input of the provider that started last; changes when the session fails over
+  get inputFormat(): AudioFormat {
+    return this.format;
+  }
+
+  start(sessionId: string): Promise<void> {
+    return this.startAfter(sessionId);
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    const active = this.active.get(sessionId);
+    this.active.delete(sessionId);
+    await active?.adapter.stop(sessionId);
+  }
+
+  sendAudio(sessionId: string, audioChunk: Buffer): void {
+    this.active.get(sessionId)?.adapter.sendAudio?.(sessionId, audioChunk);
+  }
+
+  async flush(sessionId: string): Promise<void> {
+    await this.active.get(sessionId)?.adapter.flush?.(sessionId);
+  }
+
+  /**
+   * Error reported by a provider's stream. Errors from providers that are
+   * no longer active are ignored.
+   */
+  async handleError(provider: string, sessionId: string, error: Error): Promise<void> {
+    const active = this.active.get(sessionId);
+    if (active?.provider !== provider) return;
+
+    this.active.delete(sessionId);
+    this.chain.fail(sessionId, provider, error);
+    await active.adapter.stop(sessionId).catch(() => {});
+
+    try {
+      await this.startAfter(sessionId, provider);
+    } catch (lastError) {
+      this.onError?.(sessionId, lastError as Error);
+    }
+  }
+
+  private startAfter(sessionId: string, after?: string): Promise<void> {
+    return this.chain.run(
+      sessionId,
+      async (adapter, provider) => {
+        await adapter.start(sessionId);
+        this.active.set(sessionId, { provider, adapter });
+        this.format = adapter.inputFormat;
+      },
+      after
+    );
+  }
+}
+
+/**
+ * TTS with failover: a clause that fails on one provider is synthesized
+ * again on the next.
+ */
+export class FailoverTtsAdapter implements TtsAdapter {
+  private chain: FailoverChain<TtsAdapter>;
+  private active = new Map<string, TtsAdapter>();
+  private format = DEFAULT_FORMAT;
+  // Errors reported through provider callbacks while synthesizing, by provider
+  private errors = new Map<string, Error>();
+  private stopped = new Set<string>();
+
+  constructor(candidates: ProviderCandidate<TtsAdapter>[], config: Omit<FailoverConfig, "role"> = {}) {
+    this.chain = new FailoverChain(candidates, { ...config, role: "tts" });
+  }
+
+  // Output of the provider that synthesized last; each chunk is tagged with its own
+  get outputFormat(): AudioFormat {
+    return this.format;
+  }
+
+  synthesize(sessionId: string, text: string, utteranceId?: string): Promise<void> {
+    this.stopped.delete(sessionId);
+    return this.chain.run(sessionId, async (adapter, provider) => {
+      if (this.stopped.has(sessionId)) return;
+
+      this.errors.delete(provider);
+      this.active.set(sessionId, adapter);
+      this.format = adapter.outputFormat;
+      await adapter.synthesize(sessionId, text, utteranceId);
+
+      // Providers report errors through callbacks rather than rejecting
+      const error = this.errors.get(provider);
+      this.errors.delete(provider);
+      if (error && !this.stopped.has(sessionId)) throw error;
+    });
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    this.stopped.add(sessionId);
+    const adapter = this.active.get(sessionId);
+    this.active.delete(sessionId);
+    await adapter?.stop(sessionId);
+  }
+
+  /**
+   * Error reported by a provider's callback; fails the synthesis in progress.
+   */
+  handleError(provider: string, error: Error): void {
+    this.errors.set(provider, error);
+  }
+}
+
+/**
+ * LLM with failover. A provider that fails before producing any text is
+ * replaced by the next; once text has streamed the error is passed on, since
+ * the reply can't be restarted without repeating itself.
+ */
+export class FailoverLlmAdapter implements LlmAdapter {
+  private chain: FailoverChain<LlmAdapter>;
+  private active = new Map<string, LlmAdapter>();
+  private lastServed?: ServedBy;
+  private stopped = new Set<string>();
+
+  constructor(candidates: ProviderCandidate<LlmAdapter>[], config: Omit<FailoverConfig, "role"> = {}) {
+    this.chain = new FailoverChain(candidates, { ...config, role: "llm" });
+  }
+
+  // Requests go to the primary first
+  get id(): string {
+    return this.chain.primary;
+  }
+
+  // No `model`: which one runs depends on the provider that serves the request
+  get served(): ServedBy | undefined {
+    return this.lastServed;
+  }
+
+  async *generate(sessionId: string, request: LlmRequest): AsyncIterable<string> {
+    this.stopped.delete(sessionId);
+    let lastError: Error | undefined;
+    // A model override names one of the primary's models; fallbacks keep their own
+    const fallbackRequest: LlmRequest = request.settings?.model
+      ? { ...request, settings: { ...request.settings, model: undefined } }
+      : request;
+
+    for (const candidate of this.chain.available()) {
+      let produced = false;
+      let settled = false;
+      try {
+        const adapter = await this.chain.adapter(candidate);
+        if (this.stopped.has(sessionId)) return;
+        this.active.set(sessionId, adapter);
+        const primary = candidate.provider === this.chain.primary;
+        this.lastServed = {
+          provider: adapter.id,
+          model: (primary ? request.settings?.model : undefined) ?? adapter.model,
+        };
+
+        for await (const chunk of adapter.generate(sessionId, primary ? request : fallbackRequest)) {
+          produced = true;
+          yield chunk;
+        }
+        if (this.stopped.has(sessionId)) return;
+        settled = true;
+        candidate.breaker.recordSuccess();
+        return;
+      } catch (error) {
+        // Aborted by stop(): the provider didn't fail, so there's nothing to fail over from
+        if (this.stopped.has(sessionId)) return;
+        settled = true;
+        lastError = error as Error;
+        this.chain.fail(sessionId, candidate.provider, lastError);
+        if (produced) throw error;
+      } finally {
+        this.active.delete(sessionId);
+        // Stopped, or the consumer stopped reading early (barge-in, lost the
+        // floor). Text so far counts as a working provider; otherwise the
+        // probe is freed
+        if (!settled) {
+          if (produced) {
+            candidate.breaker.recordSuccess();
+          } else {
+            candidate.breaker.releaseRequest();
+          }
+        }
+      }
+    }
+    throw lastError ?? new Error("No llm provider available");
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    this.stopped.add(sessionId);
+    await this.active.get(sessionId)?.stop(sessionId);
+  }
+}
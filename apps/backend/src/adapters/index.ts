@@ -1,6 +1,9 @@
 export * from "./interfaces";
 export * from "./mock";
 export * from "./factory";
+export * from "./failover";
+export * from "./registry";
+export * from "./pricing";
 export * from "./claude";
 export * from "./openai-compatible";
 export * from "./stt-assemblyai";
@@ -1,22 +1,127 @@
+import type { AgentId, AudioFormat } from "@basil/shared";
+import type { CircuitState, ProviderRole } from "./failover";
+import type { TimedWord } from "./local-agreement";
+
+// What one adapter call consumed, for cost accounting
+export interface Usage {
+  provider: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+  // Characters synthesized
+  characters?: number;
+}
+
+export type UsageCallback = (sessionId: string, usage: Usage) => void;
+
+// Usage as reported by the factory: tagged with its role and priced
+export interface UsageReport extends Usage {
+  role: ProviderRole;
+  speaker?: AgentId;
+  costUsd: number;
+}
+
+// Where a transcript sits in the audio the adapter was sent: seconds from the
+// start of its stream. Words are given when the provider times them.
+export interface TranscriptTiming {
+  start: number;
+  end: number;
+  words?: TimedWord[];
+}
+
+export type TranscriptCallback = (sessionId: string, text: string, isFinal: boolean, timing?: TranscriptTiming) => void;
+
 export interface SttAdapter {
+  // What sendAudio() expects; host audio is converted to it
+  readonly inputFormat: AudioFormat;
   start(sessionId: string): Promise<void>;
   stop(sessionId: string): Promise<void>;
   sendAudio?(sessionId: string, audioChunk: Buffer): void;
+  // The host stopped talking; adapters that hold partial text emit it as final
+  flush?(sessionId: string): Promise<void>;
+}
+
+export interface VoiceConfig {
+  // Google voice name, e.g. "en-US-Neural2-D"
+  voiceName?: string;
+  speakingRate?: number;
+  pitch?: number;
+  // Piper .onnx voice model
+  piperModelPath?: string;
+}
+
+// Identifies which speaker and which utterance a chunk of synthesized audio belongs to
+export interface TtsUtterance {
+  speaker: AgentId;
+  utteranceId: string;
 }
 
 export interface TtsAdapter {
-  synthesize(sessionId: string, text: string): Promise<void>;
+  // What the audio chunk callback delivers
+  readonly outputFormat: AudioFormat;
+  synthesize(sessionId: string, text: string, utteranceId?: string): Promise<void>;
   stop(sessionId: string): Promise<void>;
 }
 
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Sampling settings for one generation; unset fields keep the adapter's defaults
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmRequest {
+  system?: string;
+  messages: LlmMessage[];
+  // Per-turn overrides, e.g. a larger model for one Showrunner segment
+  settings?: GenerationSettings;
+}
+
+export interface ServedBy {
+  provider: string;
+  model?: string;
+}
+
 export interface LlmAdapter {
   readonly id: string;
-  generate(sessionId: string, prompt: string): AsyncIterable<string>;
+  // Default model, used when a request does not name one
+  readonly model?: string;
+  // Provider and model that served the latest reply, for adapters that can
+  // hand a request on to another provider (failover)
+  readonly served?: ServedBy;
+  generate(sessionId: string, request: LlmRequest): AsyncIterable<string>;
   stop(sessionId: string): Promise<void>;
 }
 
+export interface ProviderStatus {
+  role: ProviderRole;
+  provider: string;
+  // Which agent an LLM provider serves
+  speaker?: AgentId;
+  ready: boolean;
+  // Why the provider can't be used
+  reason?: string;
+  circuit: CircuitState;
+}
+
+export interface AdapterStatus {
+  ready: boolean;
+  providers: ProviderStatus[];
+}
+
+// Factories may load provider SDKs lazily, so adapters can arrive asynchronously
+export type Awaitable<T> = T | Promise<T>;
+
 export interface AdapterFactory {
-  stt(): SttAdapter;
-  tts(): TtsAdapter;
-  llm(identifier: "claude" | "guest"): LlmAdapter;
+  stt(): Awaitable<SttAdapter>;
+  tts(speaker: AgentId, voice?: VoiceConfig): Awaitable<TtsAdapter>;
+  llm(identifier: "claude" | "guest"): Awaitable<LlmAdapter>;
+  // Provider readiness; factories without real providers may leave it out
+  status?(): Promise<AdapterStatus>;
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { LocalAgreement, type TimedWord } from "./local-agreement";
+
+// Words spaced half a second apart, starting at `from`
+function hypothesis(text: string, from = 0): TimedWord[] {
+  return text.split(" ").map((word, i) => ({ word: ` ${word}`, start: from + i * 0.5, end: from + i * 0.5 + 0.4 }));
+}
+
+describe("LocalAgreement", () => {
+  it("should commit the prefix two hypotheses agree on", () => {
+    const agreement = new LocalAgreement();
+
+    expect(agreement.insert(hypothesis("Welcome back to the"))).toEqual([]);
+    const committed = agreement.insert(hypothesis("Welcome back to this show"));
+
+    expect(committed.map((word: TimedWord) => word.word.trim())).toEqual(["Welcome", "back", "to"]);
+    expect(agreement.text).toBe("Welcome back to this show");
+    expect(agreement.committedEnd).toBeCloseTo(1.4);
+  });
+
+  it("should keep committed words when a later hypothesis disagrees", () => {
+    const agreement = new LocalAgreement();
+    agreement.insert(hypothesis("Welcome back to"));
+    agreement.insert(hypothesis("Welcome back to"));
+
+    agreement.insert(hypothesis("Well come bag two the show"));
+
+    expect(agreement.text).toMatch(/^Welcome back to /);
+  });
+
+  it("should ignore case and punctuation when comparing words", () => {
+    const agreement = new LocalAgreement();
+    agreement.insert(hypothesis("so what do"));
+
+    expect(agreement.insert(hypothesis("So, what do you")).length).toBe(3);
+  });
+
+  it("should drop words Whisper repeats at the window edge", () => {
+    const agreement = new LocalAgreement();
+    agreement.insert(hypothesis("one two three"));
+    agreement.insert(hypothesis("one two three"));
+
+    // The trimmed window starts inside "three" and hears it again
+    agreement.insert(hypothesis("three four five", 1.35));
+    agreement.insert(hypothesis("three four five", 1.35));
+
+    expect(agreement.text).toBe("one two three four five");
+  });
+
+  it("should finish with the unstable tail and start over", () => {
+    const agreement = new LocalAgreement();
+    agreement.insert(hypothesis("that is a"));
+    agreement.insert(hypothesis("that is a great"));
+
+    expect(agreement.finish(hypothesis("that is a great point"))).toBe("that is a great point");
+    expect(agreement.text).toBe("");
+    expect(agreement.committedEnd).toBe(0);
+  });
+
+  it("should prompt with committed words whose audio has been trimmed", () => {
+    const agreement = new LocalAgreement();
+    agreement.insert(hypothesis("one two three four"));
+    agreement.insert(hypothesis("one two three four"));
+
+    expect(agreement.textBefore(1)).toBe("one two");
+  });
+});
@@ -0,0 +1,104 @@
+// A word from a Whisper hypothesis, timed in seconds from the start of the utterance
+export interface TimedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Words that start this much before the last committed word ends still count as new
+const OVERLAP_TOLERANCE_SECONDS = 0.1;
+
+// Longest run of repeated words looked for where a hypothesis overlaps committed text
+const MAX_REPEAT_WORDS = 5;
+
+/**
+ * Stabilizes streaming Whisper output. Each pass over the sliding window
+ * yields a fresh hypothesis; a word is committed once two consecutive
+ * hypotheses agree on it and everything before it. Committed words never
+ * change, so partials only rewrite their unstable tail.
+ */
+export class LocalAgreement {
+  private committed: TimedWord[] = [];
+  private tentative: TimedWord[] = [];
+
+  /**
+   * Feeds the hypothesis for the current window and returns the words it
+   * committed.
+   */
+  insert(words: TimedWord[]): TimedWord[] {
+    const fresh = this.afterCommitted(words);
+
+    let agreed = 0;
+    while (agreed < fresh.length && agreed < this.tentative.length && sameWord(fresh[agreed], this.tentative[agreed])) {
+      agreed++;
+    }
+
+    const newlyCommitted = fresh.slice(0, agreed);
+    this.committed.push(...newlyCommitted);
+    this.tentative = fresh.slice(agreed);
+    return newlyCommitted;
+  }
+
+  /**
+   * Ends the utterance: the last hypothesis is taken whole, unstable tail
+   * included. Returns the full text and starts over.
+   */
+  finish(words: TimedWord[]): string {
+    const text = join([...this.committed, ...this.afterCommitted(words)]);
+    this.reset();
+    return text;
+  }
+
+  reset(): void {
+    this.committed = [];
+    this.tentative = [];
+  }
+
+  // Committed words followed by the unstable tail
+  get text(): string {
+    return join([...this.committed, ...this.tentative]);
+  }
+
+  // End of the last committed word; audio before it is safe to drop
+  get committedEnd(): number {
+    return this.committed.at(-1)?.end ?? 0;
+  }
+
+  // Committed words whose audio ended before `seconds`, to prompt the next pass
+  textBefore(seconds: number): string {
+    return join(this.committed.filter((word) => word.end <= seconds));
+  }
+
+  // The part of a hypothesis past the committed words
+  private afterCommitted(words: TimedWord[]): TimedWord[] {
+    if (this.committed.length === 0) return words;
+
+    const lastEnd = this.committedEnd;
+    const fresh = words.filter((word) => word.start >= lastEnd - OVERLAP_TOLERANCE_SECONDS);
+
+    // Whisper sometimes repeats the committed words nearest the window edge
+    if (fresh.length > 0 && Math.abs(fresh[0].start - lastEnd) < 1) {
+      const longest = Math.min(MAX_REPEAT_WORDS, this.committed.length, fresh.length);
+      for (let n = longest; n > 0; n--) {
+        const tail = this.committed.slice(-n);
+        if (tail.every((word, i) => sameWord(word, fresh[i]))) {
+          return fresh.slice(n);
+        }
+      }
+    }
+    return fresh;
+  }
+}
+
+function sameWord(a: TimedWord, b: TimedWord): boolean {
+  return normalize(a.word) === normalize(b.word);
+}
+
+// Case and punctuation flip between passes without the word changing
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+function join(words: TimedWord[]): string {
+  return words.map((word) => word.word.trim()).filter(Boolean).join(" ");
+}
@@ -26,19 +26,25 @@ describe("MockAdapterFactory", () => {
 
   describe("TTS Adapter", () => {
     it("should create TTS adapter", () => {
-      const tts = factory.tts();
+      const tts = factory.tts("claude");
       expect(tts).toBeDefined();
       expect(tts.synthesize).toBeInstanceOf(Function);
       expect(tts.stop).toBeInstanceOf(Function);
     });
 
     it("should synthesize text without error", async () => {
-      const tts = factory.tts();
+      const tts = factory.tts("claude");
       await expect(tts.synthesize("session-1", "Hello world")).resolves.not.toThrow();
     });
 
+    it("should create a separate voice per speaker", () => {
+      const claude = factory.tts("claude");
+      const guest = factory.tts("guest");
+      expect(claude).not.toBe(guest);
+    });
+
     it("should stop TTS session without error", async () => {
-      const tts = factory.tts();
+      const tts = factory.tts("claude");
       await expect(tts.stop("session-1")).resolves.not.toThrow();
     });
   });
@@ -60,7 +66,9 @@ describe("MockAdapterFactory", () => {
 
     it("should generate mock response", async () => {
       const llm = factory.llm("claude");
-      const generator = llm.generate("session-1", "Test prompt");
+      const generator = llm.generate("session-1", {
+        messages: [{ role: "user", content: "Test prompt" }],
+      });
       
       const results = [];
       for await (const chunk of generator) {
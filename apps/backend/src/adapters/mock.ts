@@ -1,7 +1,12 @@
 import { setTimeout as delay } from "node:timers/promises";
-import type { AdapterFactory, LlmAdapter, SttAdapter, TtsAdapter } from "./interfaces";
+import type { AgentId, AudioFormat } from "@basil/shared";
+import type { AdapterFactory, LlmAdapter, LlmRequest, SttAdapter, TtsAdapter } from "./interfaces";
+
+const MOCK_FORMAT: AudioFormat = { encoding: "pcm_s16le", sampleRate: 16000, channels: 1 };
 
 class MockStt implements SttAdapter {
+  readonly inputFormat = MOCK_FORMAT;
+
   async start(sessionId: string): Promise<void> {
     console.info(`[mock-stt] starting stream for ${sessionId}`);
   }
@@ -12,8 +17,12 @@ class MockStt implements SttAdapter {
 }
 
 class MockTts implements TtsAdapter {
-  async synthesize(sessionId: string, text: string): Promise<void> {
-    console.info(`[mock-tts] ${sessionId} -> ${text}`);
+  readonly outputFormat = MOCK_FORMAT;
+
+  constructor(readonly speaker: AgentId) {}
+
+  async synthesize(sessionId: string, text: string, _utteranceId?: string): Promise<void> {
+    console.info(`[mock-tts/${this.speaker}] ${sessionId} -> ${text}`);
     await delay(10);
   }
 
@@ -25,7 +34,8 @@ class MockTts implements TtsAdapter {
 class MockLlm implements LlmAdapter {
   constructor(readonly id: string) {}
 
-  async *generate(_sessionId: string, prompt: string): AsyncIterable<string> {
+  async *generate(_sessionId: string, request: LlmRequest): AsyncIterable<string> {
+    const prompt = request.messages[request.messages.length - 1]?.content ?? "";
     yield `mock-response(${this.id}): ${prompt.slice(0, 40)}...`;
   }
 
@@ -39,8 +49,8 @@ export class MockAdapterFactory implements AdapterFactory {
     return new MockStt();
   }
 
-  tts(): TtsAdapter {
-    return new MockTts();
+  tts(speaker: AgentId): TtsAdapter {
+    return new MockTts(speaker);
   }
 
   llm(identifier: "claude" | "guest"): LlmAdapter {
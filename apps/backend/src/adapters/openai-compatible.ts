@@ -1,5 +1,6 @@
 import OpenAI from "openai";
-import type { LlmAdapter } from "./interfaces";
+import type { LlmAdapter, LlmRequest, UsageCallback } from "./interfaces";
+import { withRetry, type RetryCallback, type RetryConfig } from "./retry";
 
 interface OpenAICompatibleConfig {
   apiKey: string;
@@ -7,6 +8,10 @@ interface OpenAICompatibleConfig {
   model: string;
   maxTokens?: number;
   temperature?: number;
+  onUsage?: UsageCallback;
+  // Rate limits and server errors are retried here rather than by the SDK, so they can be reported
+  retry?: RetryConfig;
+  onRetry?: RetryCallback;
 }
 
 export class OpenAICompatibleAdapter implements LlmAdapter {
@@ -25,40 +30,64 @@ export class OpenAICompatibleAdapter implements LlmAdapter {
     this.client = new OpenAI({
       apiKey: this.config.apiKey,
       baseURL: this.config.baseUrl,
+      maxRetries: 0,
     });
   }
 
-  async *generate(sessionId: string, prompt: string): AsyncIterable<string> {
+  get model(): string {
+    return this.config.model;
+  }
+
+  async *generate(sessionId: string, request: LlmRequest): AsyncIterable<string> {
+    const model = request.settings?.model ?? this.config.model;
     const controller = new AbortController();
     this.activeStreams.set(sessionId, controller);
 
     try {
-      const stream = await this.client.chat.completions.create(
-        {
-          model: this.config.model,
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          stream: true,
-        },
-        {
-          signal: controller.signal,
-        }
-      );
+      const { client, config, id } = this;
+      const attempt = async function* () {
+        const stream = await client.chat.completions.create(
+          {
+            model,
+            max_tokens: request.settings?.maxTokens ?? config.maxTokens,
+            temperature: request.settings?.temperature ?? config.temperature,
+            messages: [
+              ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+              ...request.messages,
+            ],
+            stream: true,
+            // Token counts arrive in a final chunk with no choices
+            stream_options: { include_usage: true },
+          },
+          {
+            signal: controller.signal,
+          }
+        );
+
+        for await (const chunk of stream) {
+          if (chunk.usage) {
+            config.onUsage?.(sessionId, {
+              provider: id,
+              model,
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+            });
+          }
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          yield content;
+          const content = chunk.choices[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
         }
-      }
+      };
+
+      yield* withRetry(
+        { sessionId, provider: id, signal: controller.signal, config: config.retry, onRetry: config.onRetry },
+        attempt
+      );
     } catch (error: any) {
-      if (error.name === "AbortError") {
+      // The SDKs throw APIUserAbortError (named "Error") when stopped
+      if (controller.signal.aborted) {
         console.info(`[${this.id}] generation stopped for ${sessionId}`);
       } else {
         console.error(`[${this.id}] error for ${sessionId}:`, error);
@@ -78,27 +107,45 @@ export class OpenAICompatibleAdapter implements LlmAdapter {
   }
 }
 
+// Sampling, usage and retry options the presets pass through
+type PresetOptions = Pick<OpenAICompatibleConfig, "maxTokens" | "temperature" | "onUsage" | "retry" | "onRetry">;
+
 // Preset factory functions for common providers
-export function createGroqAdapter(apiKey: string, model = "llama-3.3-70b-versatile"): OpenAICompatibleAdapter {
+export function createGroqAdapter(
+  apiKey: string,
+  model = "llama-3.3-70b-versatile",
+  options: PresetOptions = {}
+): OpenAICompatibleAdapter {
   return new OpenAICompatibleAdapter("groq", {
     apiKey,
     baseUrl: "https://api.groq.com/openai/v1",
     model,
+    ...options,
   });
 }
 
-export function createTogetherAdapter(apiKey: string, model = "meta-llama/Llama-3-70b-chat-hf"): OpenAICompatibleAdapter {
+export function createTogetherAdapter(
+  apiKey: string,
+  model = "meta-llama/Llama-3-70b-chat-hf",
+  options: PresetOptions = {}
+): OpenAICompatibleAdapter {
   return new OpenAICompatibleAdapter("together", {
     apiKey,
     baseUrl: "https://api.together.xyz/v1",
     model,
+    ...options,
   });
 }
 
-export function createLocalLlamaAdapter(baseUrl = "http://localhost:8080/v1", model = "local-model"): OpenAICompatibleAdapter {
+export function createLocalLlamaAdapter(
+  baseUrl = "http://localhost:8080/v1",
+  model = "local-model",
+  options: PresetOptions = {}
+): OpenAICompatibleAdapter {
   return new OpenAICompatibleAdapter("local", {
     apiKey: "not-needed",
     baseUrl,
     model,
+    ...options,
   });
 }
@@ -0,0 +1,36 @@
+import type { Usage } from "./interfaces";
+
+// USD rates. Token and character rates are per million.
+export interface Rates {
+  inputTokens?: number;
+  outputTokens?: number;
+  audioMinutes?: number;
+  characters?: number;
+}
+
+export interface ProviderPricing extends Rates {
+  // Per-model rates, matched by the longest model id prefix
+  models?: Record<string, Rates>;
+}
+
+export function ratesFor(pricing: ProviderPricing, model?: string): Rates {
+  const match = Object.keys(pricing.models ?? {})
+    .filter((prefix) => model?.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing.models![match] : pricing;
+}
+
+/**
+ * Cost of one usage report. Providers without pricing (local models) are free.
+ */
+export function usageCost(pricing: ProviderPricing | undefined, usage: Usage): number {
+  if (!pricing) return 0;
+
+  const rates = ratesFor(pricing, usage.model);
+  return (
+    ((usage.inputTokens ?? 0) * (rates.inputTokens ?? 0)) / 1_000_000 +
+    ((usage.outputTokens ?? 0) * (rates.outputTokens ?? 0)) / 1_000_000 +
+    ((usage.audioSeconds ?? 0) / 60) * (rates.audioMinutes ?? 0) +
+    ((usage.characters ?? 0) * (rates.characters ?? 0)) / 1_000_000
+  );
+}
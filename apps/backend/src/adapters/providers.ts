@@ -0,0 +1,174 @@
+import type { LlmCreateOptions, ProviderDefinition, SttCreateOptions, TtsCreateOptions } from "./registry";
+import { ClaudeAdapter } from "./claude";
+import {
+  OpenAICompatibleAdapter,
+  createGroqAdapter,
+  createTogetherAdapter,
+  createLocalLlamaAdapter,
+} from "./openai-compatible";
+
+// Provider SDKs are optional dependencies, loaded on first use
+const loadAssemblyAI = () => import("./stt-assemblyai");
+const loadGoogleStt = () => import("./stt-google");
+const loadWhisperStt = () => import("./stt-whisper");
+const loadGoogleTts = () => import("./tts-google");
+const loadPiperTts = () => import("./tts-piper");
+
+// Google Cloud credentials are read by the SDK from GOOGLE_APPLICATION_CREDENTIALS
+export const BUILT_IN_PROVIDERS: ProviderDefinition[] = [
+  {
+    role: "stt",
+    id: "assemblyai",
+    label: "AssemblyAI STT",
+    requiredKeys: ["ASSEMBLYAI_API_KEY"],
+    load: loadAssemblyAI,
+    pricing: { audioMinutes: 0.006 },
+    async create({ setting, onTranscript, onError, onUsage }: SttCreateOptions) {
+      const { AssemblyAISttAdapter } = await loadAssemblyAI();
+      return new AssemblyAISttAdapter({ apiKey: setting("ASSEMBLYAI_API_KEY")!, onTranscript, onError, onUsage });
+    },
+  },
+  {
+    role: "stt",
+    id: "google",
+    label: "Google STT",
+    load: loadGoogleStt,
+    pricing: { audioMinutes: 0.024 },
+    async create({ onTranscript, onError, onUsage }: SttCreateOptions) {
+      const { GoogleSttAdapter } = await loadGoogleStt();
+      return new GoogleSttAdapter({ onTranscript, onError, onUsage });
+    },
+  },
+  {
+    role: "stt",
+    id: "whisper",
+    label: "Whisper STT",
+    load: loadWhisperStt,
+    async create({ setting, onTranscript, onError, onUsage }: SttCreateOptions) {
+      const { WhisperSttAdapter } = await loadWhisperStt();
+      const stepMs = Number(setting("WHISPER_STEP_MS"));
+      return new WhisperSttAdapter({
+        mode: setting("WHISPER_MODE") === "batch" ? "batch" : "stream",
+        endpoint: setting("WHISPER_ENDPOINT") ?? "http://localhost:8001/transcribe",
+        streamEndpoint: setting("WHISPER_STREAM_ENDPOINT") ?? "ws://localhost:8001/stream",
+        stepMs: stepMs > 0 ? stepMs : undefined,
+        onTranscript,
+        onError,
+        onUsage,
+      });
+    },
+  },
+  {
+    role: "tts",
+    id: "google",
+    label: "Google TTS",
+    load: loadGoogleTts,
+    // Neural2 voices
+    pricing: { characters: 16 },
+    async create({ speaker, voice, onAudioChunk, onComplete, onError, onUsage }: TtsCreateOptions) {
+      const { createClaudeVoice, createGuestVoice } = await loadGoogleTts();
+      const createVoice = speaker === "claude" ? createClaudeVoice : createGuestVoice;
+      return createVoice({
+        voiceName: voice.voiceName,
+        speakingRate: voice.speakingRate,
+        pitch: voice.pitch,
+        onAudioChunk,
+        onComplete,
+        onError,
+        onUsage,
+      });
+    },
+  },
+  {
+    role: "tts",
+    id: "piper",
+    label: "Piper TTS",
+    load: loadPiperTts,
+    async create({ setting, speaker, voice, onAudioChunk, onComplete, onError, onUsage }: TtsCreateOptions) {
+      const { createClaudePiperVoice, createGuestPiperVoice } = await loadPiperTts();
+      const createVoice = speaker === "claude" ? createClaudePiperVoice : createGuestPiperVoice;
+      return createVoice({
+        piperPath: setting("PIPER_PATH") ?? "piper",
+        // PIPER_MODEL_PATH predates per-speaker voices and applies to Claude
+        modelPath: voice.piperModelPath
+          ?? (speaker === "claude" ? setting("PIPER_MODEL_PATH") : undefined),
+        speakingRate: voice.speakingRate,
+        onAudioChunk,
+        onComplete,
+        onError,
+        onUsage,
+      });
+    },
+  },
+  {
+    role: "llm",
+    id: "claude",
+    label: "Claude",
+    requiredKeys: ["ANTHROPIC_API_KEY"],
+    pricing: {
+      inputTokens: 1,
+      outputTokens: 5,
+      models: {
+        "claude-3-5-haiku": { inputTokens: 0.8, outputTokens: 4 },
+        "claude-3-5-sonnet": { inputTokens: 3, outputTokens: 15 },
+        "claude-sonnet-4": { inputTokens: 3, outputTokens: 15 },
+      },
+    },
+    create: ({ setting, generation, onUsage, retry, onRetry }: LlmCreateOptions) =>
+      new ClaudeAdapter({ apiKey: setting("ANTHROPIC_API_KEY")!, ...generation, onUsage, retry, onRetry }),
+  },
+  {
+    role: "llm",
+    id: "groq",
+    label: "Groq",
+    requiredKeys: ["GROQ_API_KEY"],
+    pricing: {
+      inputTokens: 0.59,
+      outputTokens: 0.79,
+      models: { "llama-3.1-8b-instant": { inputTokens: 0.05, outputTokens: 0.08 } },
+    },
+    create: ({ setting, generation: { model, ...sampling }, onUsage, retry, onRetry }: LlmCreateOptions) =>
+      createGroqAdapter(setting("GROQ_API_KEY")!, model, { ...sampling, onUsage, retry, onRetry }),
+  },
+  {
+    role: "llm",
+    id: "together",
+    label: "Together",
+    requiredKeys: ["TOGETHER_API_KEY"],
+    pricing: { inputTokens: 0.88, outputTokens: 0.88 },
+    create: ({ setting, generation: { model, ...sampling }, onUsage, retry, onRetry }: LlmCreateOptions) =>
+      createTogetherAdapter(setting("TOGETHER_API_KEY")!, model, { ...sampling, onUsage, retry, onRetry }),
+  },
+  {
+    role: "llm",
+    id: "local",
+    label: "Local Llama",
+    create: ({ setting, generation: { model, ...sampling }, onUsage, retry, onRetry }: LlmCreateOptions) =>
+      createLocalLlamaAdapter(setting("LOCAL_LLAMA_ENDPOINT") ?? "http://localhost:8080/v1", model, {
+        ...sampling,
+        onUsage,
+        retry,
+        onRetry,
+      }),
+  },
+  {
+    role: "llm",
+    id: "openai",
+    label: "OpenAI",
+    requiredKeys: ["OPENAI_API_KEY"],
+    pricing: {
+      inputTokens: 0.15,
+      outputTokens: 0.6,
+      models: { "gpt-4o": { inputTokens: 2.5, outputTokens: 10 }, "gpt-4o-mini": { inputTokens: 0.15, outputTokens: 0.6 } },
+    },
+    create: ({ setting, generation, onUsage, retry, onRetry }: LlmCreateOptions) =>
+      new OpenAICompatibleAdapter("openai", {
+        apiKey: setting("OPENAI_API_KEY")!,
+        ...generation,
+        model: generation.model ?? "gpt-4o-mini",
+        onUsage,
+        retry,
+        onRetry,
+      }),
+  },
+];
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ProviderRegistry,
+  listFromEnv,
+  loadProviderPlugins,
+  providerChain,
+  providerRegistry,
+  type SttProviderDefinition,
+} from "./registry";
+import { RealAdapterFactory } from "./factory";
+import type { SttAdapter } from "./interfaces";
+
+function fakeStt(id = "deepgram"): SttProviderDefinition & { adapter: SttAdapter } {
+  const adapter: SttAdapter = { start: vi.fn().mockResolvedValue(undefined), stop: vi.fn().mockResolvedValue(undefined) };
+  return {
+    role: "stt",
+    id,
+    label: "Deepgram STT",
+    requiredKeys: ["DEEPGRAM_API_KEY"],
+    adapter,
+    create: vi.fn(() => adapter),
+  };
+}
+
+describe("ProviderRegistry", () => {
+  it("should register the built-in providers", () => {
+    expect(providerRegistry.ids("stt")).toEqual(["assemblyai", "google", "whisper"]);
+    expect(providerRegistry.ids("tts")).toEqual(["google", "piper"]);
+    expect(providerRegistry.ids("llm")).toEqual(["claude", "groq", "together", "local", "openai"]);
+  });
+
+  it("should reject a provider registered twice", () => {
+    const registry = new ProviderRegistry([fakeStt()]);
+
+    expect(() => registry.register(fakeStt())).toThrow("Provider stt:deepgram is already registered");
+  });
+
+  it("should list the available providers for an unknown id", () => {
+    const registry = new ProviderRegistry([fakeStt()]);
+
+    expect(registry.get("tts", "deepgram")).toBeUndefined();
+    expect(() => registry.require("stt", "speechmatics")).toThrow(
+      "Unknown STT provider: speechmatics (available: deepgram)"
+    );
+  });
+
+  it("should report missing required keys", () => {
+    const registry = new ProviderRegistry();
+    const definition = fakeStt();
+
+    expect(registry.missingKeys(definition, () => undefined)).toEqual(["DEEPGRAM_API_KEY"]);
+    expect(registry.missingKeys(definition, () => "key")).toEqual([]);
+  });
+
+  it("should let the factory create registered plugin providers", async () => {
+    const definition = fakeStt();
+    const registry = new ProviderRegistry([definition]);
+    const factory = new RealAdapterFactory({
+      sttProvider: "deepgram",
+      sttFallbacks: [],
+      registry,
+      settings: { DEEPGRAM_API_KEY: "dg-key" },
+    });
+
+    await expect(factory.stt()).resolves.toBe(definition.adapter);
+    expect(definition.create).toHaveBeenCalledWith(expect.objectContaining({ setting: expect.any(Function) }));
+    const { setting } = (definition.create as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(setting("DEEPGRAM_API_KEY")).toBe("dg-key");
+  });
+});
+
+describe("loadProviderPlugins", () => {
+  it("should register the definitions a plugin module exports", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "provider-plugin-"));
+    const plugin = join(dir, "echo.mjs");
+    await writeFile(
+      plugin,
+      `export default [
+        { role: "tts", id: "echo", label: "Echo TTS", create: () => ({}) },
+        { role: "llm", id: "echo", label: "Echo LLM", create: () => ({}) },
+      ];`
+    );
+    const registry = new ProviderRegistry();
+
+    try {
+      await loadProviderPlugins([plugin], registry);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    expect(registry.get("tts", "echo")?.label).toBe("Echo TTS");
+    expect(registry.get("llm", "echo")?.label).toBe("Echo LLM");
+  });
+});
+
+describe("provider chains", () => {
+  it("should read a fallback list and drop repeats of the primary", () => {
+    vi.stubEnv("TEST_FALLBACKS", " whisper, google ,,");
+
+    expect(providerChain("google", listFromEnv("TEST_FALLBACKS"))).toEqual(["google", "whisper"]);
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,173 @@
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { AgentId } from "@basil/shared";
+import type { ProviderRole } from "./failover";
+import type {
+  GenerationSettings,
+  LlmAdapter,
+  SttAdapter,
+  TranscriptCallback,
+  TtsAdapter,
+  UsageCallback,
+  VoiceConfig,
+} from "./interfaces";
+import type { ProviderPricing } from "./pricing";
+import type { RetryCallback, RetryConfig } from "./retry";
+import { BUILT_IN_PROVIDERS } from "./providers";
+
+// Reads a provider setting (API key, endpoint, ...) by its env var name
+export type SettingReader = (key: string) => string | undefined;
+
+// Settings from a record such as process.env; empty values count as unset
+export function settingReader(settings: Record<string, string | undefined> = process.env): SettingReader {
+  return (key) => settings[key] || undefined;
+}
+
+// Comma-separated list setting, such as STT_FALLBACKS=whisper,google
+export function listFromEnv(key: string): string[] {
+  return (process.env[key] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+// Primary provider followed by its fallbacks, without repeats
+export function providerChain(primary: string, fallbacks: string[] = []): string[] {
+  return [...new Set([primary, ...fallbacks])];
+}
+
+interface BaseCreateOptions {
+  setting: SettingReader;
+  // Adapters report tokens, audio seconds and characters here
+  onUsage?: UsageCallback;
+}
+
+export interface SttCreateOptions extends BaseCreateOptions {
+  onTranscript?: TranscriptCallback;
+  onError?: (sessionId: string, error: Error) => void;
+}
+
+export interface TtsCreateOptions extends BaseCreateOptions {
+  speaker: AgentId;
+  voice: VoiceConfig;
+  onAudioChunk: (sessionId: string, chunk: Buffer, utteranceId: string) => void;
+  onComplete: (sessionId: string, utteranceId: string) => void;
+  onError: (sessionId: string, error: Error, utteranceId: string) => void;
+}
+
+export interface LlmCreateOptions extends BaseCreateOptions {
+  speaker: AgentId;
+  // The speaker's configured model and sampling settings; unset fields are absent
+  generation: GenerationSettings;
+  // Backoff for rate limits and overloads, and where to report each retry
+  retry?: RetryConfig;
+  onRetry?: RetryCallback;
+}
+
+interface BaseProviderDefinition {
+  id: string;
+  // Human-readable name for logs and errors, e.g. "AssemblyAI STT"
+  label: string;
+  // Env vars that must be set for the provider to work
+  requiredKeys?: string[];
+  // Loads the provider's SDK; a rejection means it isn't installed
+  load?: () => Promise<unknown>;
+  // Without pricing the provider counts as free
+  pricing?: ProviderPricing;
+}
+
+export interface SttProviderDefinition extends BaseProviderDefinition {
+  role: "stt";
+  create(options: SttCreateOptions): SttAdapter | Promise<SttAdapter>;
+}
+
+export interface TtsProviderDefinition extends BaseProviderDefinition {
+  role: "tts";
+  create(options: TtsCreateOptions): TtsAdapter | Promise<TtsAdapter>;
+}
+
+export interface LlmProviderDefinition extends BaseProviderDefinition {
+  role: "llm";
+  create(options: LlmCreateOptions): LlmAdapter | Promise<LlmAdapter>;
+}
+
+export type ProviderDefinition = SttProviderDefinition | TtsProviderDefinition | LlmProviderDefinition;
+
+type DefinitionFor<R extends ProviderRole> = Extract<ProviderDefinition, { role: R }>;
+
+/**
+ * Known STT/TTS/LLM providers. The factory and config validation look
+ * providers up here, so a new provider only needs to be registered, either
+ * in code or as a plugin module listed in PROVIDER_PLUGINS.
+ */
+export class ProviderRegistry {
+  private definitions = new Map<string, ProviderDefinition>();
+
+  constructor(definitions: ProviderDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  register(definition: ProviderDefinition): void {
+    const key = `${definition.role}:${definition.id}`;
+    if (this.definitions.has(key)) {
+      throw new Error(`Provider ${key} is already registered`);
+    }
+    this.definitions.set(key, definition);
+  }
+
+  get<R extends ProviderRole>(role: R, id: string): DefinitionFor<R> | undefined {
+    return this.definitions.get(`${role}:${id}`) as DefinitionFor<R> | undefined;
+  }
+
+  /**
+   * Like get(), but throws for unknown providers.
+   */
+  require<R extends ProviderRole>(role: R, id: string): DefinitionFor<R> {
+    const definition = this.get(role, id);
+    if (!definition) {
+      throw new Error(`Unknown ${role.toUpperCase()} provider: ${id} (available: ${this.ids(role).join(", ")})`);
+    }
+    return definition;
+  }
+
+  ids(role: ProviderRole): string[] {
+    return [...this.definitions.values()].filter((d) => d.role === role).map((d) => d.id);
+  }
+
+  /**
+   * Required env vars of a provider that `setting` doesn't have.
+   */
+  missingKeys(definition: ProviderDefinition, setting: SettingReader): string[] {
+    return (definition.requiredKeys ?? []).filter((key) => !setting(key));
+  }
+}
+
+// Built-in providers plus any registered plugins
+export const providerRegistry = new ProviderRegistry(BUILT_IN_PROVIDERS);
+
+export function registerProvider(definition: ProviderDefinition): void {
+  providerRegistry.register(definition);
+}
+
+/**
+ * Imports plugin modules (paths relative to the working directory, or package
+ * names). A plugin either calls registerProvider() itself or default-exports
+ * one definition or an array of them.
+ */
+export async function loadProviderPlugins(
+  specifiers: string[],
+  registry: ProviderRegistry = providerRegistry
+): Promise<void> {
+  for (const specifier of specifiers) {
+    const local = specifier.startsWith(".") || isAbsolute(specifier);
+    const module = await import(local ? pathToFileURL(resolve(specifier)).href : specifier);
+
+    const exported = module.default;
+    const definitions: ProviderDefinition[] = Array.isArray(exported) ? exported : exported ? [exported] : [];
+    definitions.forEach((definition) => registry.register(definition));
+    console.info(
+      `[registry] loaded plugin ${specifier}` +
+        (definitions.length ? `: ${definitions.map((d) => `${d.role}:${d.id}`).join(", ")}` : "")
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import { isRetriable, retryDelayMs, withRetry } from "./retry";
+
+function apiError(status: number | undefined, headers: Record<string, string> = {}, error?: object) {
+  return Object.assign(new Error(`status ${status}`), { status, headers, error });
+}
+
+// Yields `chunks` on the last call; every earlier call throws the next of `errors`
+function attempts(errors: Error[], chunks: string[]) {
+  let call = 0;
+  return vi.fn(async function* () {
+    const error = errors[call++];
+    if (error) throw error;
+    yield* chunks;
+  });
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+const options = (config = {}) => ({
+  sessionId: "session-1",
+  provider: "claude",
+  signal: new AbortController().signal,
+  config: { baseDelayMs: 1, ...config },
+});
+
+describe("isRetriable", () => {
+  it("should retry rate limits, overloads and server errors", () => {
+    expect(isRetriable(apiError(429))).toBe(true);
+    expect(isRetriable(apiError(529))).toBe(true);
+    expect(isRetriable(apiError(503))).toBe(true);
+    expect(isRetriable(apiError(undefined, {}, { type: "error", error: { type: "overloaded_error" } }))).toBe(true);
+  });
+
+  it("should treat client errors and aborts as fatal", () => {
+    expect(isRetriable(apiError(400))).toBe(false);
+    expect(isRetriable(apiError(401))).toBe(false);
+    expect(isRetriable(apiError(404))).toBe(false);
+    expect(isRetriable(Object.assign(new Error("aborted"), { name: "AbortError" }))).toBe(false);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("should honor retry-after, unless it is past the maximum delay", () => {
+    expect(retryDelayMs(apiError(429, { "retry-after": "2" }), 0)).toBe(2000);
+    expect(retryDelayMs(apiError(429, { "retry-after-ms": "250" }), 0)).toBe(250);
+    expect(retryDelayMs(apiError(429, { "retry-after": "60" }), 0, { maxDelayMs: 5000 })).toBeUndefined();
+  });
+
+  it("should back off exponentially with jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+
+    expect(retryDelayMs(apiError(529), 0, { baseDelayMs: 100 })).toBe(100);
+    expect(retryDelayMs(apiError(529), 3, { baseDelayMs: 100 })).toBe(800);
+    expect(retryDelayMs(apiError(529), 10, { baseDelayMs: 100, maxDelayMs: 1000 })).toBe(1000);
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry retriable errors and report each retry", async () => {
+    const attempt = attempts([apiError(429), apiError(529)], ["Hello", " there"]);
+    const onRetry = vi.fn();
+
+    await expect(collect(withRetry({ ...options(), onRetry }, attempt))).resolves.toBe("Hello there");
+    expect(attempt).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(
+      "session-1",
+      expect.objectContaining({ provider: "claude", attempt: 2, maxRetries: 3, status: 529 })
+    );
+  });
+
+  it("should give up after the last retry", async () => {
+    const attempt = attempts([apiError(429), apiError(429)], ["never"]);
+
+    await expect(collect(withRetry(options({ maxRetries: 1 }), attempt))).rejects.toThrow("status 429");
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up when the provider asks to wait longer than the maximum delay", async () => {
+    const attempt = attempts([apiError(429, { "retry-after": "30" })], ["never"]);
+    const onRetry = vi.fn();
+
+    await expect(collect(withRetry({ ...options({ maxDelayMs: 8000 }), onRetry }, attempt))).rejects.toThrow("status 429");
+    expect(attempt).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it("should not retry fatal errors", async () => {
+    const attempt = attempts([apiError(401)], ["never"]);
+
+    await expect(collect(withRetry(options(), attempt))).rejects.toThrow("status 401");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not restart a reply that already streamed text", async () => {
+    const attempt = vi.fn(async function* () {
+      yield "Half a";
+      throw apiError(529);
+    });
+
+    await expect(collect(withRetry(options(), attempt))).rejects.toThrow("status 529");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("should end quietly when stopped while backing off", async () => {
+    const controller = new AbortController();
+    const attempt = attempts([apiError(429, { "retry-after": "5" })], ["never"]);
+    const stream = collect(withRetry({ ...options(), signal: controller.signal }, attempt));
+
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(stream).resolves.toBe("");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
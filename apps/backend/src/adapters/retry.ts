@@ -0,0 +1,165 @@
+import { withoutUndefined } from "./util";
+
+export interface RetryConfig {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries?: number;
+  // First backoff delay, doubled on every retry
+  baseDelayMs?: number;
+  // Cap on any single delay. A provider asking (retry-after) for a longer
+  // wait isn't retried at all
+  maxDelayMs?: number;
+}
+
+export interface RetryEvent {
+  provider: string;
+  // 1 for the first retry
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  // HTTP status of the failed attempt; absent for connection errors
+  status?: number;
+  error: string;
+}
+
+export type RetryCallback = (sessionId: string, event: RetryEvent) => void;
+
+interface RetryOptions {
+  sessionId: string;
+  provider: string;
+  // Aborting cancels a pending backoff as well as the attempt
+  signal: AbortSignal;
+  config?: RetryConfig;
+  onRetry?: RetryCallback;
+}
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Timeouts, conflicts, rate limits and server errors (including Anthropic's 529 "overloaded")
+const RETRIABLE_STATUSES = new Set([408, 409, 429]);
+
+// Error types Anthropic sends mid-stream, where there is no HTTP status
+const RETRIABLE_STREAM_ERRORS = new Set(["overloaded_error", "rate_limit_error", "api_error"]);
+
+/**
+ * Whether an SDK error is worth another attempt. Bad requests, auth failures
+ * and unknown models are fatal.
+ */
+export function isRetriable(error: any): boolean {
+  if (!error || error.name === "AbortError") return false;
+
+  const status: number | undefined = error.status;
+  if (status !== undefined) {
+    return RETRIABLE_STATUSES.has(status) || status >= 500;
+  }
+
+  const streamError = error.error?.error?.type ?? error.error?.type;
+  if (streamError) {
+    return RETRIABLE_STREAM_ERRORS.has(streamError);
+  }
+
+  // Dropped connections and timeouts (APIConnectionError, ECONNRESET, ...)
+  return /Connection|Timeout/.test(error.constructor?.name ?? "") || ["ECONNRESET", "ETIMEDOUT"].includes(error.code);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): what the provider asked for
+ * in retry-after-ms or retry-after, otherwise exponential backoff with full
+ * jitter. Undefined when the provider asked for longer than `maxDelayMs`:
+ * retrying sooner would only be refused again.
+ */
+export function retryDelayMs(error: any, attempt: number, config: RetryConfig = {}): number | undefined {
+  const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...withoutUndefined(config) };
+
+  const requested = retryAfterMs(error?.headers);
+  if (requested !== undefined) {
+    return requested <= maxDelayMs ? requested : undefined;
+  }
+
+  const ceiling = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Streams from `attempt`, starting it again after a retriable error. Only an
+ * attempt that failed before yielding anything is retried; a reply that has
+ * started can't be restarted without repeating itself.
+ */
+export async function* withRetry<T>(options: RetryOptions, attempt: () => AsyncIterable<T>): AsyncIterable<T> {
+  const { maxRetries } = { ...DEFAULT_RETRY, ...withoutUndefined(options.config ?? {}) };
+
+  for (let retry = 0; ; retry++) {
+    let produced = false;
+    try {
+      for await (const item of attempt()) {
+        produced = true;
+        yield item;
+      }
+      return;
+    } catch (error: any) {
+      if (produced || retry >= maxRetries || options.signal.aborted || !isRetriable(error)) {
+        throw error;
+      }
+
+      const delayMs = retryDelayMs(error, retry, options.config);
+      if (delayMs === undefined) {
+        // Give up now and let failover try another provider
+        console.warn(`[${options.provider}] ${error.message ?? error}; retry-after is past the maximum delay, giving up`);
+        throw error;
+      }
+      console.warn(
+        `[${options.provider}] ${error.message ?? error}; retrying in ${delayMs}ms (${retry + 1}/${maxRetries})`
+      );
+      options.onRetry?.(options.sessionId, {
+        provider: options.provider,
+        attempt: retry + 1,
+        maxRetries,
+        delayMs,
+        status: error.status,
+        error: String(error.message ?? error),
+      });
+
+      await sleep(delayMs, options.signal);
+      // Stopped while backing off: end quietly, as a stopped stream does
+      if (options.signal.aborted) return;
+    }
+  }
+}
+
+// Headers are a plain record in the Anthropic and OpenAI SDKs, a Headers instance elsewhere
+function retryAfterMs(headers: any): number | undefined {
+  if (!headers) return undefined;
+  const header = (name: string): string | undefined =>
+    (typeof headers.get === "function" ? headers.get(name) : headers[name]) ?? undefined;
+
+  const millis = Number(header("retry-after-ms"));
+  if (header("retry-after-ms") && Number.isFinite(millis) && millis >= 0) {
+    return millis;
+  }
+
+  const value = header("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  // HTTP date
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
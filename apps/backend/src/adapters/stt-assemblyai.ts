@@ -1,22 +1,28 @@
 import { RealtimeTranscriber } from "assemblyai";
-import type { SttAdapter } from "./interfaces";
+import type { AudioFormat } from "@basil/shared";
+import type { SttAdapter, TranscriptCallback, UsageCallback } from "./interfaces";
 
 interface AssemblyAIConfig {
   apiKey: string;
   sampleRate?: number;
-  onTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  onTranscript?: TranscriptCallback;
   onError?: (sessionId: string, error: Error) => void;
+  onUsage?: UsageCallback;
 }
 
 export class AssemblyAISttAdapter implements SttAdapter {
+  readonly inputFormat: AudioFormat;
   private config: AssemblyAIConfig;
   private transcribers = new Map<string, RealtimeTranscriber>();
+  // Audio bytes streamed since usage was last reported
+  private unreported = new Map<string, number>();
 
   constructor(config: AssemblyAIConfig) {
     this.config = {
       sampleRate: 16000,
       ...config,
     };
+    this.inputFormat = { encoding: "pcm_s16le", sampleRate: this.config.sampleRate!, channels: 1 };
   }
 
   async start(sessionId: string): Promise<void> {
@@ -35,13 +41,20 @@ export class AssemblyAISttAdapter implements SttAdapter {
     });
 
     transcriber.on("transcript", (transcript) => {
+      const isFinal = transcript.message_type === "FinalTranscript";
       if (transcript.text && transcript.text.length > 0) {
-        this.config.onTranscript?.(
-          sessionId,
-          transcript.text,
-          transcript.message_type === "FinalTranscript"
-        );
+        // Times are milliseconds since the session's audio began
+        this.config.onTranscript?.(sessionId, transcript.text, isFinal, {
+          start: transcript.audio_start / 1000,
+          end: transcript.audio_end / 1000,
+          words: transcript.words?.map((word: { text: string; start: number; end: number }) => ({
+            word: word.text,
+            start: word.start / 1000,
+            end: word.end / 1000,
+          })),
+        });
       }
+      if (isFinal) this.reportUsage(sessionId);
     });
 
     transcriber.on("error", (error: Error) => {
@@ -64,12 +77,24 @@ export class AssemblyAISttAdapter implements SttAdapter {
       await transcriber.close();
       this.transcribers.delete(sessionId);
     }
+    this.reportUsage(sessionId);
+    this.unreported.delete(sessionId);
   }
 
   sendAudio(sessionId: string, audioChunk: Buffer): void {
     const transcriber = this.transcribers.get(sessionId);
     if (transcriber) {
       transcriber.sendAudio(audioChunk);
+      this.unreported.set(sessionId, (this.unreported.get(sessionId) ?? 0) + audioChunk.length);
     }
   }
+
+  // Streaming is billed by audio duration; audio is 16-bit mono PCM
+  private reportUsage(sessionId: string): void {
+    const bytes = this.unreported.get(sessionId);
+    if (!bytes) return;
+
+    this.unreported.set(sessionId, 0);
+    this.config.onUsage?.(sessionId, { provider: "assemblyai", audioSeconds: bytes / (this.config.sampleRate! * 2) });
+  }
 }
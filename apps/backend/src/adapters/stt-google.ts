@@ -1,18 +1,23 @@
 import speech from "@google-cloud/speech";
-import type { SttAdapter } from "./interfaces";
+import type { AudioFormat } from "@basil/shared";
+import type { SttAdapter, TranscriptCallback, TranscriptTiming, UsageCallback } from "./interfaces";
 
 interface GoogleSttConfig {
   languageCode?: string;
   sampleRateHertz?: number;
   encoding?: string;
-  onTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  onTranscript?: TranscriptCallback;
   onError?: (sessionId: string, error: Error) => void;
+  onUsage?: UsageCallback;
 }
 
 export class GoogleSttAdapter implements SttAdapter {
+  readonly inputFormat: AudioFormat;
   private client: speech.SpeechClient;
   private config: GoogleSttConfig;
   private streams = new Map<string, any>();
+  // Audio bytes streamed since usage was last reported
+  private unreported = new Map<string, number>();
 
   constructor(config: GoogleSttConfig = {}) {
     this.config = {
@@ -21,6 +26,7 @@ export class GoogleSttAdapter implements SttAdapter {
       encoding: "LINEAR16",
       ...config,
     };
+    this.inputFormat = { encoding: "pcm_s16le", sampleRate: this.config.sampleRateHertz!, channels: 1 };
     this.client = new speech.SpeechClient();
   }
 
@@ -35,6 +41,7 @@ export class GoogleSttAdapter implements SttAdapter {
         encoding: this.config.encoding as any,
         sampleRateHertz: this.config.sampleRateHertz,
         languageCode: this.config.languageCode,
+        enableWordTimeOffsets: true,
       },
       interimResults: true,
     };
@@ -50,7 +57,8 @@ export class GoogleSttAdapter implements SttAdapter {
         if (result && result.alternatives[0]) {
           const transcript = result.alternatives[0].transcript;
           const isFinal = result.isFinal;
-          this.config.onTranscript?.(sessionId, transcript, isFinal);
+          this.config.onTranscript?.(sessionId, transcript, isFinal, wordTiming(result.alternatives[0].words));
+          if (isFinal) this.reportUsage(sessionId);
         }
       });
 
@@ -65,12 +73,33 @@ export class GoogleSttAdapter implements SttAdapter {
       this.streams.delete(sessionId);
       console.info(`[google-stt] session ${sessionId} stopped`);
     }
+    this.reportUsage(sessionId);
+    this.unreported.delete(sessionId);
   }
 
   sendAudio(sessionId: string, audioChunk: Buffer): void {
     const stream = this.streams.get(sessionId);
     if (stream) {
       stream.write(audioChunk);
+      this.unreported.set(sessionId, (this.unreported.get(sessionId) ?? 0) + audioChunk.length);
     }
   }
+
+  // Streaming is billed by audio duration; audio is 16-bit mono PCM
+  private reportUsage(sessionId: string): void {
+    const bytes = this.unreported.get(sessionId);
+    if (!bytes) return;
+
+    this.unreported.set(sessionId, 0);
+    this.config.onUsage?.(sessionId, { provider: "google", audioSeconds: bytes / (this.config.sampleRateHertz! * 2) });
+  }
+}
+
+// Word offsets come only with finals, as protobuf Durations from the stream start
+function wordTiming(words?: { word: string; startTime?: any; endTime?: any }[]): TranscriptTiming | undefined {
+  if (!words || words.length === 0) return undefined;
+
+  const seconds = (duration: any) => Number(duration?.seconds ?? 0) + (duration?.nanos ?? 0) / 1e9;
+  const timed = words.map((word) => ({ word: word.word, start: seconds(word.startTime), end: seconds(word.endTime) }));
+  return { start: timed[0].start, end: timed[timed.length - 1].end, words: timed };
 }
@@ -1,31 +1,94 @@
-import type { SttAdapter } from "./interfaces";
+import type WebSocket from "ws";
+import type { AudioFormat } from "@basil/shared";
+import type { SttAdapter, TranscriptCallback, TranscriptTiming, UsageCallback } from "./interfaces";
+import { LocalAgreement, type TimedWord } from "./local-agreement";
+
+export type WhisperMode = "stream" | "batch";
 
 interface WhisperConfig {
+  // "stream" re-transcribes a sliding window over WebSocket; "batch" posts fixed chunks
+  mode?: WhisperMode;
+  // Batch mode: POST /transcribe
   endpoint?: string;
+  // Streaming mode: WebSocket /stream
+  streamEndpoint?: string;
   model?: string;
-  onTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  // Of the 16-bit mono PCM sent to the service
+  sampleRate?: number;
+  // Streaming mode: how often the window is re-transcribed
+  stepMs?: number;
+  // Streaming mode: window length past which committed audio is trimmed
+  maxWindowSeconds?: number;
+  // Streaming mode: audio kept before the trim point so words at the edge aren't cut
+  overlapSeconds?: number;
+  onTranscript?: TranscriptCallback;
   onError?: (sessionId: string, error: Error) => void;
+  onUsage?: UsageCallback;
+}
+
+interface StreamResult {
+  type: "result" | "error";
+  id: number;
+  words?: TimedWord[];
+  message?: string;
+}
+
+interface StreamSession {
+  socket: WebSocket;
+  agreement: LocalAgreement;
+  timer: NodeJS.Timeout;
+  // Audio held by the service, in seconds
+  windowSeconds: number;
+  // Audio trimmed from the front of the window since the utterance began
+  trimmedSeconds: number;
+  // Where the current utterance began in the audio sent this session
+  utteranceStart: number;
+  // Audio sent since the last pass, and since the last usage report
+  unheardSeconds: number;
+  unbilledSeconds: number;
+  // Passes run one at a time, in order
+  queue: Promise<void>;
+  nextId: number;
+  pending: Map<number, { resolve: (words: TimedWord[]) => void; reject: (error: Error) => void }>;
+  stopping: boolean;
 }
 
+// Shortest window worth transcribing
+const MIN_WINDOW_SECONDS = 0.5;
+
 /**
- * Adapter for local faster-whisper service.
- * Requires a separate faster-whisper HTTP service running (e.g., Python FastAPI server).
- * 
- * Expected endpoint: POST /transcribe with audio chunks
- * Response: { text: string, is_final: boolean }
+ * Adapter for the local faster-whisper service (services/whisper-server.py).
+ *
+ * Streaming mode sends audio over WebSocket /stream and re-transcribes a
+ * sliding window every step. Partials are stabilized with local agreement;
+ * the final transcript is emitted when the VAD hears silence (flush).
+ *
+ * Batch mode posts whatever accumulated every 2 seconds to POST /transcribe
+ * and treats each response as final.
  */
 export class WhisperSttAdapter implements SttAdapter {
+  readonly inputFormat: AudioFormat;
   private config: WhisperConfig;
   private activeSessions = new Set<string>();
   private audioBuffers = new Map<string, Buffer[]>();
   private processingIntervals = new Map<string, NodeJS.Timeout>();
+  private streams = new Map<string, StreamSession>();
+  // Batch mode: audio already posted this session, in seconds
+  private batchSeconds = new Map<string, number>();
 
   constructor(config: WhisperConfig = {}) {
     this.config = {
+      mode: "stream",
       endpoint: "http://localhost:8001/transcribe",
+      streamEndpoint: "ws://localhost:8001/stream",
       model: "base",
+      sampleRate: 16000,
+      stepMs: 1000,
+      maxWindowSeconds: 15,
+      overlapSeconds: 1,
       ...config,
     };
+    this.inputFormat = { encoding: "pcm_s16le", sampleRate: this.config.sampleRate!, channels: 1 };
   }
 
   async start(sessionId: string): Promise<void> {
@@ -34,21 +97,35 @@ export class WhisperSttAdapter implements SttAdapter {
       return;
     }
 
-    this.activeSessions.add(sessionId);
-    this.audioBuffers.set(sessionId, []);
+    if (this.config.mode === "stream") {
+      await this.openStream(sessionId);
+    } else {
+      this.audioBuffers.set(sessionId, []);
 
-    // Process audio chunks every 2 seconds
-    const interval = setInterval(() => {
-      this.processAudioBuffer(sessionId);
-    }, 2000);
+      // Process audio chunks every 2 seconds
+      const interval = setInterval(() => {
+        this.processAudioBuffer(sessionId);
+      }, 2000);
+      this.processingIntervals.set(sessionId, interval);
+    }
 
-    this.processingIntervals.set(sessionId, interval);
-    console.info(`[whisper-stt] session ${sessionId} started`);
+    this.activeSessions.add(sessionId);
+    console.info(`[whisper-stt] session ${sessionId} started (${this.config.mode})`);
   }
 
   async stop(sessionId: string): Promise<void> {
     this.activeSessions.delete(sessionId);
-    
+
+    const stream = this.streams.get(sessionId);
+    if (stream) {
+      // Whatever the host said last still gets its final
+      await this.flush(sessionId);
+      stream.stopping = true;
+      clearInterval(stream.timer);
+      stream.socket.close();
+      this.streams.delete(sessionId);
+    }
+
     const interval = this.processingIntervals.get(sessionId);
     if (interval) {
       clearInterval(interval);
@@ -58,17 +135,204 @@ export class WhisperSttAdapter implements SttAdapter {
     // Process any remaining audio
     await this.processAudioBuffer(sessionId);
     this.audioBuffers.delete(sessionId);
-    
+    this.batchSeconds.delete(sessionId);
+
     console.info(`[whisper-stt] session ${sessionId} stopped`);
   }
 
   sendAudio(sessionId: string, audioChunk: Buffer): void {
+    const stream = this.streams.get(sessionId);
+    if (stream) {
+      if (stream.socket.readyState !== stream.socket.OPEN) return;
+      stream.socket.send(audioChunk);
+      const seconds = audioChunk.length / (this.config.sampleRate! * 2);
+      stream.windowSeconds += seconds;
+      stream.unheardSeconds += seconds;
+      stream.unbilledSeconds += seconds;
+      return;
+    }
+
     const buffer = this.audioBuffers.get(sessionId);
     if (buffer) {
       buffer.push(audioChunk);
     }
   }
 
+  /**
+   * The host stopped talking: transcribe what's left of the utterance and
+   * emit it as final.
+   */
+  async flush(sessionId: string): Promise<void> {
+    const stream = this.streams.get(sessionId);
+    if (!stream) {
+      await this.processAudioBuffer(sessionId);
+      return;
+    }
+    await this.enqueue(sessionId, stream, () => this.finishUtterance(sessionId, stream));
+  }
+
+  private async openStream(sessionId: string): Promise<void> {
+    // Loaded on first use, like the provider SDKs, so batch mode doesn't need it
+    const { default: WebSocketClient } = await import("ws");
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocketClient(this.config.streamEndpoint!);
+      const stream: StreamSession = {
+        socket,
+        agreement: new LocalAgreement(),
+        timer: setInterval(() => {
+          if (stream.unheardSeconds > 0 && stream.windowSeconds >= MIN_WINDOW_SECONDS) {
+            void this.enqueue(sessionId, stream, () => this.transcribeWindow(sessionId, stream));
+          }
+        }, this.config.stepMs),
+        windowSeconds: 0,
+        trimmedSeconds: 0,
+        utteranceStart: 0,
+        unheardSeconds: 0,
+        unbilledSeconds: 0,
+        queue: Promise.resolve(),
+        nextId: 0,
+        pending: new Map(),
+        stopping: false,
+      };
+
+      socket.once("open", () => {
+        this.streams.set(sessionId, stream);
+        resolve();
+      });
+
+      socket.on("message", (data: WebSocket.RawData) => {
+        let result: StreamResult;
+        try {
+          result = JSON.parse(data.toString()) as StreamResult;
+        } catch (error) {
+          // A throw here would escape the listener and take the process down
+          console.error(`[whisper-stt] unreadable message for ${sessionId}:`, error);
+          this.config.onError?.(sessionId, error as Error);
+          return;
+        }
+        const pending = stream.pending.get(result.id);
+        if (!pending) return;
+        stream.pending.delete(result.id);
+        if (result.type === "error") {
+          pending.reject(new Error(`whisper stream: ${result.message}`));
+        } else {
+          pending.resolve(result.words ?? []);
+        }
+      });
+
+      socket.on("error", (error: Error) => {
+        if (!this.streams.has(sessionId)) {
+          clearInterval(stream.timer);
+          reject(error);
+        }
+      });
+
+      socket.on("close", () => {
+        clearInterval(stream.timer);
+        for (const pending of stream.pending.values()) {
+          pending.reject(new Error("whisper stream closed"));
+        }
+        stream.pending.clear();
+        if (!stream.stopping && this.streams.get(sessionId) === stream) {
+          this.streams.delete(sessionId);
+          this.activeSessions.delete(sessionId);
+          this.config.onError?.(sessionId, new Error("whisper stream closed unexpectedly"));
+        }
+      });
+    });
+  }
+
+  // Runs passes one at a time; a failed pass is reported and the next one still runs
+  private enqueue(sessionId: string, stream: StreamSession, pass: () => Promise<void>): Promise<void> {
+    stream.queue = stream.queue.then(pass).catch((error: Error) => {
+      if (stream.stopping) return;
+      console.error(`[whisper-stt] error for ${sessionId}:`, error);
+      this.config.onError?.(sessionId, error);
+    });
+    return stream.queue;
+  }
+
+  // One pass over the window: update the partial, then trim committed audio
+  private async transcribeWindow(sessionId: string, stream: StreamSession): Promise<void> {
+    if (stream.unheardSeconds === 0) return;
+    stream.unheardSeconds = 0;
+
+    const words = await this.request(stream, { prompt: stream.agreement.textBefore(stream.trimmedSeconds) });
+    stream.agreement.insert(words.map((word) => this.inUtterance(stream, word)));
+
+    const partial = stream.agreement.text;
+    if (partial) {
+      this.config.onTranscript?.(sessionId, partial, false);
+    }
+
+    // Keep the window bounded, cutting only audio whose words are committed
+    if (stream.windowSeconds > this.config.maxWindowSeconds!) {
+      const cut = stream.agreement.committedEnd - this.config.overlapSeconds! - stream.trimmedSeconds;
+      if (cut > 0) {
+        stream.socket.send(JSON.stringify({ type: "trim", seconds: cut }));
+        stream.windowSeconds -= cut;
+        stream.trimmedSeconds += cut;
+      }
+    }
+  }
+
+  // Last pass of an utterance; the service drops the audio it covered
+  private async finishUtterance(sessionId: string, stream: StreamSession): Promise<void> {
+    const covered = stream.windowSeconds;
+    stream.unheardSeconds = 0;
+
+    const words = covered > 0
+      ? await this.request(stream, { prompt: stream.agreement.textBefore(stream.trimmedSeconds), final: true })
+      : [];
+    const timed = words.map((word) => this.inUtterance(stream, word));
+    const text = stream.agreement.finish(timed);
+    const timing = this.inSession(stream, timed);
+
+    // Audio that arrived during the pass opens the next utterance
+    stream.utteranceStart += stream.trimmedSeconds + covered;
+    stream.windowSeconds -= covered;
+    stream.trimmedSeconds = 0;
+
+    if (stream.unbilledSeconds > 0) {
+      this.config.onUsage?.(sessionId, {
+        provider: "whisper",
+        model: this.config.model,
+        audioSeconds: stream.unbilledSeconds,
+      });
+      stream.unbilledSeconds = 0;
+    }
+
+    if (text) {
+      this.config.onTranscript?.(sessionId, text, true, timing);
+    }
+  }
+
+  private request(stream: StreamSession, command: { prompt: string; final?: boolean }): Promise<TimedWord[]> {
+    const id = stream.nextId++;
+    return new Promise((resolve, reject) => {
+      stream.pending.set(id, { resolve, reject });
+      stream.socket.send(JSON.stringify({ type: "transcribe", id, ...command }));
+    });
+  }
+
+  // Window times are relative to the audio the service still holds
+  private inUtterance(stream: StreamSession, word: TimedWord): TimedWord {
+    return { ...word, start: word.start + stream.trimmedSeconds, end: word.end + stream.trimmedSeconds };
+  }
+
+  // The final's words, timed from the start of the session's audio
+  private inSession(stream: StreamSession, words: TimedWord[]): TranscriptTiming | undefined {
+    if (words.length === 0) return undefined;
+    const offset = (word: TimedWord) => ({
+      ...word,
+      start: word.start + stream.utteranceStart,
+      end: word.end + stream.utteranceStart,
+    });
+    const timed = words.map(offset);
+    return { start: timed[0].start, end: timed[timed.length - 1].end, words: timed };
+  }
+
   private async processAudioBuffer(sessionId: string): Promise<void> {
     const chunks = this.audioBuffers.get(sessionId);
     if (!chunks || chunks.length === 0) {
@@ -77,6 +341,9 @@ export class WhisperSttAdapter implements SttAdapter {
 
     const audioData = Buffer.concat(chunks);
     this.audioBuffers.set(sessionId, []); // Clear buffer
+    const audioSeconds = audioData.length / (this.config.sampleRate! * 2);
+    const start = this.batchSeconds.get(sessionId) ?? 0;
+    this.batchSeconds.set(sessionId, start + audioSeconds);
 
     try {
       const response = await fetch(this.config.endpoint!, {
@@ -92,9 +359,18 @@ export class WhisperSttAdapter implements SttAdapter {
       }
 
       const result = await response.json() as { text: string; is_final?: boolean };
-      
+      this.config.onUsage?.(sessionId, {
+        provider: "whisper",
+        model: this.config.model,
+        audioSeconds,
+      });
+
       if (result.text && result.text.trim().length > 0) {
-        this.config.onTranscript?.(sessionId, result.text, result.is_final ?? true);
+        // Batches aren't word-timed; the caption spans the batch
+        this.config.onTranscript?.(sessionId, result.text, result.is_final ?? true, {
+          start,
+          end: start + audioSeconds,
+        });
       }
     } catch (error) {
       console.error(`[whisper-stt] error for ${sessionId}:`, error);
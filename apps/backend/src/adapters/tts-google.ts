@@ -1,17 +1,23 @@
+import { randomUUID } from "node:crypto";
 import textToSpeech from "@google-cloud/text-to-speech";
-import type { TtsAdapter } from "./interfaces";
+import type { AudioFormat } from "@basil/shared";
+import type { TtsAdapter, UsageCallback } from "./interfaces";
+import { withoutUndefined } from "./util";
 
-interface GoogleTtsConfig {
+export interface GoogleTtsConfig {
   languageCode?: string;
   voiceName?: string;
   speakingRate?: number;
   pitch?: number;
-  onAudioChunk?: (sessionId: string, audioChunk: Buffer) => void;
-  onComplete?: (sessionId: string) => void;
-  onError?: (sessionId: string, error: Error) => void;
+  sampleRate?: number;
+  onAudioChunk?: (sessionId: string, audioChunk: Buffer, utteranceId: string) => void;
+  onComplete?: (sessionId: string, utteranceId: string) => void;
+  onError?: (sessionId: string, error: Error, utteranceId: string) => void;
+  onUsage?: UsageCallback;
 }
 
 export class GoogleTtsAdapter implements TtsAdapter {
+  readonly outputFormat: AudioFormat;
   private client: textToSpeech.TextToSpeechClient;
   private config: GoogleTtsConfig;
   private activeSessions = new Set<string>();
@@ -22,12 +28,15 @@ export class GoogleTtsAdapter implements TtsAdapter {
       voiceName: "en-US-Neural2-J", // Male voice
       speakingRate: 1.0,
       pitch: 0.0,
+      sampleRate: 48000,
       ...config,
     };
+    // LINEAR16 audio content comes with a WAV header
+    this.outputFormat = { encoding: "wav", sampleRate: this.config.sampleRate!, channels: 1 };
     this.client = new textToSpeech.TextToSpeechClient();
   }
 
-  async synthesize(sessionId: string, text: string): Promise<void> {
+  async synthesize(sessionId: string, text: string, utteranceId: string = randomUUID()): Promise<void> {
     if (this.activeSessions.has(sessionId)) {
       console.warn(`[google-tts] session ${sessionId} already synthesizing`);
       return;
@@ -46,11 +55,13 @@ export class GoogleTtsAdapter implements TtsAdapter {
           audioEncoding: "LINEAR16" as const,
           speakingRate: this.config.speakingRate,
           pitch: this.config.pitch,
-          sampleRateHertz: 48000,
+          sampleRateHertz: this.config.sampleRate,
         },
       };
 
       const [response] = await this.client.synthesizeSpeech(request);
+      // Billed per character requested, whether or not playback finishes
+      this.config.onUsage?.(sessionId, { provider: "google", model: this.config.voiceName, characters: text.length });
 
       if (response.audioContent) {
         const audioBuffer = Buffer.from(response.audioContent as Uint8Array);
@@ -58,18 +69,24 @@ export class GoogleTtsAdapter implements TtsAdapter {
         // Send audio in chunks to simulate streaming
         const chunkSize = 4096;
         for (let i = 0; i < audioBuffer.length; i += chunkSize) {
+          // stop() removes the session; abandon the rest of the utterance
+          if (!this.activeSessions.has(sessionId)) {
+            console.info(`[google-tts] utterance ${utteranceId} stopped early`);
+            return;
+          }
+
           const chunk = audioBuffer.slice(i, i + chunkSize);
-          this.config.onAudioChunk?.(sessionId, chunk);
+          this.config.onAudioChunk?.(sessionId, chunk, utteranceId);
           
           // Small delay to simulate streaming
           await new Promise(resolve => setTimeout(resolve, 10));
         }
 
-        this.config.onComplete?.(sessionId);
+        this.config.onComplete?.(sessionId, utteranceId);
       }
     } catch (error) {
       console.error(`[google-tts] error for ${sessionId}:`, error);
-      this.config.onError?.(sessionId, error as Error);
+      this.config.onError?.(sessionId, error as Error, utteranceId);
     } finally {
       this.activeSessions.delete(sessionId);
     }
@@ -81,19 +98,21 @@ export class GoogleTtsAdapter implements TtsAdapter {
   }
 }
 
-// Voice presets for different speakers
-export function createClaudeVoice(): GoogleTtsAdapter {
+// Voice presets for different speakers; overrides come from env or the briefing
+export function createClaudeVoice(overrides: GoogleTtsConfig = {}): GoogleTtsAdapter {
   return new GoogleTtsAdapter({
     voiceName: "en-US-Neural2-D", // Warm, professional male voice
     speakingRate: 1.05,
     pitch: -1.0,
+    ...withoutUndefined(overrides),
   });
 }
 
-export function createGuestVoice(): GoogleTtsAdapter {
+export function createGuestVoice(overrides: GoogleTtsConfig = {}): GoogleTtsAdapter {
   return new GoogleTtsAdapter({
     voiceName: "en-US-Neural2-A", // Clear, engaging male voice
     speakingRate: 1.0,
     pitch: 0.5,
+    ...withoutUndefined(overrides),
   });
 }
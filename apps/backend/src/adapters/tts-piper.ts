@@ -1,13 +1,19 @@
-import { spawn } from "node:child_process";
-import type { TtsAdapter } from "./interfaces";
+import { spawn, type ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { AudioFormat } from "@basil/shared";
+import type { TtsAdapter, UsageCallback } from "./interfaces";
 
-interface PiperConfig {
+export interface PiperConfig {
   piperPath?: string;
   modelPath?: string;
   speakingRate?: number;
-  onAudioChunk?: (sessionId: string, audioChunk: Buffer) => void;
-  onComplete?: (sessionId: string) => void;
-  onError?: (sessionId: string, error: Error) => void;
+  // Of the raw output; defaults to the rate in the voice's .onnx.json
+  sampleRate?: number;
+  onAudioChunk?: (sessionId: string, audioChunk: Buffer, utteranceId: string) => void;
+  onComplete?: (sessionId: string, utteranceId: string) => void;
+  onError?: (sessionId: string, error: Error, utteranceId: string) => void;
+  onUsage?: UsageCallback;
 }
 
 /**
@@ -18,8 +24,10 @@ interface PiperConfig {
  * Download models from: https://github.com/rhasspy/piper/releases
  */
 export class PiperTtsAdapter implements TtsAdapter {
+  readonly outputFormat: AudioFormat;
   private config: PiperConfig;
   private activeSessions = new Set<string>();
+  private processes = new Map<string, ChildProcess>();
 
   constructor(config: PiperConfig = {}) {
     this.config = {
@@ -28,9 +36,11 @@ export class PiperTtsAdapter implements TtsAdapter {
       speakingRate: 1.0,
       ...config,
     };
+    const sampleRate = this.config.sampleRate ?? voiceSampleRate(this.config.modelPath!) ?? 22050;
+    this.outputFormat = { encoding: "pcm_s16le", sampleRate, channels: 1 };
   }
 
-  async synthesize(sessionId: string, text: string): Promise<void> {
+  async synthesize(sessionId: string, text: string, utteranceId: string = randomUUID()): Promise<void> {
     if (this.activeSessions.has(sessionId)) {
       console.warn(`[piper-tts] session ${sessionId} already synthesizing`);
       return;
@@ -39,10 +49,11 @@ export class PiperTtsAdapter implements TtsAdapter {
     this.activeSessions.add(sessionId);
 
     try {
-      await this.runPiper(sessionId, text);
+      await this.runPiper(sessionId, text, utteranceId);
+      this.config.onUsage?.(sessionId, { provider: "piper", characters: text.length });
     } catch (error) {
       console.error(`[piper-tts] error for ${sessionId}:`, error);
-      this.config.onError?.(sessionId, error as Error);
+      this.config.onError?.(sessionId, error as Error, utteranceId);
     } finally {
       this.activeSessions.delete(sessionId);
     }
@@ -50,10 +61,16 @@ export class PiperTtsAdapter implements TtsAdapter {
 
   async stop(sessionId: string): Promise<void> {
     this.activeSessions.delete(sessionId);
+
+    const piper = this.processes.get(sessionId);
+    if (piper) {
+      piper.kill();
+      this.processes.delete(sessionId);
+    }
     console.info(`[piper-tts] stopped ${sessionId}`);
   }
 
-  private async runPiper(sessionId: string, text: string): Promise<void> {
+  private async runPiper(sessionId: string, text: string, utteranceId: string): Promise<void> {
     return new Promise((resolve, reject) => {
       const args = [
         "--model", this.config.modelPath!,
@@ -62,11 +79,12 @@ export class PiperTtsAdapter implements TtsAdapter {
       ];
 
       const piper = spawn(this.config.piperPath!, args);
+      this.processes.set(sessionId, piper);
       const audioChunks: Buffer[] = [];
 
       piper.stdout.on("data", (chunk: Buffer) => {
         audioChunks.push(chunk);
-        this.config.onAudioChunk?.(sessionId, chunk);
+        this.config.onAudioChunk?.(sessionId, chunk, utteranceId);
       });
 
       piper.stderr.on("data", (data: Buffer) => {
@@ -77,9 +95,14 @@ export class PiperTtsAdapter implements TtsAdapter {
         reject(error);
       });
 
-      piper.on("close", (code: number) => {
-        if (code === 0) {
-          this.config.onComplete?.(sessionId);
+      piper.on("close", (code: number | null) => {
+        this.processes.delete(sessionId);
+
+        // Killed by stop(); not an error
+        if (code === null) {
+          resolve();
+        } else if (code === 0) {
+          this.config.onComplete?.(sessionId, utteranceId);
           resolve();
         } else {
           reject(new Error(`Piper exited with code ${code}`));
@@ -93,17 +116,29 @@ export class PiperTtsAdapter implements TtsAdapter {
   }
 }
 
+// Piper voices ship with a config next to the model that names their sample rate
+function voiceSampleRate(modelPath: string): number | undefined {
+  try {
+    const voice = JSON.parse(readFileSync(`${modelPath}.json`, "utf-8"));
+    return voice.audio?.sample_rate;
+  } catch {
+    return undefined;
+  }
+}
+
 // Voice presets for different speakers using different models
-export function createClaudePiperVoice(modelPath?: string): PiperTtsAdapter {
+export function createClaudePiperVoice(config: PiperConfig = {}): PiperTtsAdapter {
   return new PiperTtsAdapter({
-    modelPath: modelPath || "./models/en_US-lessac-medium.onnx",
-    speakingRate: 1.05,
+    ...config,
+    modelPath: config.modelPath || "./models/en_US-lessac-medium.onnx",
+    speakingRate: config.speakingRate ?? 1.05,
   });
 }
 
-export function createGuestPiperVoice(modelPath?: string): PiperTtsAdapter {
+export function createGuestPiperVoice(config: PiperConfig = {}): PiperTtsAdapter {
   return new PiperTtsAdapter({
-    modelPath: modelPath || "./models/en_US-libritts-high.onnx",
-    speakingRate: 1.0,
+    ...config,
+    modelPath: config.modelPath || "./models/en_US-libritts-high.onnx",
+    speakingRate: config.speakingRate ?? 1.0,
   });
 }
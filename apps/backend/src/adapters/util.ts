@@ -0,0 +1,6 @@
+// Drops unset fields so spreading a config over defaults keeps the defaults
+export function withoutUndefined<T extends object>(config: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
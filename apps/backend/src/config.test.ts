@@ -1,5 +1,6 @@
-import { describe, it, expect } from "vitest";
-import { appConfig, validateConfig } from "./config";
+import { describe, it, expect, vi } from "vitest";
+import { appConfig, validateConfig, type AppConfig } from "./config";
+import { ProviderRegistry, providerRegistry } from "./adapters/registry";
 
 describe("Configuration System", () => {
   it("should use default values when env vars not set", () => {
@@ -84,4 +85,51 @@ describe("Configuration System", () => {
     expect(typeof appConfig.recordingDir).toBe("string");
     expect(typeof appConfig.briefingsDir).toBe("string");
   });
+
+  describe("provider validation", () => {
+    const config = (overrides: Partial<AppConfig>): AppConfig => ({
+      ...appConfig,
+      useRealAdapters: true,
+      sttProvider: "whisper",
+      ttsProvider: "piper",
+      guestProvider: "local",
+      sttFallbacks: [],
+      ttsFallbacks: [],
+      guestFallbacks: [],
+      ...overrides,
+    });
+    const keys = (settings: Record<string, string>) => (key: string) => settings[key];
+
+    it("should accept providers registered by plugins", () => {
+      const registry = new ProviderRegistry([
+        ...["claude", "local"].map((id) => providerRegistry.require("llm", id)),
+        providerRegistry.require("tts", "piper"),
+        { role: "stt", id: "deepgram", label: "Deepgram STT", requiredKeys: ["DEEPGRAM_API_KEY"], create: vi.fn() },
+      ]);
+      const settings = keys({ ANTHROPIC_API_KEY: "key", DEEPGRAM_API_KEY: "key" });
+
+      expect(() => validateConfig(config({ sttProvider: "deepgram" }), registry, settings)).not.toThrow();
+      expect(() => validateConfig(config({ sttProvider: "deepgram" }), registry, keys({ ANTHROPIC_API_KEY: "key" }))).toThrow(
+        "Invalid configuration"
+      );
+    });
+
+    it("should reject unknown provider ids", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(() => validateConfig(config({ ttsProvider: "polly" }), providerRegistry, keys({ ANTHROPIC_API_KEY: "key" }))).toThrow();
+      expect(error).toHaveBeenCalledWith('  - Unknown TTS provider "polly" (available: google, piper)');
+      error.mockRestore();
+    });
+
+    it("should only warn about fallbacks missing their keys", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      expect(() =>
+        validateConfig(config({ guestFallbacks: ["groq"] }), providerRegistry, keys({ ANTHROPIC_API_KEY: "key" }))
+      ).not.toThrow();
+      expect(warn).toHaveBeenCalledWith("[config] GROQ_API_KEY is required for Groq (fallback)");
+      warn.mockRestore();
+    });
+  });
 });
@@ -1,9 +1,17 @@
 import { config as loadEnv } from "dotenv";
+import {
+  listFromEnv,
+  providerChain,
+  providerRegistry,
+  settingReader,
+  type ProviderRegistry,
+  type SettingReader,
+} from "./adapters/registry.js";
 
 // Load environment variables
 loadEnv();
 
-interface AppConfig {
+export interface AppConfig {
   // Server
   port: number;
   corsOrigin: string[];
@@ -12,10 +20,15 @@ interface AppConfig {
   // Features
   useRealAdapters: boolean;
   
-  // Adapters
-  sttProvider: "assemblyai" | "google" | "whisper";
-  ttsProvider: "google" | "piper";
-  guestProvider: "groq" | "together" | "local" | "openai";
+  // Adapters (ids from the provider registry)
+  sttProvider: string;
+  ttsProvider: string;
+  guestProvider: string;
+  sttFallbacks: string[];
+  ttsFallbacks: string[];
+  guestFallbacks: string[];
+  // Modules that register extra providers (PROVIDER_PLUGINS=./plugins/deepgram.js,...)
+  providerPlugins: string[];
 
   // API Keys
   anthropicApiKey?: string;
@@ -33,7 +46,8 @@ interface AppConfig {
   piperPath: string;
   piperModelPath?: string;
 
-  // Guest Model
+  // Models (CLAUDE_TEMPERATURE, GUEST_MAX_TOKENS, ... are read by the adapter factory)
+  claudeModel?: string;
   guestModel?: string;
 
   // Recording
@@ -63,9 +77,13 @@ export const appConfig: AppConfig = {
   useRealAdapters: process.env.USE_REAL_ADAPTERS === "true",
 
   // Adapters
-  sttProvider: (process.env.STT_PROVIDER as any) || "assemblyai",
-  ttsProvider: (process.env.TTS_PROVIDER as any) || "google",
-  guestProvider: (process.env.GUEST_PROVIDER as any) || "groq",
+  sttProvider: process.env.STT_PROVIDER || "assemblyai",
+  ttsProvider: process.env.TTS_PROVIDER || "google",
+  guestProvider: process.env.GUEST_PROVIDER || "groq",
+  sttFallbacks: listFromEnv("STT_FALLBACKS"),
+  ttsFallbacks: listFromEnv("TTS_FALLBACKS"),
+  guestFallbacks: listFromEnv("GUEST_FALLBACKS"),
+  providerPlugins: listFromEnv("PROVIDER_PLUGINS"),
 
   // API Keys
   anthropicApiKey: getOptionalEnv("ANTHROPIC_API_KEY"),
@@ -83,7 +101,8 @@ export const appConfig: AppConfig = {
   piperPath: process.env.PIPER_PATH || "piper",
   piperModelPath: getOptionalEnv("PIPER_MODEL_PATH"),
 
-  // Guest Model
+  // Models
+  claudeModel: getOptionalEnv("CLAUDE_MODEL"),
   guestModel: getOptionalEnv("GUEST_MODEL"),
 
   // Recording
@@ -91,31 +110,45 @@ export const appConfig: AppConfig = {
   briefingsDir: process.env.BRIEFINGS_DIR || "./briefings",
 };
 
-export function validateConfig(): void {
+/**
+ * Checks every configured provider against the registry: unknown ids and
+ * primaries missing a required key are errors, fallbacks missing a key only
+ * warn since the chain can still run without them.
+ */
+export function validateConfig(
+  config: AppConfig = appConfig,
+  registry: ProviderRegistry = providerRegistry,
+  setting: SettingReader = settingReader()
+): void {
   const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (config.useRealAdapters) {
+    const check = (role: "stt" | "tts" | "llm", ids: string[], purpose: string) => {
+      ids.forEach((id, index) => {
+        const definition = registry.get(role, id);
+        if (!definition) {
+          errors.push(`Unknown ${purpose} provider "${id}" (available: ${registry.ids(role).join(", ")})`);
+          return;
+        }
+        const missing = registry.missingKeys(definition, setting);
+        if (missing.length > 0) {
+          const message = `${missing.join(", ")} is required for ${definition.label}`;
+          if (index === 0) errors.push(message);
+          else warnings.push(`${message} (fallback)`);
+        }
+      });
+    };
 
-  // Validate based on providers
-  if (appConfig.useRealAdapters) {
     // Claude is always required
-    if (!appConfig.anthropicApiKey) {
-      errors.push("ANTHROPIC_API_KEY is required when using real adapters");
-    }
-
-    // STT validation
-    if (appConfig.sttProvider === "assemblyai" && !appConfig.assemblyaiApiKey) {
-      errors.push("ASSEMBLYAI_API_KEY is required for AssemblyAI STT");
-    }
-
-    // Guest LLM validation
-    if (appConfig.guestProvider === "groq" && !appConfig.groqApiKey) {
-      errors.push("GROQ_API_KEY is required for Groq guest LLM");
-    } else if (appConfig.guestProvider === "together" && !appConfig.togetherApiKey) {
-      errors.push("TOGETHER_API_KEY is required for Together.ai guest LLM");
-    } else if (appConfig.guestProvider === "openai" && !appConfig.openaiApiKey) {
-      errors.push("OPENAI_API_KEY is required for OpenAI guest LLM");
-    }
+    check("llm", ["claude"], "Claude");
+    check("stt", providerChain(config.sttProvider, config.sttFallbacks), "STT");
+    check("tts", providerChain(config.ttsProvider, config.ttsFallbacks), "TTS");
+    check("llm", providerChain(config.guestProvider, config.guestFallbacks), "guest");
   }
 
+  warnings.forEach((warning) => console.warn(`[config] ${warning}`));
+
   if (errors.length > 0) {
     console.error("Configuration validation failed:");
     errors.forEach(error => console.error(`  - ${error}`));
@@ -133,12 +166,18 @@ export function printConfig(): void {
   console.info(`Use Real Adapters: ${appConfig.useRealAdapters}`);
   
   if (appConfig.useRealAdapters) {
-    console.info(`STT Provider:      ${appConfig.sttProvider}`);
-    console.info(`TTS Provider:      ${appConfig.ttsProvider}`);
-    console.info(`Guest Provider:    ${appConfig.guestProvider}`);
+    console.info(`STT Provider:      ${providerChain(appConfig.sttProvider, appConfig.sttFallbacks).join(" → ")}`);
+    console.info(`TTS Provider:      ${providerChain(appConfig.ttsProvider, appConfig.ttsFallbacks).join(" → ")}`);
+    console.info(`Guest Provider:    ${providerChain(appConfig.guestProvider, appConfig.guestFallbacks).join(" → ")}`);
+    if (appConfig.claudeModel) {
+      console.info(`Claude Model:      ${appConfig.claudeModel}`);
+    }
     if (appConfig.guestModel) {
       console.info(`Guest Model:       ${appConfig.guestModel}`);
     }
+    console.info(`Registered:        stt: ${providerRegistry.ids("stt").join(", ")}`);
+    console.info(`                   tts: ${providerRegistry.ids("tts").join(", ")}`);
+    console.info(`                   llm: ${providerRegistry.ids("llm").join(", ")}`);
   }
   
   console.info(`Recording Dir:     ${appConfig.recordingDir}`);
@@ -0,0 +1,25 @@
+/**
+ * Rebuilds an episode's captions and transcripts from its events.jsonl,
+ * e.g. after a crash or a change to the transcript formats:
+ *
+ *   pnpm --filter basil-backend transcript recordings/<episode-id>
+ */
+import { join } from "node:path";
+import { readEventLog, writeTranscripts } from "./services/transcript.js";
+
+async function main(): Promise<void> {
+  const episodeDir = process.argv[2];
+  if (!episodeDir) {
+    console.error("Usage: transcript <episode-dir>");
+    process.exit(1);
+  }
+
+  const { entries, info } = await readEventLog(join(episodeDir, "events.jsonl"));
+  const files = await writeTranscripts(episodeDir, entries, info);
+  console.info(`[transcript] wrote ${entries.length} captions to ${episodeDir}: ${files.join(", ")}`);
+}
+
+main().catch((error) => {
+  console.error("Transcript export failed:", error);
+  process.exit(1);
+});
@@ -5,15 +5,18 @@ import { Server } from "socket.io";
 import { ProductionOrchestrator } from "./orchestrator-v2.js";
 import type { ClientToServerEvents, ServerToClientEvents } from "@basil/shared";
 import { appConfig, validateConfig, printConfig } from "./config.js";
+import { loadProviderPlugins } from "./adapters/registry.js";
 
-// Validate configuration on startup
-try {
-  validateConfig();
-  printConfig();
-} catch (error) {
-  console.error("Fatal configuration error:", error);
-  process.exit(1);
-}
+// Validate configuration on startup, once plugins have registered their providers
+const configured = loadProviderPlugins(appConfig.providerPlugins)
+  .then(() => {
+    validateConfig();
+    printConfig();
+  })
+  .catch((error) => {
+    console.error("Fatal configuration error:", error);
+    process.exit(1);
+  });
 
 const app = express();
 app.use(cors({
@@ -22,24 +25,44 @@ app.use(cors({
 }));
 app.use(express.json());
 
-// Health check endpoint
-app.get("/health", (_req, res) => {
-  res.json({
-    status: "ok",
-    timestamp: new Date().toISOString(),
-    version: "1.0.0",
-    adapters: {
-      enabled: appConfig.useRealAdapters,
-      stt: appConfig.sttProvider,
-      tts: appConfig.ttsProvider,
-      guest: appConfig.guestProvider,
-    },
-  });
+// Health check endpoint; "degraded" when a role has no usable provider
+app.get("/health", async (_req, res) => {
+  try {
+    const adapters = await orchestrator.adapterStatus();
+    res.json({
+      status: adapters.ready ? "ok" : "degraded",
+      timestamp: new Date().toISOString(),
+      version: "1.0.0",
+      adapters: {
+        enabled: appConfig.useRealAdapters,
+        stt: appConfig.sttProvider,
+        tts: appConfig.ttsProvider,
+        guest: appConfig.guestProvider,
+        ready: adapters.ready,
+        providers: adapters.providers,
+      },
+    });
+  } catch (error) {
+    // Express 4 doesn't catch rejected handlers; answer rather than hang the probe
+    console.error("[server] health check failed:", error);
+    res.status(503).json({ status: "error", error: (error as Error).message });
+  }
 });
 
 // Ready check endpoint
-app.get("/ready", (_req, res) => {
-  res.json({ status: "ready" });
+app.get("/ready", async (_req, res) => {
+  try {
+    const { ready } = await orchestrator.adapterStatus();
+    res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "not-ready" });
+  } catch (error) {
+    console.error("[server] ready check failed:", error);
+    res.status(503).json({ status: "not-ready", error: (error as Error).message });
+  }
+});
+
+// Turn latency percentiles for Prometheus
+app.get("/metrics", (_req, res) => {
+  res.type("text/plain; version=0.0.4").send(orchestrator.metrics());
 });
 
 const httpServer = createServer(app);
@@ -74,18 +97,20 @@ io.on("error", (error) => {
   console.error("[server] Socket.IO error:", error);
 });
 
-const server = httpServer.listen(appConfig.port, () => {
-  console.info(`✅ Backend listening on http://localhost:${appConfig.port}`);
-  console.info(`   WebSocket ready for connections`);
-  console.info(`   Health check: http://localhost:${appConfig.port}/health`);
-});
+void configured.then(() =>
+  httpServer.listen(appConfig.port, () => {
+    console.info(`✅ Backend listening on http://localhost:${appConfig.port}`);
+    console.info(`   WebSocket ready for connections`);
+    console.info(`   Health check: http://localhost:${appConfig.port}/health`);
+  })
+);
 
 // Graceful shutdown
 const shutdown = async (signal: string) => {
   console.info(`\n[server] ${signal} received, shutting down gracefully...`);
   
   // Stop accepting new connections
-  server.close(async () => {
+  httpServer.close(async () => {
     console.info("[server] HTTP server closed");
     
     try {
@@ -1,6 +1,31 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { ProductionOrchestrator } from "./orchestrator-v2";
+import { MockAdapterFactory } from "./adapters/mock";
+import { RUN_OF_SHOW, type SegmentDefinition } from "./services/showrunner";
 import { promises as fs } from "node:fs";
+import { resolve } from "node:path";
+
+function getHandler(socket: any, event: string): (...args: any[]) => any {
+  const call = socket.on.mock.calls.find((c: any) => c[0] === event);
+  if (!call) throw new Error(`no handler registered for ${event}`);
+  return call[1];
+}
+
+// 16 kHz mono PCM: a loud 220 Hz tone reads as speech, zeros as silence
+function tone(ms: number, sampleRate = 16000): ArrayBuffer {
+  const samples = new Int16Array((sampleRate * ms) / 1000);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(8000 * Math.sin((2 * Math.PI * 220 * i) / sampleRate));
+  }
+  return samples.buffer;
+}
+
+function silence(ms: number): ArrayBuffer {
+  return new Int16Array((16000 * ms) / 1000).buffer;
+}
+
+// Recording format; TTS chunks in it are written unchanged
+const pcm48k = { encoding: "pcm_s16le", sampleRate: 48000, channels: 1 };
 
 describe("ProductionOrchestrator (Integration)", () => {
   let orchestrator: ProductionOrchestrator;
@@ -127,4 +152,889 @@ describe("ProductionOrchestrator (Integration)", () => {
     
     await expect(orchestrator.shutdown()).resolves.not.toThrow();
   });
+
+  describe("STT wiring", () => {
+    let stt: { inputFormat: any; start: any; stop: any; sendAudio: any };
+    let sttOrchestrator: ProductionOrchestrator;
+
+    beforeEach(() => {
+      stt = {
+        inputFormat: { encoding: "pcm_s16le", sampleRate: 16000, channels: 1 },
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        sendAudio: vi.fn(),
+      };
+      const factory = new MockAdapterFactory();
+      vi.spyOn(factory, "stt").mockReturnValue(stt);
+
+      sttOrchestrator = new ProductionOrchestrator({
+        episodeId: "test-stt",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+      });
+    });
+
+    afterEach(async () => {
+      await sttOrchestrator.shutdown();
+    });
+
+    it("should start STT on hello and forward detected speech", async () => {
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+
+      // Audio before hello is recorded but not transcribed
+      await getHandler(mockSocket, "audio.chunk")(tone(300));
+      await getHandler(mockSocket, "audio.chunk")(silence(900));
+      expect(stt.sendAudio).not.toHaveBeenCalled();
+
+      await getHandler(mockSocket, "hello")({ participantName: "Basil" });
+      expect(stt.start).toHaveBeenCalledWith("stt-socket");
+
+      // Silence never reaches STT
+      await getHandler(mockSocket, "audio.chunk")(silence(300));
+      expect(stt.sendAudio).not.toHaveBeenCalled();
+
+      await getHandler(mockSocket, "audio.chunk")(tone(300));
+      expect(stt.sendAudio).toHaveBeenCalled();
+      expect(stt.sendAudio.mock.calls[0][0]).toBe("stt-socket");
+      expect(stt.sendAudio.mock.calls[0][1].length).toBeGreaterThan(0);
+    });
+
+    it("should forward all audio when VAD gating is off", async () => {
+      const ungated = new ProductionOrchestrator({
+        episodeId: "test-stt-ungated",
+        recordingDir: testRecordingDir,
+        adapterFactory: (sttOrchestrator as any).adapterFactory,
+        vadGating: false,
+      });
+      const mockSocket: any = { id: "ungated-socket", emit: vi.fn(), on: vi.fn() };
+      await ungated.register(mockSocket);
+      await getHandler(mockSocket, "hello")({});
+
+      await getHandler(mockSocket, "audio.chunk")(new ArrayBuffer(8));
+      expect(stt.sendAudio).toHaveBeenCalledTimes(1);
+      expect(stt.sendAudio.mock.calls[0][1]).toHaveLength(8);
+
+      await ungated.shutdown();
+    });
+
+    it("should convert host audio to the format STT takes", async () => {
+      stt.inputFormat = { encoding: "pcm_s16le", sampleRate: 8000, channels: 1 };
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+      await getHandler(mockSocket, "hello")({
+        audioFormat: { encoding: "pcm_s16le", sampleRate: 48000, channels: 1 },
+      });
+
+      await getHandler(mockSocket, "audio.chunk")(silence(300));
+      await getHandler(mockSocket, "audio.chunk")(tone(300, 48000));
+      await getHandler(mockSocket, "audio.chunk")(tone(300, 48000));
+
+      const sent = stt.sendAudio.mock.calls.reduce((bytes: number, call: any) => bytes + call[1].length, 0);
+      // Speech plus pre-roll, at most the 900ms sent, as 8 kHz 16-bit audio
+      expect(sent).toBeGreaterThan(9600);
+      expect(sent).toBeLessThanOrEqual(14400);
+    });
+
+    it("should record compressed host audio without transcribing it", async () => {
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+      await getHandler(mockSocket, "hello")({
+        audioFormat: { encoding: "webm_opus", sampleRate: 48000, channels: 1 },
+      });
+      await getHandler(mockSocket, "audio.chunk")(tone(300));
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "server.ack",
+        "host audio is webm_opus 48 kHz mono; send PCM for VAD and captions"
+      );
+      expect(stt.start).not.toHaveBeenCalled();
+      expect(stt.sendAudio).not.toHaveBeenCalled();
+    });
+
+    it("should reject an invalid audio format", async () => {
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+      await getHandler(mockSocket, "hello")({ audioFormat: { encoding: "mp3", sampleRate: 44100, channels: 2 } });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "server.ack",
+        expect.stringMatching(/^audio format rejected: unknown audio encoding "mp3"/)
+      );
+      expect(stt.start).not.toHaveBeenCalled();
+    });
+
+    it("should record host audio at its capture time rather than its arrival", async () => {
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+      const context = (sttOrchestrator as any).activeSessions.get("stt-socket");
+      const write = vi.spyOn(context.recorder, "writeAudioChunk");
+      const now = vi.spyOn(Date, "now");
+
+      // The client clock is 9.5s behind ours; the second chunk is held up 100ms
+      now.mockReturnValue(10_000);
+      await getHandler(mockSocket, "audio.chunk")(silence(100), 500);
+      now.mockReturnValue(10_200);
+      await getHandler(mockSocket, "audio.chunk")(silence(100), 600);
+      now.mockReturnValue(10_250);
+      await getHandler(mockSocket, "audio.chunk")(silence(100));
+      now.mockRestore();
+
+      expect(write.mock.calls.map((call: unknown[]) => call[3])).toEqual([10_000, 10_100, 10_250]);
+    });
+
+    it("should drive the host orb and barge-in from VAD", async () => {
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+      const context = (sttOrchestrator as any).activeSessions.get("stt-socket");
+      const trigger = vi.spyOn(context.bargeIn, "trigger");
+      const logStart = vi.spyOn(context.eventLogger, "logVadSpeechStart");
+      const logEnd = vi.spyOn(context.eventLogger, "logVadSpeechEnd");
+
+      await getHandler(mockSocket, "audio.chunk")(silence(300));
+      await getHandler(mockSocket, "audio.chunk")(tone(300));
+      expect(trigger).toHaveBeenCalledWith("you");
+      expect(logStart).toHaveBeenCalledWith("stt-socket", "you", expect.any(Number));
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", "you", "listening");
+
+      await getHandler(mockSocket, "audio.chunk")(silence(900));
+      expect(logEnd).toHaveBeenCalledWith("stt-socket", "you");
+      expect(mockSocket.emit).toHaveBeenLastCalledWith("orb.state", "you", "idle");
+    });
+
+    it("should stop STT when the session is cleaned up", async () => {
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+      await getHandler(mockSocket, "hello")({});
+
+      await getHandler(mockSocket, "disconnect")();
+      expect(stt.stop).toHaveBeenCalledWith("stt-socket");
+    });
+
+    it("should report STT start failures to the client", async () => {
+      stt.start.mockRejectedValueOnce(new Error("no credentials"));
+      const mockSocket: any = { id: "stt-socket", emit: vi.fn(), on: vi.fn() };
+      await sttOrchestrator.register(mockSocket);
+
+      await getHandler(mockSocket, "hello")({});
+      await getHandler(mockSocket, "audio.chunk")(new ArrayBuffer(8));
+
+      expect(mockSocket.emit).toHaveBeenCalledWith("server.ack", "stt error: no credentials");
+      expect(stt.sendAudio).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("conversation loop", () => {
+    let factory: MockAdapterFactory;
+    let synthesize: any;
+    let loopOrchestrator: ProductionOrchestrator;
+
+    beforeEach(() => {
+      factory = new MockAdapterFactory();
+      synthesize = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(factory, "tts").mockReturnValue({ synthesize, stop: vi.fn() });
+
+      // Both agents answer every turn; who answers is covered under "addressing"
+      loopOrchestrator = new ProductionOrchestrator({
+        episodeId: "test-loop",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        freeFlowPolicy: "both",
+      });
+    });
+
+    afterEach(async () => {
+      await loopOrchestrator.shutdown();
+    });
+
+    it("should answer a final host transcript with both agents", async () => {
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "What do small models do well?", true);
+
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(2));
+
+      const captions = mockSocket.emit.mock.calls
+        .filter((call: any) => call[0] === "caption")
+        .map((call: any) => call[1]);
+      expect(captions.map((c: any) => c.speaker)).toEqual(
+        expect.arrayContaining(["you", "claude", "guest"])
+      );
+      expect(captions.find((c: any) => c.speaker === "claude").text).toContain("mock-response(claude)");
+
+      await vi.waitFor(() =>
+        expect(mockSocket.emit).toHaveBeenLastCalledWith("orb.state", expect.any(String), "idle")
+      );
+      const claudeStates = mockSocket.emit.mock.calls
+        .filter((call: any) => call[0] === "orb.state" && call[1] === "claude")
+        .map((call: any) => call[2]);
+      expect(claudeStates).toEqual(["thinking", "speaking", "idle"]);
+    });
+
+    it("should time each stage of a reply from the host's speech end", async () => {
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      synthesize.mockImplementation(async (sessionId: string, _text: string, utteranceId: string) =>
+        (loopOrchestrator as any).handleTtsAudioChunk(sessionId, Buffer.alloc(320), { speaker: "claude", utteranceId }, pcm48k)
+      );
+      const context = (loopOrchestrator as any).activeSessions.get("loop-socket");
+      const logTurnLatency = vi.spyOn(context.eventLogger, "logTurnLatency");
+      context.speechEndAt = Date.now() - 250;
+
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "Claude, are you there?", true);
+
+      await vi.waitFor(() => expect(logTurnLatency).toHaveBeenCalled());
+      const [, timings, latency] = logTurnLatency.mock.calls[0] as any[];
+      expect(timings).toMatchObject({ turnId: expect.any(String), speaker: "claude" });
+      expect(latency.stt).toBeGreaterThanOrEqual(250);
+      expect(latency.mouthToEar).toBeGreaterThanOrEqual(latency.stt);
+      expect(Object.keys(latency)).toEqual(["stt", "ttft", "tts", "response", "mouthToEar"]);
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "latency.update",
+        { stages: expect.objectContaining({ mouthToEar: expect.objectContaining({ count: 1 }) }) }
+      );
+      expect(loopOrchestrator.metrics()).toContain('basil_turn_latency_seconds_count{stage="ttft"} 1');
+    });
+
+    it("should start speaking the first clause while the reply is still generating", async () => {
+      let finishReply!: () => void;
+      const claude = {
+        id: "claude",
+        async *generate() {
+          yield "Short answer: ";
+          yield "yes. Long answer";
+          await new Promise<void>((resolve) => (finishReply = resolve));
+          yield ", it depends on the device.";
+        },
+        stop: vi.fn(),
+      };
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => (id === "claude" ? claude : new MockAdapterFactory().llm(id)));
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "Claude, do small models help?", true);
+
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledWith("loop-socket", "Short answer: yes.", expect.any(String)));
+      finishReply();
+      await vi.waitFor(() =>
+        expect(synthesize).toHaveBeenCalledWith("loop-socket", "Long answer, it depends on the device.", expect.any(String))
+      );
+
+      // One caption per utterance, resent as it grows
+      const captions = mockSocket.emit.mock.calls
+        .filter((call: any) => call[0] === "caption" && call[1].speaker === "claude")
+        .map((call: any) => call[1]);
+      expect(captions.map((c: any) => c.text)).toEqual([
+        "Short answer: yes.",
+        "Short answer: yes. Long answer, it depends on the device.",
+      ]);
+      expect(new Set(captions.map((c: any) => c.id)).size).toBe(1);
+    });
+
+    it("should send the system prompt and rolling history to each agent", async () => {
+      const claude = factory.llm("claude");
+      const generate = vi.spyOn(claude, "generate");
+      vi.spyOn(factory, "llm").mockImplementation((id) => (id === "claude" ? claude : new MockAdapterFactory().llm(id)));
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "First question", true);
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(2));
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "Follow-up", true);
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(4));
+
+      const first = generate.mock.calls[0][1];
+      expect(first.system).toContain("You are Claude");
+      expect(first.messages).toHaveLength(1);
+
+      const second = generate.mock.calls[1][1];
+      const roles = second.messages.map((m: { role: string }) => m.role);
+      expect(roles[roles.length - 1]).toBe("user");
+      expect(roles).toContain("assistant");
+      expect(second.messages[second.messages.length - 1].content).toContain("Follow-up");
+    });
+
+    it("should name speakers to the agents as the briefing does", async () => {
+      const briefingPath = resolve(testRecordingDir, "briefing.md");
+      await fs.mkdir(testRecordingDir, { recursive: true });
+      await fs.writeFile(briefingPath, "---\nhostName: Ada\n---\n\nContent");
+      const claude = factory.llm("claude");
+      const generate = vi.spyOn(claude, "generate");
+      vi.spyOn(factory, "llm").mockImplementation((id) => (id === "claude" ? claude : new MockAdapterFactory().llm(id)));
+      const briefed = new ProductionOrchestrator({
+        episodeId: "test-names",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        briefingPath,
+        freeFlowPolicy: "both",
+      });
+      const mockSocket: any = { id: "names-socket", emit: vi.fn(), on: vi.fn() };
+      await briefed.register(mockSocket);
+
+      (briefed as any).handleSttTranscript("names-socket", "First question", true);
+      await vi.waitFor(() => expect(generate).toHaveBeenCalled());
+
+      expect(generate.mock.calls[0][1].messages[0].content).toContain('<speaker name="Ada">');
+
+      await briefed.shutdown();
+    });
+
+    it("should speak through each agent's own voice", async () => {
+      const voices = {
+        claude: { synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() },
+        guest: { synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() },
+      };
+      const tts = vi.spyOn(factory, "tts").mockImplementation((speaker: any) => voices[speaker as "claude" | "guest"]);
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      expect(tts).toHaveBeenCalledWith("claude", undefined);
+      expect(tts).toHaveBeenCalledWith("guest", undefined);
+
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "Hello", true);
+      await vi.waitFor(() => expect(voices.guest.synthesize).toHaveBeenCalledTimes(1));
+      await vi.waitFor(() => expect(voices.claude.synthesize).toHaveBeenCalledTimes(1));
+
+      expect(voices.claude.synthesize.mock.calls[0][1]).toContain("mock-response(claude)");
+      expect(voices.guest.synthesize.mock.calls[0][1]).toContain("mock-response(guest)");
+    });
+
+    it("should route synthesized audio and events to the speaking agent", async () => {
+      const orchestratorAny = loopOrchestrator as any;
+      const guestVoice = {
+        synthesize: vi.fn(async (sessionId: string, _text: string, utteranceId: string) => {
+          const utterance = { speaker: "guest", utteranceId };
+          orchestratorAny.handleTtsAudioChunk(sessionId, Buffer.alloc(320), utterance, pcm48k);
+          orchestratorAny.handleTtsAudioChunk(sessionId, Buffer.alloc(160), utterance, pcm48k);
+          orchestratorAny.handleTtsComplete(sessionId, utterance);
+        }),
+        stop: vi.fn(),
+      };
+      const claudeVoice = { synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() };
+      vi.spyOn(factory, "tts").mockImplementation((speaker: any) => (speaker === "guest" ? guestVoice : claudeVoice));
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      orchestratorAny.handleSttTranscript("loop-socket", "What are your takes?", true);
+      await vi.waitFor(() => expect(guestVoice.synthesize).toHaveBeenCalled());
+      await vi.waitFor(() => expect(claudeVoice.synthesize).toHaveBeenCalled());
+
+      const utteranceId = guestVoice.synthesize.mock.calls[0][2];
+      const guestCaption = mockSocket.emit.mock.calls.find(
+        (call: any) => call[0] === "caption" && call[1].speaker === "guest"
+      )[1];
+      expect(guestCaption.id).toBe(utteranceId);
+
+      await loopOrchestrator.shutdown();
+
+      const episodeDir = `${testRecordingDir}/test-loop`;
+      const files = await fs.readdir(episodeDir);
+      expect(files).toContain("guest.wav");
+      expect(files).not.toContain("claude.wav");
+      // The utterance, then silence to the end of the recording
+      expect((await fs.readFile(`${episodeDir}/guest.wav`)).readUInt32LE(40)).toBeGreaterThanOrEqual(480);
+
+      const events = (await fs.readFile(`${episodeDir}/events.jsonl`, "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      const complete = events.find((e) => e.type === "tts.complete");
+      expect(complete).toMatchObject({ speaker: "guest", utteranceId, audioSize: 480 });
+    });
+
+    it("should stop agent speech when the host barges in", async () => {
+      let finishSpeech: () => void = () => {};
+      const voice = {
+        synthesize: vi.fn(() => new Promise<void>((resolve) => { finishSpeech = resolve; })),
+        stop: vi.fn(async () => finishSpeech()),
+      };
+      vi.spyOn(factory, "tts").mockReturnValue(voice);
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      const orchestratorAny = loopOrchestrator as any;
+
+      orchestratorAny.handleSttTranscript("loop-socket", "Tell me a story", true);
+      await vi.waitFor(() => expect(voice.synthesize).toHaveBeenCalledTimes(1));
+
+      orchestratorAny.handleSttTranscript("loop-socket", "Wait, hold on", false);
+      await vi.waitFor(() => expect(voice.stop).toHaveBeenCalledWith("loop-socket"));
+
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", expect.any(String), "muted");
+      // The second agent's reply is held rather than spoken over the host
+      expect(voice.synthesize).toHaveBeenCalledTimes(1);
+
+      orchestratorAny.handleSttTranscript("loop-socket", "Wait, hold on. New question.", true);
+      await vi.waitFor(() => expect(voice.synthesize).toHaveBeenCalledTimes(2));
+      finishSpeech();
+      await vi.waitFor(() => expect(voice.synthesize).toHaveBeenCalledTimes(3));
+      finishSpeech();
+
+      // The held reply to the first question was discarded, not spoken late
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(voice.synthesize).toHaveBeenCalledTimes(3);
+    });
+
+    it("should speak a held reply once the host goes quiet", async () => {
+      let finishSpeech: () => void = () => {};
+      const voice = {
+        synthesize: vi.fn(() => new Promise<void>((resolve) => { finishSpeech = resolve; })),
+        stop: vi.fn(async () => finishSpeech()),
+      };
+      vi.spyOn(factory, "tts").mockReturnValue(voice);
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      const orchestratorAny = loopOrchestrator as any;
+
+      orchestratorAny.handleSttTranscript("loop-socket", "Tell me a story", true);
+      await vi.waitFor(() => expect(voice.synthesize).toHaveBeenCalledTimes(1));
+
+      orchestratorAny.handleSttTranscript("loop-socket", "Mm-hmm", false);
+      await vi.waitFor(() => expect(voice.stop).toHaveBeenCalledWith("loop-socket"));
+      expect(voice.synthesize).toHaveBeenCalledTimes(1);
+
+      // The host said nothing new, as when the resume timer runs out
+      orchestratorAny.activeSessions.get("loop-socket").bargeIn.release(true);
+
+      await vi.waitFor(() => expect(voice.synthesize).toHaveBeenCalledTimes(2));
+      finishSpeech();
+    });
+
+    it("should ignore partial transcripts", async () => {
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "What do", false);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(synthesize).not.toHaveBeenCalled();
+    });
+
+    it("should not speak at the same time for both agents", async () => {
+      let speaking = 0;
+      let overlap = false;
+      synthesize.mockImplementation(async () => {
+        speaking++;
+        overlap ||= speaking > 1;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        speaking--;
+      });
+
+      const mockSocket: any = { id: "loop-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      (loopOrchestrator as any).handleSttTranscript("loop-socket", "Hello both", true);
+
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(2));
+      expect(overlap).toBe(false);
+    });
+
+    it("should keep the agent thinking and tell the host while an LLM backs off", async () => {
+      const mockSocket: any = { id: "retry-socket", emit: vi.fn(), on: vi.fn() };
+      await loopOrchestrator.register(mockSocket);
+      const context = (loopOrchestrator as any).activeSessions.get("retry-socket");
+      const logLlmRetry = vi.spyOn(context.eventLogger, "logLlmRetry");
+      const event = { provider: "groq", attempt: 1, maxRetries: 3, delayMs: 1500, status: 429, error: "rate limited", speaker: "guest" };
+
+      (loopOrchestrator as any).handleLlmRetry("retry-socket", event);
+
+      expect(logLlmRetry).toHaveBeenCalledWith("retry-socket", event);
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", "guest", "thinking");
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "server.ack",
+        "guest is waiting on groq returned 429, retrying in 2s (1/3)"
+      );
+
+      await loopOrchestrator.shutdown();
+    });
+  });
+
+  describe("addressing", () => {
+    let factory: MockAdapterFactory;
+    let synthesize: any;
+
+    beforeEach(() => {
+      factory = new MockAdapterFactory();
+      synthesize = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(factory, "tts").mockImplementation((speaker: any) => ({
+        synthesize: (...args: any[]) => synthesize(speaker, ...args),
+        stop: vi.fn(),
+      }));
+    });
+
+    async function ask(policy: "first-complete" | "relevance" | "both", text: string) {
+      const orchestrator = new ProductionOrchestrator({
+        episodeId: "test-addressing",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        freeFlowPolicy: policy,
+      });
+      const mockSocket: any = { id: "addressing-socket", emit: vi.fn(), on: vi.fn() };
+      await orchestrator.register(mockSocket);
+      (orchestrator as any).handleSttTranscript("addressing-socket", text, true);
+      return orchestrator;
+    }
+
+    // One entry per utterance; clauses of an utterance share its id
+    function speakers(): string[] {
+      return [...new Map<string, string>(synthesize.mock.calls.map((call: any) => [call[3], call[0]])).values()];
+    }
+
+    it("should only let the addressed agent answer", async () => {
+      const orchestrator = await ask("both", "Let's hear from our guest on this.");
+
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(speakers()).toEqual(["guest"]);
+
+      await orchestrator.shutdown();
+    });
+
+    it("should let only the first finished agent answer in free flow", async () => {
+      const slow = factory.llm("guest");
+      const stop = vi.spyOn(slow, "stop");
+      vi.spyOn(slow, "generate").mockImplementation(async function* () {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        yield "Too late.";
+      });
+      const claude = factory.llm("claude");
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => (id === "claude" ? claude : slow));
+
+      const orchestrator = await ask("first-complete", "What makes a good podcast?");
+
+      await vi.waitFor(() => expect(stop).toHaveBeenCalledWith("addressing-socket"));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(speakers()).toEqual(["claude"]);
+
+      await orchestrator.shutdown();
+    });
+
+    it("should pick the more relevant reply", async () => {
+      const replies: Record<string, string> = {
+        claude: "Sure.",
+        guest: "Small models run on phones, so privacy improves because data stays on the device.",
+      };
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => ({
+        id,
+        async *generate() {
+          yield replies[id];
+        },
+        stop: vi.fn(),
+      }));
+
+      const orchestrator = await ask("relevance", "Do small models on phones improve privacy?");
+
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(speakers()).toEqual(["guest"]);
+
+      await orchestrator.shutdown();
+    });
+
+    it("should strip addressing tags before the agents see the utterance", async () => {
+      const claude = factory.llm("claude");
+      const generate = vi.spyOn(claude, "generate");
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => (id === "claude" ? claude : new MockAdapterFactory().llm(id)));
+
+      const orchestrator = await ask("both", '<to name="Claude">Argue the other side.</to>');
+
+      await vi.waitFor(() => expect(generate).toHaveBeenCalled());
+      const request = generate.mock.calls[0][1] as any;
+      expect(request.messages[0].content).toContain("Argue the other side.");
+      expect(request.messages[0].content).not.toContain("<to");
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalled());
+      expect(speakers()).toEqual(["claude"]);
+
+      await orchestrator.shutdown();
+    });
+  });
+
+  describe("autopilot", () => {
+    it("should mute the host and run the show until switched off", async () => {
+      const factory = new MockAdapterFactory();
+      const synthesize = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(factory, "tts").mockReturnValue({ synthesize, stop: vi.fn() });
+      const claude = factory.llm("claude");
+      const guest = factory.llm("guest");
+      const generate = vi.spyOn(claude, "generate");
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => (id === "claude" ? claude : guest));
+      const autopilot = new ProductionOrchestrator({
+        episodeId: "test-autopilot",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+      });
+      const mockSocket: any = { id: "autopilot-socket", emit: vi.fn(), on: vi.fn() };
+      await autopilot.register(mockSocket);
+      const context = (autopilot as any).activeSessions.get("autopilot-socket");
+      const sendAudio = vi.fn();
+      context.stt.sendAudio = sendAudio;
+      await getHandler(mockSocket, "hello")({});
+
+      getHandler(mockSocket, "client.toggle-autopilot")(true);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", "you", "muted");
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "segment.change",
+        expect.objectContaining({ segment: "cold-open", index: 0 })
+      );
+
+      // Claude opens the show with the segment cue
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalled());
+      const request = generate.mock.calls[0][1] as any;
+      expect(request.messages[request.messages.length - 1].content).toContain("[Showrunner: Cold Open");
+
+      await getHandler(mockSocket, "audio.chunk")(tone(300));
+      expect(sendAudio).not.toHaveBeenCalled();
+
+      getHandler(mockSocket, "client.toggle-autopilot")(false);
+      await vi.waitFor(() =>
+        expect(mockSocket.emit).toHaveBeenCalledWith("segment.change", expect.objectContaining({ segment: null }))
+      );
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", "you", "idle");
+
+      await autopilot.shutdown();
+    });
+
+    it("should apply briefing and segment model overrides to each turn", async () => {
+      const factory = new MockAdapterFactory();
+      vi.spyOn(factory, "tts").mockReturnValue({ synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() });
+      const claude = Object.assign(factory.llm("claude"), { model: "claude-3-5-haiku-20241022" });
+      const generate = vi.spyOn(claude, "generate");
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => (id === "claude" ? claude : new MockAdapterFactory().llm(id)));
+      const orch = new ProductionOrchestrator({
+        episodeId: "test-models",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+      });
+      const mockSocket: any = { id: "models-socket", emit: vi.fn(), on: vi.fn() };
+      await orch.register(mockSocket);
+      const context = (orch as any).activeSessions.get("models-socket");
+      context.briefing = {
+        metadata: {
+          generation: { claude: { temperature: 0.3 } },
+          segmentGeneration: { verdict: { claude: { model: "claude-sonnet-4-20250514" } } },
+        },
+      };
+      const logLlmStart = vi.spyOn(context.eventLogger, "logLlmStart");
+      const recordModel = vi.spyOn(context.recorder, "recordModel");
+      const verdict = RUN_OF_SHOW.find((segment: SegmentDefinition) => segment.id === "verdict");
+
+      await (orch as any).runAgentTurn(context, "claude", { cue: "Cold open cue" });
+      await (orch as any).runAgentTurn(context, "claude", { cue: "Verdict cue", segment: verdict });
+
+      expect((generate.mock.calls[0][1] as any).settings).toEqual({ temperature: 0.3 });
+      expect((generate.mock.calls[1][1] as any).settings).toEqual({ temperature: 0.3, model: "claude-sonnet-4-20250514" });
+      expect(logLlmStart).toHaveBeenNthCalledWith(1, "models-socket", "claude", "claude-3-5-haiku-20241022", "claude");
+      expect(logLlmStart).toHaveBeenNthCalledWith(2, "models-socket", "claude", "claude-sonnet-4-20250514", "claude");
+      expect(recordModel).toHaveBeenLastCalledWith("claude", "claude-sonnet-4-20250514");
+
+      await orch.shutdown();
+    });
+
+    it("should record the model of the provider that actually served the turn", async () => {
+      const factory = new MockAdapterFactory();
+      vi.spyOn(factory, "tts").mockReturnValue({ synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() });
+      // Stands in for a failover adapter whose primary failed
+      const claude: any = {
+        id: "claude",
+        served: undefined,
+        async *generate() {
+          claude.served = { provider: "openai", model: "gpt-4o-mini" };
+          yield "Fallback reply.";
+        },
+        stop: vi.fn(),
+      };
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => (id === "claude" ? claude : new MockAdapterFactory().llm(id)));
+      const orch = new ProductionOrchestrator({
+        episodeId: "test-served",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+      });
+      const mockSocket: any = { id: "served-socket", emit: vi.fn(), on: vi.fn() };
+      await orch.register(mockSocket);
+      const context = (orch as any).activeSessions.get("served-socket");
+      const logLlmComplete = vi.spyOn(context.eventLogger, "logLlmComplete");
+      const recordModel = vi.spyOn(context.recorder, "recordModel");
+
+      await (orch as any).runAgentTurn(context, "claude", { cue: "Cold open cue" });
+
+      expect(logLlmComplete).toHaveBeenCalledWith("served-socket", "claude", expect.any(Number), "gpt-4o-mini", "openai");
+      expect(recordModel).toHaveBeenCalledWith("claude", "gpt-4o-mini");
+
+      await orch.shutdown();
+    });
+
+    it("should stop autopilot once the episode goes over budget", async () => {
+      const factory = new MockAdapterFactory();
+      vi.spyOn(factory, "tts").mockReturnValue({ synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() });
+      const budgeted = new ProductionOrchestrator({
+        episodeId: "test-budget",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        budgetUsd: 0.05,
+      });
+      const mockSocket: any = { id: "budget-socket", emit: vi.fn(), on: vi.fn() };
+      await budgeted.register(mockSocket);
+      getHandler(mockSocket, "client.toggle-autopilot")(true);
+
+      (budgeted as any).handleUsage("budget-socket", {
+        role: "llm",
+        provider: "claude",
+        speaker: "claude",
+        inputTokens: 20_000,
+        outputTokens: 8_000,
+        costUsd: 0.06,
+      });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "cost.update",
+        expect.objectContaining({
+          totalUsd: 0.06,
+          budgetUsd: 0.05,
+          lines: [expect.objectContaining({ provider: "claude", inputTokens: 20_000, outputTokens: 8_000 })],
+        })
+      );
+      expect(mockSocket.emit).toHaveBeenCalledWith("server.ack", "budget exceeded ($0.06 of $0.05)");
+      expect((budgeted as any).autopilot).toBe(false);
+
+      getHandler(mockSocket, "client.toggle-autopilot")(true);
+      expect(mockSocket.emit).toHaveBeenLastCalledWith("state.snapshot", expect.objectContaining({ autopilot: false }));
+
+      await budgeted.shutdown();
+    });
+  });
+
+  describe("thinking mode", () => {
+    let factory: MockAdapterFactory;
+    let synthesize: any;
+    let thinkingOrchestrator: ProductionOrchestrator;
+
+    beforeEach(() => {
+      factory = new MockAdapterFactory();
+      synthesize = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(factory, "tts").mockReturnValue({ synthesize, stop: vi.fn() });
+      const guest = factory.llm("guest");
+      vi.spyOn(factory, "llm").mockImplementation((id: any) =>
+        id === "claude"
+          ? {
+              id: "claude",
+              async *generate() {
+                yield "Good question. Can I think";
+                yield " for a minute? ";
+                yield "Here's my considered answer.";
+              },
+              stop: vi.fn(),
+            }
+          : guest
+      );
+
+      thinkingOrchestrator = new ProductionOrchestrator({
+        episodeId: "test-thinking",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        thinkingDurationMs: 50,
+        freeFlowPolicy: "both",
+      });
+    });
+
+    afterEach(async () => {
+      await thinkingOrchestrator.shutdown();
+    });
+
+    it("should think silently and then play the cached answer", async () => {
+      const mockSocket: any = { id: "thinking-socket", emit: vi.fn(), on: vi.fn() };
+      await thinkingOrchestrator.register(mockSocket);
+
+      (thinkingOrchestrator as any).handleSttTranscript("thinking-socket", "What's the hardest problem?", true);
+
+      await vi.waitFor(() =>
+        expect(mockSocket.emit).toHaveBeenCalledWith(
+          "mode.thinking",
+          expect.objectContaining({ speaker: "claude", durationMs: 50 })
+        )
+      );
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", "claude", "thinking");
+      expect(mockSocket.emit).toHaveBeenCalledWith("orb.state", "guest", "muted");
+
+      await vi.waitFor(() =>
+        expect(mockSocket.emit).toHaveBeenCalledWith("mode.normal", expect.objectContaining({ reason: "answered" }))
+      );
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledWith("thinking-socket", "Here's my considered answer.", expect.any(String)));
+
+      const spoken = synthesize.mock.calls
+        .filter((call: any) => !call[1].startsWith("mock-response"))
+        .map((call: any) => call[1]);
+      expect(spoken).toEqual([
+        "Good question.",
+        "Can I think for a minute?",
+        "Okay, here's what I was thinking.",
+        "Here's my considered answer.",
+      ]);
+    });
+
+    it("should let the host cancel thinking", async () => {
+      const mockSocket: any = { id: "thinking-socket", emit: vi.fn(), on: vi.fn() };
+      const slow = new ProductionOrchestrator({
+        episodeId: "test-thinking-cancel",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        thinkingDurationMs: 60000,
+        freeFlowPolicy: "both",
+      });
+      await slow.register(mockSocket);
+
+      (slow as any).handleSttTranscript("thinking-socket", "What's the hardest problem?", true);
+      await vi.waitFor(() => expect(mockSocket.emit).toHaveBeenCalledWith("mode.thinking", expect.anything()));
+
+      getHandler(mockSocket, "client.thinking-cancel")();
+      expect(mockSocket.emit).toHaveBeenCalledWith("mode.normal", expect.objectContaining({ reason: "cancelled" }));
+      expect(mockSocket.emit).toHaveBeenCalledWith("server.ack", "claude stopped thinking");
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const spoken = synthesize.mock.calls.map((call: any) => call[1]);
+      expect(spoken.some((text: string) => text.startsWith("Okay, here's what I was thinking"))).toBe(false);
+
+      await slow.shutdown();
+    });
+
+    it("should stop thinking when the host says something new", async () => {
+      const mockSocket: any = { id: "thinking-socket", emit: vi.fn(), on: vi.fn() };
+      let turns = 0;
+      vi.spyOn(factory, "llm").mockImplementation((id: any) => ({
+        id,
+        async *generate() {
+          if (id === "claude" && turns++ === 0) {
+            yield "Can I think for a minute? ";
+            yield "Here's my considered answer.";
+          } else {
+            yield `${id} replies.`;
+          }
+        },
+        stop: vi.fn(),
+      }));
+      const slow = new ProductionOrchestrator({
+        episodeId: "test-thinking-host",
+        recordingDir: testRecordingDir,
+        adapterFactory: factory,
+        thinkingDurationMs: 60000,
+        freeFlowPolicy: "both",
+      });
+      await slow.register(mockSocket);
+
+      (slow as any).handleSttTranscript("thinking-socket", "What's the hardest problem?", true);
+      await vi.waitFor(() => expect(mockSocket.emit).toHaveBeenCalledWith("mode.thinking", expect.anything()));
+
+      (slow as any).handleSttTranscript("thinking-socket", "Actually, let's move on.", true);
+      expect(mockSocket.emit).toHaveBeenCalledWith("mode.normal", expect.objectContaining({ reason: "cancelled" }));
+
+      // Replies to the new question aren't stuck behind the thinker
+      await vi.waitFor(() => expect(synthesize).toHaveBeenCalledWith("thinking-socket", "claude replies.", expect.any(String)));
+      const spoken = synthesize.mock.calls.map((call: any) => call[1]);
+      expect(spoken.some((text: string) => text.startsWith("Okay, here's what I was thinking"))).toBe(false);
+
+      await slow.shutdown();
+    });
+  });
 });
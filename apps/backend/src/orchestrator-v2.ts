@@ -1,28 +1,102 @@
 import { randomUUID } from "node:crypto";
 import type { Socket } from "socket.io";
 import type {
+  AgentId,
+  AudioFormat,
   CaptionPayload,
   ClientToServerEvents,
-  ModeThinkingPayload,
   OrchestratorStateSnapshot,
   OrbState,
+  SegmentChangePayload,
   ServerToClientEvents,
   SpeakerId,
 } from "@basil/shared";
 import { RealAdapterFactory, type FactoryConfig } from "./adapters/factory.js";
-import { RecorderService } from "./services/recorder.js";
+import type { FailoverEvent } from "./adapters/failover.js";
+import type { RetryEvent } from "./adapters/retry.js";
+import { MockAdapterFactory } from "./adapters/mock.js";
+import type {
+  AdapterFactory,
+  AdapterStatus,
+  GenerationSettings,
+  LlmAdapter,
+  SttAdapter,
+  TranscriptTiming,
+  TtsAdapter,
+  TtsUtterance,
+  UsageReport,
+} from "./adapters/interfaces.js";
+import { RecorderService, type CaptionTiming } from "./services/recorder.js";
+import { SttTimeline } from "./services/stt-timeline.js";
 import { EventLogger } from "./services/event-logger.js";
-import { BriefingLoader } from "./services/briefing-loader.js";
+import { BriefingLoader, type ParsedBriefing } from "./services/briefing-loader.js";
+import { ConversationHistory } from "./services/conversation-history.js";
+import { BargeInController } from "./services/barge-in.js";
+import { VoiceActivityWorker } from "./services/vad.js";
+import {
+  AudioConverter,
+  SPEECH_FORMAT,
+  describeFormat,
+  isPcm,
+  parseAudioFormat,
+  sameFormat,
+} from "./services/audio-format.js";
+import { ClauseBuffer, SpeechQueue } from "./services/clause-buffer.js";
+import {
+  THINKING_LEAD_IN,
+  ThinkingModeController,
+  splitThinkingTrigger,
+} from "./services/thinking-mode.js";
+import { Showrunner, type SegmentDefinition } from "./services/showrunner.js";
+import { CostTracker } from "./services/cost-tracker.js";
+import { LatencyTracker, type TurnTimings } from "./services/latency-tracker.js";
+import {
+  AddressingResolver,
+  FREE_FLOW_POLICIES,
+  createReplyArbiter,
+  type FreeFlowPolicy,
+  type ReplyArbiter,
+} from "./services/addressing.js";
 
 interface OrchestratorConfig {
   useRealAdapters?: boolean;
   episodeId?: string;
   briefingPath?: string;
   recordingDir?: string;
+  // Also encode each recorded WAV track to Opus (needs ffmpeg)
+  recordOpus?: boolean;
+  ffmpegPath?: string;
+  // How far agent voices drop in the mix while the host speaks (dB)
+  duckDb?: number;
+  // Loudness mix.wav is normalized to (LUFS)
+  mixTargetLufs?: number;
+  // Stream the monitor mix to the browser as "audio.monitor"
+  monitorMix?: boolean;
+  // Approximate token budget for the conversation history sent to the LLMs
+  historyTokenBudget?: number;
+  // Only forward audio the VAD considers speech to STT
+  vadGating?: boolean;
+  // Silence before the host counts as finished speaking
+  vadHangoverMs?: number;
+  // How long an agent gets after asking "Can I think for a minute?"
+  thinkingDurationMs?: number;
+  // Who answers when the host doesn't address anyone
+  freeFlowPolicy?: FreeFlowPolicy;
+  // Extra names the host may use for the guest (e.g. the model's name)
+  guestNames?: string[];
+  // Autopilot stops once the episode's provider costs pass this (USD)
+  budgetUsd?: number;
+  // Overrides the adapter factory selected by useRealAdapters (used in tests)
+  adapterFactory?: AdapterFactory;
 }
 
+const AGENTS: AgentId[] = ["claude", "guest"];
+// How often the monitor mix is sent to the browser
+const MONITOR_INTERVAL_MS = 100;
+
 export class ProductionOrchestrator {
   private autopilot = false;
+  private segment?: SegmentChangePayload;
   private orbStates: Record<SpeakerId, OrbState> = {
     you: "idle",
     claude: "idle",
@@ -30,19 +104,39 @@ export class ProductionOrchestrator {
   };
   private captions: CaptionPayload[] = [];
   private config: OrchestratorConfig;
-  private adapterFactory: RealAdapterFactory;
+  private adapterFactory: AdapterFactory;
   private recorder?: RecorderService;
   private eventLogger?: EventLogger;
   private briefingLoader: BriefingLoader;
+  private cost: CostTracker;
+  private latency: LatencyTracker;
   private activeSessions = new Map<string, SessionContext>();
 
   constructor(config: OrchestratorConfig = {}) {
     this.config = {
-      useRealAdapters: process.env.USE_REAL_ADAPTERS === "true",
+      useRealAdapters: config.useRealAdapters ?? process.env.USE_REAL_ADAPTERS === "true",
       episodeId: config.episodeId || `episode-${Date.now()}`,
       briefingPath: config.briefingPath,
       recordingDir: config.recordingDir || "./recordings",
+      recordOpus: config.recordOpus ?? process.env.RECORDING_OPUS === "true",
+      ffmpegPath: config.ffmpegPath ?? process.env.FFMPEG_PATH,
+      duckDb: config.duckDb ?? (process.env.MIX_DUCK_DB ? Number(process.env.MIX_DUCK_DB) : undefined),
+      mixTargetLufs: config.mixTargetLufs
+        ?? (process.env.MIX_TARGET_LUFS ? Number(process.env.MIX_TARGET_LUFS) : undefined),
+      monitorMix: config.monitorMix ?? process.env.MONITOR_MIX === "true",
+      historyTokenBudget: config.historyTokenBudget,
+      vadGating: config.vadGating ?? process.env.VAD_GATE_STT !== "false",
+      vadHangoverMs: config.vadHangoverMs
+        ?? (process.env.VAD_HANGOVER_MS ? Number(process.env.VAD_HANGOVER_MS) : undefined),
+      thinkingDurationMs: config.thinkingDurationMs,
+      freeFlowPolicy: config.freeFlowPolicy ?? parseFreeFlowPolicy(process.env.FREE_FLOW_POLICY),
+      guestNames: config.guestNames
+        ?? process.env.GUEST_NAMES?.split(",").map((name) => name.trim()).filter(Boolean),
+      budgetUsd: config.budgetUsd
+        ?? (process.env.EPISODE_BUDGET_USD ? Number(process.env.EPISODE_BUDGET_USD) : undefined),
     };
+    this.cost = new CostTracker({ budgetUsd: this.config.budgetUsd });
+    this.latency = new LatencyTracker();
 
     // Initialize adapter factory
     const factoryConfig: FactoryConfig = {
@@ -51,9 +145,15 @@ export class ProductionOrchestrator {
       onTtsAudioChunk: this.handleTtsAudioChunk.bind(this),
       onTtsComplete: this.handleTtsComplete.bind(this),
       onTtsError: this.handleTtsError.bind(this),
+      onFailover: this.handleFailover.bind(this),
+      onUsage: this.handleUsage.bind(this),
+      onLlmRetry: this.handleLlmRetry.bind(this),
     };
 
-    this.adapterFactory = new RealAdapterFactory(factoryConfig);
+    this.adapterFactory = config.adapterFactory
+      ?? (this.config.useRealAdapters
+        ? new RealAdapterFactory(factoryConfig)
+        : new MockAdapterFactory());
     this.briefingLoader = new BriefingLoader();
 
     console.info(`[orchestrator] initialized with episode: ${this.config.episodeId}`);
@@ -86,6 +186,17 @@ export class ProductionOrchestrator {
     sessionId: string,
     socket: Socket<ClientToServerEvents, ServerToClientEvents>
   ): Promise<SessionContext> {
+    // Load briefing if provided
+    let briefing: ParsedBriefing | undefined;
+    if (this.config.briefingPath) {
+      try {
+        briefing = await this.briefingLoader.load(this.config.briefingPath);
+        console.info(`[orchestrator] loaded briefing: ${briefing.metadata.title || "untitled"}`);
+      } catch (error) {
+        console.warn(`[orchestrator] failed to load briefing:`, error);
+      }
+    }
+
     // Initialize event logger
     const eventLogger = new EventLogger({
       episodeId: this.config.episodeId!,
@@ -95,25 +206,95 @@ export class ProductionOrchestrator {
     eventLogger.logSessionStart(sessionId, this.config.episodeId!, {
       useRealAdapters: this.config.useRealAdapters,
       briefingPath: this.config.briefingPath,
+      // Lets the transcripts be rebuilt from the log
+      title: briefing?.metadata.title,
+      speakerNames: briefing?.metadata.speakerNames,
     });
 
     // Initialize recorder
     const recorder = new RecorderService({
       episodeId: this.config.episodeId!,
       outputDir: this.config.recordingDir,
+      opus: this.config.recordOpus,
+      ffmpegPath: this.config.ffmpegPath,
+      ducking: { duckDb: this.config.duckDb },
+      targetLufs: this.config.mixTargetLufs,
+      monitor: this.config.monitorMix,
+      title: briefing?.metadata.title,
+      speakerNames: briefing?.metadata.speakerNames,
     });
     await recorder.start();
 
-    // Load briefing if provided
-    let briefing;
-    if (this.config.briefingPath) {
-      try {
-        briefing = await this.briefingLoader.load(this.config.briefingPath);
-        console.info(`[orchestrator] loaded briefing: ${briefing.metadata.title || "untitled"}`);
-      } catch (error) {
-        console.warn(`[orchestrator] failed to load briefing:`, error);
-      }
-    }
+    // Each session gets its own STT stream; it is started on "hello".
+    // The real factory loads provider SDKs on first use.
+    const stt: SttAdapter = await this.adapterFactory.stt();
+
+    // One voice per agent so the guest doesn't borrow Claude's preset
+    const voices = briefing?.metadata.voices;
+    const tts: Record<AgentId, TtsAdapter> = {
+      claude: await this.adapterFactory.tts("claude", voices?.claude),
+      guest: await this.adapterFactory.tts("guest", voices?.guest),
+    };
+    const llms: Record<AgentId, LlmAdapter> = {
+      claude: await this.adapterFactory.llm("claude"),
+      guest: await this.adapterFactory.llm("guest"),
+    };
+
+    // Without a briefing the agents still get the default co-host/guest prompts
+    const prompts = briefing ?? this.briefingLoader.parse("");
+    const history = new ConversationHistory({
+      maxTokens: this.config.historyTokenBudget,
+      // The models hear the same names the transcripts use
+      speakerNames: briefing?.metadata.speakerNames,
+    });
+    const bargeIn = new BargeInController({
+      sessionId,
+      tts,
+      llms,
+      history,
+      eventLogger,
+      setOrbState: (speaker, state) => this.updateOrbState(speaker, state, socket),
+    });
+
+    // The VAD owns the host's orb and decides when the host has the floor
+    const vad = new VoiceActivityWorker({
+      hangoverMs: this.config.vadHangoverMs,
+      onSpeechStart: (confidence) => {
+        // Agents duck in the mix while the host talks
+        const context = this.activeSessions.get(sessionId);
+        if (context) context.speechStartAt = context.hostAudioAt;
+        recorder.markHostSpeech(true, context?.hostAudioAt);
+        eventLogger.logVadSpeechStart(sessionId, "you", confidence);
+        this.updateOrbState("you", "listening", socket);
+        void bargeIn.trigger("you");
+      },
+      onSpeechEnd: () => {
+        const context = this.activeSessions.get(sessionId);
+        if (context) context.speechEndAt = Date.now();
+        recorder.markHostSpeech(false, context?.hostAudioAt);
+        eventLogger.logVadSpeechEnd(sessionId, "you");
+        // Streaming STT holds the utterance until told it's over
+        if (context?.sttActive) void context.stt.flush?.(sessionId);
+        this.updateOrbState("you", "idle", socket);
+        // Held responses resume unless a final transcript arrives first
+        bargeIn.noteHostActivity();
+      },
+    });
+
+    const thinking = new ThinkingModeController({
+      sessionId,
+      eventLogger,
+      setOrbState: (speaker, state) => this.updateOrbState(speaker, state, socket),
+      onThinking: (payload) => socket.emit("mode.thinking", payload),
+      onNormal: (payload) => socket.emit("mode.normal", payload),
+      agents: AGENTS,
+      durationMs: this.config.thinkingDurationMs,
+    });
+
+    const addressing = new AddressingResolver({
+      agents: AGENTS,
+      names: { guest: this.config.guestNames },
+    });
 
     return {
       sessionId,
@@ -121,8 +302,32 @@ export class ProductionOrchestrator {
       eventLogger,
       recorder,
       briefing,
+      stt,
+      sttActive: false,
+      audioFormat: SPEECH_FORMAT,
+      speechConverter: new AudioConverter(SPEECH_FORMAT, SPEECH_FORMAT),
+      sttTimeline: new SttTimeline(),
+      tts,
+      llms,
+      history,
+      bargeIn,
+      vad,
+      thinking,
+      addressing,
+      systemPrompts: {
+        claude: prompts.systemPromptClaude,
+        guest: prompts.systemPromptGuest,
+      },
+      floor: Promise.resolve(),
+      utterances: new Map(),
       isRecording: false,
       isSpeaking: false,
+      monitorTimer: this.config.monitorMix
+        ? setInterval(() => {
+          const mix = recorder.monitorMix();
+          if (mix.length > 0) socket.emit("audio.monitor", Uint8Array.from(mix).buffer);
+        }, MONITOR_INTERVAL_MS)
+        : undefined,
     };
   }
 
@@ -143,11 +348,14 @@ export class ProductionOrchestrator {
         episodeId: payload.episodeId || this.config.episodeId!,
         config: { participant },
       } as any);
+
+      if (payload.audioFormat && !this.setAudioFormat(context, payload.audioFormat)) return;
+      await this.startStt(context);
     });
 
-    socket.on("audio.chunk", async (chunk) => {
+    socket.on("audio.chunk", async (chunk, capturedAt) => {
       try {
-        await this.handleAudioChunk(sessionId, chunk);
+        await this.handleAudioChunk(sessionId, chunk, capturedAt);
       } catch (error) {
         console.error(`[orchestrator] error handling audio chunk:`, error);
         eventLogger.logError(sessionId, error as Error, { event: "audio.chunk" });
@@ -155,13 +363,18 @@ export class ProductionOrchestrator {
     });
 
     socket.on("client.toggle-autopilot", (on) => {
-      this.autopilot = on;
-      console.info(`[orchestrator] autopilot ${on ? "enabled" : "disabled"}`);
-      
-      socket.emit("server.ack", `autopilot ${on ? "enabled" : "disabled"}`);
-      socket.emit("state.snapshot", this.snapshot());
-      
-      eventLogger.logAutopilot(sessionId, on);
+      this.setAutopilot(context, on);
+    });
+
+    socket.on("client.thinking-cancel", () => {
+      // A generation still running is left to finish; its answer is discarded
+      const agent = context.thinking.cancel();
+      socket.emit("server.ack", agent ? `${agent} stopped thinking` : "nobody is thinking");
+    });
+
+    socket.on("client.thinking-extend", (extraMs) => {
+      const extended = context.thinking.extend(extraMs);
+      socket.emit("server.ack", extended ? "thinking extended" : "nobody is thinking");
     });
 
     socket.on("client.request-state", () => {
@@ -174,41 +387,533 @@ export class ProductionOrchestrator {
     });
   }
 
-  private async handleAudioChunk(sessionId: string, chunk: ArrayBuffer): Promise<void> {
+  private async handleAudioChunk(sessionId: string, chunk: ArrayBuffer, capturedAt?: number): Promise<void> {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
+    // The host mic is muted while the Showrunner runs the episode
+    if (this.autopilot) return;
+
     const buffer = Buffer.from(chunk);
-    
-    // Send to STT if available
-    // For now, this is a placeholder - will be wired when STT is fully integrated
-    
+    context.hostAudioAt = this.captureTime(context, capturedAt);
     // Record audio (for "you" speaker)
-    await context.recorder.writeAudioChunk("you", buffer);
+    await context.recorder.writeAudioChunk("you", buffer, context.audioFormat, context.hostAudioAt);
+
+    // Compressed host audio can be recorded but not heard
+    if (!context.speechConverter) return;
+    const speechAudio = context.speechConverter.convert(buffer);
+    const speech = context.vad.push(speechAudio);
+
+    if (context.vad.isSpeaking) {
+      // Keep held responses waiting while the host is mid-sentence
+      context.bargeIn.noteHostActivity();
+    }
+
+    // Forward to STT once the stream has been started by "hello"
+    if (context.sttActive) {
+      const audio = this.config.vadGating ? Buffer.concat(speech) : speechAudio;
+      if (audio.length > 0) {
+        context.stt.sendAudio?.(sessionId, this.toSttFormat(context, audio));
+        // What STT has heard ends with this chunk
+        const chunkMs = (speechAudio.length / (SPEECH_FORMAT.sampleRate * 2)) * 1000;
+        context.sttTimeline.sent(audio.length / (SPEECH_FORMAT.sampleRate * 2), context.hostAudioAt! + chunkMs);
+      }
+    }
   }
 
-  private handleSttTranscript(sessionId: string, text: string, isFinal: boolean): void {
+  /**
+   * Places a host chunk on the server clock. With a client capture timestamp
+   * the chunk lands where it was captured, however late it arrived; without
+   * one, at arrival.
+   */
+  private captureTime(context: SessionContext, capturedAt?: number): number {
+    const receivedAt = Date.now();
+    if (typeof capturedAt !== "number" || !Number.isFinite(capturedAt)) return receivedAt;
+
+    context.captureClockOffset = Math.min(context.captureClockOffset ?? Infinity, receivedAt - capturedAt);
+    return capturedAt + context.captureClockOffset;
+  }
+
+  /**
+   * Takes the format the client declared in hello. Returns false when host
+   * audio can't be transcribed in it; it is still recorded.
+   */
+  private setAudioFormat(context: SessionContext, declared: unknown): boolean {
+    const { sessionId, socket, eventLogger } = context;
+    let format: AudioFormat;
+    try {
+      format = parseAudioFormat(declared);
+    } catch (error) {
+      eventLogger.logError(sessionId, error as Error, { event: "hello", audioFormat: declared });
+      socket.emit("server.ack", `audio format rejected: ${(error as Error).message}`);
+      context.speechConverter = undefined;
+      return false;
+    }
+
+    context.audioFormat = format;
+    console.info(`[orchestrator] host audio for ${sessionId}: ${describeFormat(format)}`);
+    if (!isPcm(format)) {
+      context.speechConverter = undefined;
+      socket.emit("server.ack", `host audio is ${describeFormat(format)}; send PCM for VAD and captions`);
+      return false;
+    }
+
+    context.speechConverter = new AudioConverter(format, SPEECH_FORMAT);
+    return true;
+  }
+
+  private toSttFormat(context: SessionContext, audio: Buffer): Buffer {
+    const format = context.stt.inputFormat;
+    if (!context.sttConverter || !sameFormat(context.sttConverter.to, format)) {
+      context.sttConverter = new AudioConverter(SPEECH_FORMAT, format);
+    }
+    return context.sttConverter.convert(audio);
+  }
+
+  private async startStt(context: SessionContext): Promise<void> {
+    const { sessionId, socket, eventLogger } = context;
+    if (context.sttActive) return;
+
+    try {
+      await context.stt.start(sessionId);
+      context.sttTimeline.reset();
+      context.sttActive = true;
+      console.info(`[orchestrator] STT started for ${sessionId}`);
+    } catch (error) {
+      console.error(`[orchestrator] failed to start STT for ${sessionId}:`, error);
+      eventLogger.logError(sessionId, error as Error, { service: "stt", event: "start" });
+      socket.emit("server.ack", `stt error: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  }
+
+  private async stopStt(context: SessionContext): Promise<void> {
+    if (!context.sttActive) return;
+    context.sttActive = false;
+
+    try {
+      await context.stt.stop(context.sessionId);
+    } catch (error) {
+      console.error(`[orchestrator] failed to stop STT for ${context.sessionId}:`, error);
+      context.eventLogger.logError(context.sessionId, error as Error, { service: "stt", event: "stop" });
+    }
+  }
+
+  private handleSttTranscript(sessionId: string, text: string, isFinal: boolean, timing?: TranscriptTiming): void {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
     console.info(`[orchestrator] STT (${isFinal ? "final" : "partial"}): ${text}`);
 
-    if (isFinal) {
-      const caption: CaptionPayload = {
-        id: randomUUID(),
-        speaker: "you",
-        text,
-        timestamp: Date.now(),
-      };
+    if (!isFinal) {
+      // The host started talking over the agents
+      void context.bargeIn.trigger("you");
+      return;
+    }
+
+    // Anything still in progress or held is stale now that the host said
+    // something new (some STT providers only ever send finals)
+    void context.bargeIn.trigger("you");
+    context.bargeIn.release(false);
+    // The host moved on; an answer thought up for the last question would
+    // come too late, and the thinker would hold the floor from the new replies
+    context.thinking.cancel();
+
+    const caption: CaptionPayload = {
+      id: randomUUID(),
+      speaker: "you",
+      text,
+      timestamp: Date.now(),
+    };
+
+    this.addCaption(caption);
+    context.socket.emit("caption", caption);
+    const entry = context.recorder.addCaption("you", text, this.hostCaptionTiming(context, timing), caption.id);
+    context.eventLogger.logCaption(sessionId, entry);
+    context.eventLogger.logSttTranscript(sessionId, "you", text, true);
+
+    // Timings for every reply to this utterance
+    const heard = { speechEndAt: context.speechEndAt, sttFinalAt: caption.timestamp };
+    context.speechEndAt = undefined;
+
+    void this.respondToHost(context, text, heard);
+  }
+
+  /**
+   * Places a host caption on the recording: by the STT provider's word or
+   * segment times when it gives them, otherwise across the speech the VAD
+   * last heard.
+   */
+  private hostCaptionTiming(context: SessionContext, timing?: TranscriptTiming): CaptionTiming | undefined {
+    const { sttTimeline } = context;
+    if (timing) {
+      const start = sttTimeline.toTime(timing.start);
+      const end = sttTimeline.toTime(timing.end);
+      if (start !== undefined && end !== undefined) {
+        const words = timing.words?.map((word) => ({
+          text: word.word,
+          start: sttTimeline.toTime(word.start)!,
+          end: sttTimeline.toTime(word.end)!,
+        }));
+        return { start, end, words };
+      }
+    }
+    if (context.speechStartAt !== undefined && context.speechEndAt !== undefined) {
+      return { start: context.speechStartAt, end: context.speechEndAt };
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs one conversational turn: both agents generate a reply to the host in
+   * parallel, and replies are spoken one at a time in the order they finish.
+   */
+  private async respondToHost(context: SessionContext, text: string, heard?: HostTimings): Promise<void> {
+    const { sessionId, llms } = context;
+    const { responders, source, text: utterance } = context.addressing.resolve(text);
+    context.history.add("you", utterance);
+
+    // Addressed agents all answer; otherwise the free-flow policy decides
+    const policy: FreeFlowPolicy = source === "free-flow" ? this.config.freeFlowPolicy! : "both";
+    console.info(`[orchestrator] responders: ${responders.join(", ")} (${source}, ${policy})`);
+
+    const arbiter = createReplyArbiter(policy, responders, utterance, (agent) => {
+      void llms[agent].stop(sessionId);
+    });
+    await Promise.all(responders.map((agent) => this.runAgentTurn(context, agent, { arbiter, heard })));
+  }
+
+  /**
+   * Turns the Showrunner on or off. Autopilot mutes the host mic and runs the
+   * episode through the run of show without human input.
+   */
+  private setAutopilot(context: SessionContext, on: boolean): void {
+    const { sessionId, socket, eventLogger } = context;
+    if (this.autopilot === on) {
+      socket.emit("state.snapshot", this.snapshot());
+      return;
+    }
+
+    if (on && this.cost.isOverBudget) {
+      socket.emit("server.ack", `budget exceeded ($${this.cost.totalUsd.toFixed(2)}), autopilot unavailable`);
+      socket.emit("state.snapshot", this.snapshot());
+      return;
+    }
+
+    this.autopilot = on;
+    console.info(`[orchestrator] autopilot ${on ? "enabled" : "disabled"}`);
+    socket.emit("server.ack", `autopilot ${on ? "enabled" : "disabled"}`);
+    eventLogger.logAutopilot(sessionId, on);
+
+    if (!on) {
+      context.showrunner?.stop();
+      this.updateOrbState("you", "idle", socket);
+      socket.emit("state.snapshot", this.snapshot());
+      return;
+    }
+
+    // Drop anything the host was in the middle of saying
+    context.vad.reset();
+    context.bargeIn.release(false);
+    this.updateOrbState("you", "muted", socket);
+
+    const showrunner = new Showrunner({
+      sessionId,
+      eventLogger,
+      runTurn: (agent, segment, cue) => this.runAgentTurn(context, agent, { cue, segment }),
+      onSegmentChange: (payload) => {
+        this.segment = payload.segment ? payload : undefined;
+        socket.emit("segment.change", payload);
+      },
+    });
+    context.showrunner = showrunner;
+    socket.emit("state.snapshot", this.snapshot());
+
+    void showrunner.run().then((finished) => {
+      if (context.showrunner === showrunner) {
+        context.showrunner = undefined;
+      }
+      // The episode ran to the end; hand the mic back
+      if (finished && this.autopilot && this.activeSessions.has(sessionId)) {
+        this.setAutopilot(context, false);
+      }
+    });
+  }
+
+  /**
+   * Generates and speaks one agent's reply. Clauses are handed to TTS as soon
+   * as they complete, so speech starts on the first clause rather than the
+   * whole reply. With an `arbiter`, the reply is only spoken if the agent wins
+   * the free-flow policy. During Autopilot, `segment` may override the model.
+   */
+  private async runAgentTurn(context: SessionContext, agent: AgentId, options: AgentTurnOptions = {}): Promise<void> {
+    const { cue, arbiter, segment } = options;
+    const { sessionId, socket, eventLogger } = context;
+    const llm = context.llms[agent];
+    const request = context.history.buildRequest(agent, context.systemPrompts[agent], cue);
+    const settings = this.generationSettings(context, agent, segment);
+    if (Object.keys(settings).length > 0) {
+      request.settings = settings;
+    }
+
+    this.updateOrbState(agent, "thinking", socket);
+    const requestedModel = settings.model ?? llm.model;
+    eventLogger.logLlmStart(sessionId, agent, requestedModel, llm.id);
+    const startedAt = Date.now();
+    const epoch = context.bargeIn.beginGeneration(agent);
+    // Stamped stage by stage; recorded once the reply's first audio plays
+    const timings: TurnTimings = { turnId: randomUUID(), speaker: agent, ...options.heard, llmStartAt: startedAt };
+
+    let reply = "";
+    // Set once the agent asks for time to think; the reply after `answerStart` is the answer
+    let answer: Deferred<string> | undefined;
+    let answerStart = 0;
+    // Whether the arbiter has heard from this agent, and whether it lost
+    let claimed = false;
+    let lost = false;
+
+    // A relevance arbiter has to see the whole reply before anything is spoken
+    const streaming = !arbiter?.needsFullReply;
+    const speech = new SpeechQueue({ stop: () => context.tts[agent].stop(sessionId) });
+    let spoken: Promise<void> | undefined;
+
+    // Claims the floor with the first clause (or the whole reply) and queues playback
+    const takeFloor = (claim: string) => {
+      spoken ??= (async () => {
+        claimed = true;
+        if (arbiter && !(await arbiter.claim(agent, claim))) {
+          console.info(`[orchestrator] ${agent} yields the floor`);
+          lost = true;
+          void speech.cancel();
+          this.updateOrbState(agent, "idle", socket);
+          return;
+        }
+
+        // Only one agent holds the floor at a time
+        const turn = context.floor.then(async () => {
+          // A held reply resumes in a later epoch than it was generated in
+          const spokenIn = await this.speak(context, agent, speech, epoch, timings);
+          if (answer && spokenIn !== undefined) await this.think(context, agent, answer, spokenIn);
+        });
+        context.floor = turn;
+        await turn;
+      })();
+    };
+    const clauses = new ClauseBuffer({
+      onClause: (clause) => {
+        speech.enqueue(clause);
+        takeFloor(clause);
+      },
+    });
+    const abandon = () => {
+      clauses.cancel();
+      void speech.cancel();
+    };
+
+    try {
+      for await (const chunk of llm.generate(sessionId, request)) {
+        if (lost || arbiter?.isDropped(agent)) break;
+        timings.firstTokenAt ??= Date.now();
+        reply += chunk;
+        eventLogger.logLlmChunk(sessionId, agent, chunk);
+        if (answer) continue;
+
+        const trigger = splitThinkingTrigger(reply);
+        if (trigger) {
+          // Speak the request for time; the rest is held until thinking ends
+          answer = deferred<string>();
+          answerStart = reply.length - trigger.rest.length;
+          if (!streaming) takeFloor(trigger.ask);
+          clauses.push(streaming ? reply.slice(reply.length - chunk.length, answerStart) : trigger.ask);
+          clauses.flush();
+          speech.close();
+        } else if (streaming) {
+          clauses.push(chunk);
+        }
+      }
+    } catch (error) {
+      abandon();
+      answer?.reject(error as Error);
+      if (!claimed) arbiter?.withdraw(agent);
+      if (!context.bargeIn.isStale(epoch) && !arbiter?.isDropped(agent)) {
+        console.error(`[orchestrator] LLM error for ${agent}:`, error);
+        eventLogger.logError(sessionId, error as Error, { service: "llm", speaker: agent });
+        this.updateOrbState(agent, "error", socket);
+      }
+      return;
+    } finally {
+      context.bargeIn.endGeneration(agent);
+    }
+
+    // A failover adapter may have handed the request to a fallback and its own model
+    const served = llm.served ?? { provider: llm.id, model: requestedModel };
+    eventLogger.logLlmComplete(sessionId, agent, Date.now() - startedAt, served.model, served.provider);
+    context.recorder.recordModel(agent, served.model ?? served.provider);
+
+    // Cut off by the host mid-generation; the rest of the reply is never spoken
+    if (context.bargeIn.isStale(epoch)) {
+      abandon();
+      answer?.reject(new Error("interrupted"));
+      if (!claimed) arbiter?.withdraw(agent);
+      return;
+    }
+
+    if (answer) {
+      answer.resolve(reply.slice(answerStart));
+      await spoken;
+      return;
+    }
+
+    if (lost || arbiter?.isDropped(agent) || !this.activeSessions.has(sessionId)) {
+      abandon();
+    } else {
+      if (!streaming && reply.trim()) {
+        takeFloor(reply.trim());
+        clauses.push(reply);
+      }
+      clauses.flush();
+      speech.close();
+    }
+
+    if (!spoken) {
+      if (!claimed) arbiter?.withdraw(agent);
+      this.updateOrbState(agent, "idle", socket);
+      return;
+    }
+    await spoken;
+  }
+
+  /**
+   * Runs the thinking period after the spoken request for time, then speaks
+   * the answer unless the host cancelled.
+   */
+  private async think(context: SessionContext, agent: AgentId, answer: Deferred<string>, epoch: number): Promise<void> {
+    if (context.bargeIn.isStale(epoch) || !this.activeSessions.has(context.sessionId)) return;
+
+    const outcome = await context.thinking.think(agent, answer.promise);
+    if (outcome.status === "answered") {
+      await this.speakText(context, agent, `${THINKING_LEAD_IN} ${outcome.text}`, epoch);
+    }
+  }
+
+  /**
+   * Model settings for one turn: briefing frontmatter over the adapter's
+   * defaults, then the segment's own overrides, then the briefing's overrides
+   * for that segment.
+   */
+  private generationSettings(
+    context: SessionContext,
+    agent: AgentId,
+    segment?: SegmentDefinition
+  ): GenerationSettings {
+    const metadata = context.briefing?.metadata;
+    return {
+      ...metadata?.generation?.[agent],
+      ...segment?.generation?.[agent],
+      ...(segment && metadata?.segmentGeneration?.[segment.id]?.[agent]),
+    };
+  }
+
+  private async speakText(context: SessionContext, agent: AgentId, text: string, epoch: number): Promise<void> {
+    const speech = new SpeechQueue({ stop: () => context.tts[agent].stop(context.sessionId) });
+    const clauses = new ClauseBuffer({ onClause: (clause) => speech.enqueue(clause) });
+    clauses.push(text);
+    clauses.flush();
+    speech.close();
+    await this.speak(context, agent, speech, epoch);
+  }
+
+  /**
+   * Plays a queued utterance clause by clause. The caption grows as clauses
+   * are spoken; the utterance goes into history once it finishes uninterrupted.
+   * Returns the epoch it was spoken in, or undefined if it was dropped while
+   * waiting for the floor.
+   */
+  private async speak(
+    context: SessionContext,
+    agent: AgentId,
+    speech: SpeechQueue,
+    epoch: number,
+    timings?: TurnTimings
+  ): Promise<number | undefined> {
+    const { sessionId, socket, eventLogger } = context;
+
+    // Wait out the host if they barged in; the reply may be dropped meanwhile
+    if (!this.activeSessions.has(sessionId) || !(await context.bargeIn.acquireFloor(agent, epoch))) {
+      await speech.cancel();
+      return undefined;
+    }
+
+    // The utterance id ties the caption, audio chunks and log events together
+    const utteranceId = randomUUID();
+    const utterance: UtteranceState = {
+      speaker: agent,
+      text: "",
+      startedAt: Date.now(),
+      audioBytes: 0,
+      failed: false,
+      turnId: timings?.turnId ?? utteranceId,
+      timings,
+    };
+    context.utterances.set(utteranceId, utterance);
+
+    this.updateOrbState(agent, "speaking", socket);
+    // Only a barge-in from here on cuts the utterance short
+    const speakingEpoch = context.bargeIn.beginSpeaking(agent);
 
-      this.addCaption(caption);
-      context.socket.emit("caption", caption);
-      context.recorder.addCaption("you", text);
-      context.eventLogger.logSttTranscript(sessionId, "you", text, true);
+    try {
+      await speech.play({
+        shouldContinue: () => !context.bargeIn.isStale(speakingEpoch) && this.activeSessions.has(sessionId),
+        onClauseStart: (clause) => {
+          if (timings) timings.firstClauseAt ??= Date.now();
+          this.captionClause(context, utterance);
+          utterance.clause = { text: clause };
+          utterance.text = utterance.text ? `${utterance.text} ${clause}` : clause;
+          utterance.audioBytes = 0;
+
+          // Same id each time, so clients replace the caption as it grows
+          const caption: CaptionPayload = {
+            id: utteranceId,
+            speaker: agent,
+            text: utterance.text,
+            timestamp: utterance.startedAt,
+          };
+          this.addCaption(caption);
+          socket.emit("caption", caption);
 
-      // Update orb state
-      this.updateOrbState("you", "listening", context.socket);
+          eventLogger.logTtsStart(sessionId, agent, clause, utteranceId);
+          context.bargeIn.speakClause(agent, clause);
+        },
+        synthesize: (clause) => context.tts[agent].synthesize(sessionId, clause, utteranceId),
+        onError: (_clause, error) => this.handleTtsError(sessionId, error, { speaker: agent, utteranceId }),
+      });
+
+      // An interrupted utterance was already recorded in history as heard
+      const { interrupted } = context.bargeIn.endSpeaking(agent);
+      if (!interrupted && !speech.isCancelled && utterance.text) {
+        context.history.add(agent, utterance.text);
+      }
+      if (!interrupted) {
+        this.updateOrbState(agent, utterance.failed ? "error" : "idle", socket);
+      }
+    } finally {
+      this.captionClause(context, utterance);
+      context.utterances.delete(utteranceId);
     }
+    return speakingEpoch;
+  }
+
+  /**
+   * Records the caption for the clause just played, timed by where its audio
+   * landed on the agent's track.
+   */
+  private captionClause(context: SessionContext, utterance: UtteranceState): void {
+    const clause = utterance.clause;
+    if (!clause) return;
+    utterance.clause = undefined;
+
+    const timing = clause.start !== undefined ? { start: clause.start, end: clause.end! } : undefined;
+    const entry = context.recorder.addCaption(utterance.speaker, clause.text, timing, utterance.turnId);
+    context.eventLogger.logCaption(context.sessionId, entry);
   }
 
   private handleSttError(sessionId: string, error: Error): void {
@@ -220,34 +925,123 @@ export class ProductionOrchestrator {
     context.socket.emit("server.ack", `stt error: ${error.message}`);
   }
 
-  private handleTtsAudioChunk(sessionId: string, audioChunk: Buffer): void {
+  private async handleTtsAudioChunk(
+    sessionId: string,
+    audioChunk: Buffer,
+    utterance: TtsUtterance,
+    format: AudioFormat
+  ): Promise<void> {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    const state = context.utterances.get(utterance.utteranceId);
+    if (state) {
+      state.audioBytes += audioChunk.length;
+      if (state.timings && state.timings.firstAudioAt === undefined) {
+        state.timings.firstAudioAt = Date.now();
+        this.recordLatency(context, state.timings);
+      }
+    }
+    const clause = state?.clause;
+    const placed = await context.recorder.writeAudioChunk(utterance.speaker, audioChunk, format);
+    if (clause && placed) {
+      clause.start ??= placed.start;
+      clause.end = placed.end;
+    }
+  }
+
+  private recordLatency(context: SessionContext, timings: TurnTimings): void {
+    const latency = this.latency.record(timings);
+    context.eventLogger.logTurnLatency(context.sessionId, timings, latency);
+    context.socket.emit("latency.update", this.latency.stats());
+  }
+
+  private handleTtsComplete(sessionId: string, utterance: TtsUtterance): void {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    const state = context.utterances.get(utterance.utteranceId);
+    console.info(`[orchestrator] TTS complete for ${utterance.speaker} (${utterance.utteranceId})`);
+    context.eventLogger.logTtsComplete(sessionId, utterance.speaker, utterance.utteranceId, state?.audioBytes);
+  }
+
+  private handleTtsError(sessionId: string, error: Error, utterance: TtsUtterance): void {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    const state = context.utterances.get(utterance.utteranceId);
+    if (state) {
+      state.failed = true;
+    }
+
+    console.error(`[orchestrator] TTS error for ${utterance.speaker} in ${sessionId}:`, error);
+    context.eventLogger.logError(sessionId, error, {
+      service: "tts",
+      speaker: utterance.speaker,
+      utteranceId: utterance.utteranceId,
+    });
+  }
+
+  private handleFailover(sessionId: string, event: FailoverEvent): void {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
-    // Determine which speaker is currently speaking
-    // This will be tracked in session context
-    const speaker: SpeakerId = "claude"; // Placeholder
-    context.recorder.writeAudioChunk(speaker, audioChunk);
+    context.eventLogger.logError(sessionId, event.error, {
+      service: event.role,
+      provider: event.from,
+      speaker: event.speaker,
+    });
+    context.eventLogger.logFailover(sessionId, event);
+    // The next STT provider's transcripts count from its own stream start
+    if (event.role === "stt") context.sttTimeline.reset();
+    if (event.to) {
+      context.socket.emit("server.ack", `${event.role} failed over from ${event.from} to ${event.to}`);
+    }
   }
 
-  private handleTtsComplete(sessionId: string): void {
+  /**
+   * A rate-limited or overloaded LLM is backing off. The agent stays in the
+   * thinking state and the host sees why the reply is slow.
+   */
+  private handleLlmRetry(sessionId: string, event: RetryEvent & { speaker: AgentId }): void {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
-    console.info(`[orchestrator] TTS complete for ${sessionId}`);
-    context.eventLogger.logTtsComplete(sessionId, "claude");
+    context.eventLogger.logLlmRetry(sessionId, event);
+    this.updateOrbState(event.speaker, "thinking", context.socket);
+    const reason = event.status ? `${event.provider} returned ${event.status}` : `${event.provider} unreachable`;
+    context.socket.emit(
+      "server.ack",
+      `${event.speaker} is waiting on ${reason}, retrying in ${Math.ceil(event.delayMs / 1000)}s (${event.attempt}/${event.maxRetries})`
+    );
   }
 
-  private handleTtsError(sessionId: string, error: Error): void {
+  private handleUsage(sessionId: string, usage: UsageReport): void {
     const context = this.activeSessions.get(sessionId);
+    this.cost.record(usage);
     if (!context) return;
 
-    console.error(`[orchestrator] TTS error for ${sessionId}:`, error);
-    context.eventLogger.logError(sessionId, error, { service: "tts" });
+    const { role, provider, model, speaker, inputTokens, outputTokens, audioSeconds, characters, costUsd } = usage;
+    context.eventLogger.logUsage(
+      sessionId,
+      { role, provider, model, speaker, inputTokens, outputTokens, audioSeconds, characters, costUsd },
+      this.cost.totalUsd
+    );
+    context.socket.emit("cost.update", this.cost.summary());
+
+    // The hard budget only stops Autopilot; the host can still talk to the agents
+    if (this.cost.isOverBudget && this.autopilot) {
+      const budget = this.config.budgetUsd!;
+      console.warn(`[orchestrator] budget of $${budget} exceeded ($${this.cost.totalUsd.toFixed(2)}), stopping autopilot`);
+      context.eventLogger.logBudgetExceeded(sessionId, this.cost.totalUsd, budget);
+      context.socket.emit("server.ack", `budget exceeded ($${this.cost.totalUsd.toFixed(2)} of $${budget})`);
+      this.setAutopilot(context, false);
+    }
   }
 
   private addCaption(caption: CaptionPayload): void {
-    this.captions = [caption, ...this.captions].slice(0, 20);
+    const others = this.captions.filter((existing) => existing.id !== caption.id);
+    this.captions = [caption, ...others].slice(0, 20);
   }
 
   private updateOrbState(
@@ -270,7 +1064,16 @@ export class ProductionOrchestrator {
     if (!context) return;
 
     try {
+      // Stop the STT stream before closing the recording
+      clearInterval(context.monitorTimer);
+      context.bargeIn.dispose();
+      context.thinking.dispose();
+      context.showrunner?.stop();
+      await this.stopStt(context);
+
       // Stop recording and save files
+      context.recorder.setUsage(this.cost.summary());
+      context.recorder.setLatency(this.latency.summary());
       const files = await context.recorder.stop();
       console.info(`[orchestrator] recording stopped, files: ${files.join(", ")}`);
       
@@ -292,9 +1095,26 @@ export class ProductionOrchestrator {
       orbStates: { ...this.orbStates },
       captions: [...this.captions].slice(0, 6),
       autopilot: this.autopilot,
+      segment: this.segment,
+      cost: this.cost.summary(),
+      latency: this.latency.stats(),
     };
   }
 
+  /**
+   * Turn latency percentiles in Prometheus text format, for /metrics.
+   */
+  metrics(): string {
+    return this.latency.prometheus();
+  }
+
+  /**
+   * Adapter readiness for /health. Mock adapters are always ready.
+   */
+  async adapterStatus(): Promise<AdapterStatus> {
+    return (await this.adapterFactory.status?.()) ?? { ready: true, providers: [] };
+  }
+
   async shutdown(): Promise<void> {
     console.info("[orchestrator] shutting down...");
     
@@ -311,7 +1131,95 @@ interface SessionContext {
   socket: Socket<ClientToServerEvents, ServerToClientEvents>;
   eventLogger: EventLogger;
   recorder: RecorderService;
-  briefing?: any;
+  briefing?: ParsedBriefing;
+  stt: SttAdapter;
+  sttActive: boolean;
+  // Host audio as the client sends it; SPEECH_FORMAT until hello says otherwise
+  audioFormat: AudioFormat;
+  // Client audio → VAD; absent when the client sends compressed audio
+  speechConverter?: AudioConverter;
+  // VAD → STT, rebuilt when a failover changes the STT input format
+  sttConverter?: AudioConverter;
+  tts: Record<AgentId, TtsAdapter>;
+  llms: Record<AgentId, LlmAdapter>;
+  history: ConversationHistory;
+  bargeIn: BargeInController;
+  vad: VoiceActivityWorker;
+  thinking: ThinkingModeController;
+  addressing: AddressingResolver;
+  // Set while Autopilot is running the episode
+  showrunner?: Showrunner;
+  systemPrompts: Record<AgentId, string>;
+  // Tail of the speaking queue; agents take the floor in turn
+  floor: Promise<void>;
+  // Utterances currently being synthesized, by utterance id
+  utterances: Map<string, UtteranceState>;
   isRecording: boolean;
   isSpeaking: boolean;
+  // When the VAD last heard the host stop, until a final transcript claims it
+  speechEndAt?: number;
+  // Smallest (arrival - capture) time seen for host audio: the client clock's
+  // offset from ours plus the least network delay
+  captureClockOffset?: number;
+  // Capture time of the host chunk being processed, for placing VAD events
+  hostAudioAt?: number;
+  // When the VAD last heard the host start, for captions STT didn't time
+  speechStartAt?: number;
+  // STT stream time → server time, for host captions
+  sttTimeline: SttTimeline;
+  // Sends the monitor mix while MONITOR_MIX is on
+  monitorTimer?: NodeJS.Timeout;
+}
+
+interface UtteranceState {
+  speaker: AgentId;
+  text: string;
+  startedAt: number;
+  audioBytes: number;
+  failed: boolean;
+  // Groups the utterance's captions in the transcript
+  turnId: string;
+  // The turn this utterance answers, until its first audio is timed
+  timings?: TurnTimings;
+  // Clause being played, and where its audio landed (server time)
+  clause?: { text: string; start?: number; end?: number };
+}
+
+// When the host finished the utterance an agent turn replies to
+type HostTimings = Pick<TurnTimings, "speechEndAt" | "sttFinalAt">;
+
+interface AgentTurnOptions {
+  // Showrunner cue sent as the last user message
+  cue?: string;
+  // Decides who speaks when the host addressed nobody
+  arbiter?: ReplyArbiter;
+  // Autopilot segment, which may override the model
+  segment?: SegmentDefinition;
+  heard?: HostTimings;
+}
+
+function parseFreeFlowPolicy(value: string | undefined): FreeFlowPolicy {
+  if (!value) return "first-complete";
+  if (FREE_FLOW_POLICIES.includes(value as FreeFlowPolicy)) return value as FreeFlowPolicy;
+
+  console.warn(`[orchestrator] unknown FREE_FLOW_POLICY "${value}", using first-complete`);
+  return "first-complete";
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Rejections are handled by whoever awaits; don't crash if nobody does
+  promise.catch(() => {});
+  return { promise, resolve, reject };
 }
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { AddressingResolver, createReplyArbiter, scoreRelevance } from "./addressing";
+
+describe("AddressingResolver", () => {
+  const resolver = new AddressingResolver({ names: { guest: ["Grok"] } });
+
+  it.each([
+    ["Claude, what do you think about that?", ["claude"]],
+    ["Okay Claude, your turn.", ["claude"]],
+    ["Hey Claude can you explain?", ["claude"]],
+    ["Is that really true, Claude?", ["claude"]],
+    ["Let's hear from our guest.", ["guest"]],
+    ["Over to the guest.", ["guest"]],
+    ["Grok, do you agree?", ["guest"]],
+    ["What does Grok think?", ["guest"]],
+    ["What do you both think?", ["claude", "guest"]],
+    ["Claude and Grok, which of you disagrees?", ["claude", "guest"]],
+  ])("should resolve %j from spoken cues", (text, expected) => {
+    const result = resolver.resolve(text);
+    expect(result.responders).toEqual(expected);
+    expect(result.source).toBe("cue");
+  });
+
+  it("should not treat passing mentions as addressing", () => {
+    const result = resolver.resolve("I agree with what Claude said earlier about latency.");
+
+    expect(result.source).toBe("free-flow");
+    expect(result.responders).toEqual(["claude", "guest"]);
+  });
+
+  it("should prefer explicit tags and strip them", () => {
+    const result = resolver.resolve('Okay. <to name="Grok">Can you argue the opposite?</to>');
+
+    expect(result).toEqual({
+      responders: ["guest"],
+      source: "tag",
+      text: "Okay. Can you argue the opposite?",
+    });
+  });
+
+  it("should ignore tags for unknown names", () => {
+    const result = resolver.resolve('<to name="Alice">Hello there, Claude.</to>');
+
+    expect(result.source).toBe("cue");
+    expect(result.responders).toEqual(["claude"]);
+    expect(result.text).toBe("Hello there, Claude.");
+  });
+});
+
+describe("scoreRelevance", () => {
+  it("should favor replies that pick up the question", () => {
+    const question = "How do small models handle privacy on phones?";
+
+    expect(scoreRelevance(question, "Small models keep data on phones, which helps privacy.")).toBeGreaterThan(
+      scoreRelevance(question, "Great question, let me think.")
+    );
+  });
+
+  it("should score an empty reply as zero", () => {
+    expect(scoreRelevance("anything", "")).toBe(0);
+  });
+});
+
+describe("createReplyArbiter", () => {
+  it("should let everyone speak under the both policy", async () => {
+    const arbiter = createReplyArbiter("both", ["claude", "guest"], "hi", vi.fn());
+
+    await expect(arbiter.claim("guest", "a")).resolves.toBe(true);
+    await expect(arbiter.claim("claude", "b")).resolves.toBe(true);
+  });
+
+  it("should drop the others once someone finishes first", async () => {
+    const onDrop = vi.fn();
+    const arbiter = createReplyArbiter("first-complete", ["claude", "guest"], "hi", onDrop);
+
+    await expect(arbiter.claim("guest", "first")).resolves.toBe(true);
+    expect(onDrop).toHaveBeenCalledWith("claude");
+    expect(arbiter.isDropped("claude")).toBe(true);
+    await expect(arbiter.claim("claude", "second")).resolves.toBe(false);
+  });
+
+  it("should wait for all replies and pick the most relevant", async () => {
+    const arbiter = createReplyArbiter("relevance", ["claude", "guest"], "Is latency the main problem?", vi.fn());
+
+    const claude = arbiter.claim("claude", "Latency is the main problem for voice.");
+    let settled = false;
+    void claude.then(() => (settled = true));
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    const guest = arbiter.claim("guest", "Hmm.");
+    await expect(claude).resolves.toBe(true);
+    await expect(guest).resolves.toBe(false);
+  });
+
+  it("should decide without agents that withdrew", async () => {
+    const arbiter = createReplyArbiter("relevance", ["claude", "guest"], "hi", vi.fn());
+
+    const guest = arbiter.claim("guest", "Hello!");
+    arbiter.withdraw("claude");
+
+    await expect(guest).resolves.toBe(true);
+  });
+});
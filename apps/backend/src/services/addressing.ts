@@ -0,0 +1,245 @@
+import type { AgentId } from "@basil/shared";
+
+/**
+ * How to pick responders when the host doesn't address anyone:
+ * - "first-complete": both generate; whoever has a first clause ready speaks
+ * - "relevance": both generate; the reply that best fits the utterance speaks
+ * - "both": both speak, in the order they finish
+ */
+export type FreeFlowPolicy = "first-complete" | "relevance" | "both";
+
+export const FREE_FLOW_POLICIES: FreeFlowPolicy[] = ["first-complete", "relevance", "both"];
+
+export interface AddressingResult {
+  responders: AgentId[];
+  // "tag": <to name="..."> tags; "cue": spoken cue; "free-flow": nobody addressed
+  source: "tag" | "cue" | "free-flow";
+  // Utterance with addressing tags removed
+  text: string;
+}
+
+interface AddressingConfig {
+  agents?: AgentId[];
+  // Names each agent answers to, e.g. { guest: ["Grok"] }; "Claude" and
+  // "guest" are always recognized
+  names?: Partial<Record<AgentId, string[]>>;
+}
+
+const DEFAULT_NAMES: Record<AgentId, string[]> = {
+  claude: ["Claude"],
+  guest: ["guest", "our guest", "the guest"],
+};
+
+const TAG_PATTERN = /<to\s+name\s*=\s*["']([^"']+)["']\s*>([\s\S]*?)<\/to>/gi;
+const BOTH_PATTERN = /\b(?:both of you|you both|you two|each of you|either of you|everyone|everybody)\b/i;
+
+/**
+ * Works out which agent(s) a host utterance is addressed to, from explicit
+ * `<to name="...">` tags or spoken cues ("Claude, what do you think...",
+ * "let's hear from our guest"). Mentioning an agent in passing ("I agree
+ * with Claude") doesn't count as addressing them.
+ */
+export class AddressingResolver {
+  private agents: AgentId[];
+  private names: Record<AgentId, string[]>;
+
+  constructor(config: AddressingConfig = {}) {
+    this.agents = config.agents ?? ["claude", "guest"];
+    this.names = { ...DEFAULT_NAMES };
+    for (const agent of this.agents) {
+      this.names[agent] = [...DEFAULT_NAMES[agent], ...(config.names?.[agent] ?? [])];
+    }
+  }
+
+  resolve(utterance: string): AddressingResult {
+    const tagged = new Set<AgentId>();
+    const text = utterance
+      .replace(TAG_PATTERN, (_match, name: string, body: string) => {
+        const agent = this.agentNamed(name);
+        if (agent) tagged.add(agent);
+        return body;
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (tagged.size > 0) {
+      return { responders: this.agents.filter((agent) => tagged.has(agent)), source: "tag", text };
+    }
+
+    const cued = this.spokenCues(text);
+    if (cued.length > 0) {
+      return { responders: cued, source: "cue", text };
+    }
+
+    return { responders: [...this.agents], source: "free-flow", text };
+  }
+
+  private spokenCues(text: string): AgentId[] {
+    if (BOTH_PATTERN.test(text)) {
+      return [...this.agents];
+    }
+
+    // A list of names opening the utterance: "Claude and Grok, ..."
+    const names = this.agents.flatMap((agent) => this.names[agent]).map(escapeRegExp).join("|");
+    const list = new RegExp(
+      `^(?:(?:ok(?:ay)?|so|hey|alright)[,\\s]+)*((?:${names})(?:\\s*(?:,|and|&)\\s*(?:${names}))+)\\s*[,:!?]`,
+      "i"
+    ).exec(text);
+    if (list) {
+      const listed = list[1].toLowerCase();
+      return this.agents.filter((agent) =>
+        this.names[agent].some((name) => new RegExp(`\\b${escapeRegExp(name.toLowerCase())}\\b`).test(listed))
+      );
+    }
+
+    return this.agents.filter((agent) =>
+      this.names[agent].some((name) => addressesName(text, name))
+    );
+  }
+
+  private agentNamed(name: string): AgentId | undefined {
+    const normalized = name.trim().toLowerCase();
+    return this.agents.find(
+      (agent) => agent === normalized || this.names[agent].some((alias) => alias.toLowerCase() === normalized)
+    );
+  }
+}
+
+function addressesName(text: string, name: string): boolean {
+  const n = escapeRegExp(name);
+  const patterns = [
+    // Vocative at the start: "Claude, ...", "Okay Claude, ...", "Hey guest ..."
+    new RegExp(`^(?:(?:ok(?:ay)?|so|hey|and|now|alright|right|well)[,\\s]+)*${n}\\b[,:!?]`, "i"),
+    new RegExp(`^(?:hey|ok(?:ay)?)\\s+${n}\\b`, "i"),
+    // Vocative at the end: "..., Claude?"
+    new RegExp(`,\\s*${n}\\s*[?.!]*$`, "i"),
+    // Handing over: "let's hear from our guest", "over to Claude", "your turn, Claude"
+    new RegExp(`\\b(?:hear from|over to|turn to|go to|back to|question for|question to|ask)\\s+${n}\\b`, "i"),
+    new RegExp(`\\b(?:what does|what would|how does|how would|does|would)\\s+${n}\\s+(?:think|say|make|feel|respond)\\b`, "i"),
+    new RegExp(`\\b${n}'s\\s+(?:turn|take|view)\\b`, "i"),
+  ];
+  return patterns.some((pattern) => pattern.test(text));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an the and or but if then so to of in on at for with about from by as is are was were be been " +
+    "it its this that these those i you he she we they me my your our their what which who how why " +
+    "do does did can could would should will just really very think know like not no yes"
+  ).split(" ")
+);
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+  );
+}
+
+/**
+ * Cheap relevance score in [0, 1]: how many of the utterance's content words
+ * the reply picks up, with a small penalty for very short replies.
+ */
+export function scoreRelevance(utterance: string, reply: string): number {
+  const asked = contentWords(utterance);
+  const answered = contentWords(reply);
+  if (answered.size === 0) return 0;
+
+  let overlap = 0;
+  for (const word of asked) {
+    if (answered.has(word)) overlap++;
+  }
+  const coverage = asked.size > 0 ? overlap / asked.size : 0;
+  const substance = Math.min(1, answered.size / 12);
+  return 0.8 * coverage + 0.2 * substance;
+}
+
+export interface ReplyArbiter {
+  // Claims need the whole reply; otherwise the first clause is enough
+  readonly needsFullReply: boolean;
+  // Resolves whether `agent` may speak `reply`
+  claim(agent: AgentId, reply: string): Promise<boolean>;
+  // The agent finished without a reply (failed, empty or interrupted)
+  withdraw(agent: AgentId): void;
+  // The agent lost and its generation should be abandoned
+  isDropped(agent: AgentId): boolean;
+}
+
+/**
+ * Arbitrates between agents generating in parallel under a free-flow policy.
+ * `onDrop` is called for agents whose generation is no longer needed.
+ */
+export function createReplyArbiter(
+  policy: FreeFlowPolicy,
+  agents: AgentId[],
+  utterance: string,
+  onDrop: (agent: AgentId) => void
+): ReplyArbiter {
+  const dropped = new Set<AgentId>();
+  const drop = (agent: AgentId) => {
+    if (dropped.has(agent)) return;
+    dropped.add(agent);
+    onDrop(agent);
+  };
+
+  if (policy === "both") {
+    return {
+      needsFullReply: false,
+      claim: async () => true,
+      withdraw: () => {},
+      isDropped: () => false,
+    };
+  }
+
+  if (policy === "first-complete") {
+    let winner: AgentId | undefined;
+    return {
+      needsFullReply: false,
+      claim: async (agent) => {
+        if (winner && winner !== agent) return false;
+        winner = agent;
+        for (const other of agents) {
+          if (other !== agent) drop(other);
+        }
+        return true;
+      },
+      withdraw: () => {},
+      isDropped: (agent) => dropped.has(agent),
+    };
+  }
+
+  // Relevance: wait for every agent, then the best-scoring reply wins
+  const pending = new Set(agents);
+  const claims = new Map<AgentId, { score: number; resolve: (speak: boolean) => void }>();
+  const decide = () => {
+    if (pending.size > 0) return;
+    let best: AgentId | undefined;
+    for (const [agent, { score }] of claims) {
+      if (!best || score > claims.get(best)!.score) best = agent;
+    }
+    for (const [agent, { resolve }] of claims) {
+      resolve(agent === best);
+    }
+  };
+
+  return {
+    needsFullReply: true,
+    claim: (agent, reply) =>
+      new Promise<boolean>((resolve) => {
+        claims.set(agent, { score: scoreRelevance(utterance, reply), resolve });
+        pending.delete(agent);
+        decide();
+      }),
+    withdraw: (agent) => {
+      if (!pending.delete(agent)) return;
+      decide();
+    },
+    isDropped: (agent) => dropped.has(agent),
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { AudioBus, decodePcm16, encodePcm16 } from "./audio-bus";
+import { WavWriter } from "./audio-writer";
+import { LoudnessMeter } from "./loudness";
+
+const testDir = "./test-audio-bus";
+
+function sine(seconds: number, amplitude: number): Float32Array {
+  return Float32Array.from({ length: seconds * 48000 }, (_, i) => amplitude * Math.sin((2 * Math.PI * 997 * i) / 48000));
+}
+
+async function writeTrack(name: string, samples: Float32Array): Promise<string> {
+  await fs.mkdir(testDir, { recursive: true });
+  const filePath = path.join(testDir, name);
+  const writer = new WavWriter(filePath, { encoding: "pcm_s16le", sampleRate: 48000, channels: 1 });
+  writer.write(encodePcm16(samples));
+  await writer.close();
+  return filePath;
+}
+
+async function readTrack(filePath: string): Promise<Float32Array> {
+  return decodePcm16((await fs.readFile(filePath)).subarray(44));
+}
+
+// RMS over a window, in dB
+function levelDb(samples: Float32Array, from: number, to: number): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return 10 * Math.log10(sum / (to - from));
+}
+
+describe("AudioBus", () => {
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should normalize the export to the target loudness", async () => {
+    const bus = new AudioBus(48000);
+    const tracks = new Map([["guest" as const, await writeTrack("guest.wav", sine(3, 0.1))]]);
+    const output = path.join(testDir, "mix.wav");
+
+    const result = await bus.export(tracks, output, -14);
+
+    expect(result.loudnessLufs).toBeCloseTo(-23, 0);
+    expect(result.gainDb).toBeCloseTo(9, 0);
+    const meter = new LoudnessMeter();
+    meter.push(await readTrack(output));
+    expect(meter.integrated).toBeCloseTo(-14, 0);
+  });
+
+  it("should keep peaks below -1 dBFS rather than reach the target", async () => {
+    const quiet = sine(3, 0.02);
+    quiet[1000] = 0.9;
+    const bus = new AudioBus(48000);
+    const tracks = new Map([["claude" as const, await writeTrack("claude.wav", quiet)]]);
+
+    const result = await bus.export(tracks, path.join(testDir, "mix.wav"), -14);
+
+    expect(result.gainDb).toBeCloseTo(-1 - 20 * Math.log10(0.9), 1);
+    expect(result.outputLufs).toBeLessThan(-14);
+  });
+
+  it("should duck agent busses by the configured amount while the host speaks", async () => {
+    const bus = new AudioBus(48000, { duckDb: 12 });
+    bus.markHostSpeech(true, 48000);
+    bus.markHostSpeech(false, 96000);
+    const tracks = new Map([
+      ["claude" as const, await writeTrack("claude.wav", sine(4, 0.25))],
+      ["you" as const, await writeTrack("you.wav", new Float32Array(4 * 48000))],
+    ]);
+    const output = path.join(testDir, "mix.wav");
+
+    await bus.export(tracks, output, -14);
+
+    const mix = await readTrack(output);
+    const before = levelDb(mix, 24000, 48000);
+    const ducked = levelDb(mix, 72000, 96000);
+    // Once the release has run its course
+    const after = levelDb(mix, 180000, 192000);
+    expect(before - ducked).toBeCloseTo(12, 0);
+    expect(after).toBeCloseTo(before, 0);
+  });
+
+  it("should not duck the host bus", async () => {
+    const bus = new AudioBus(48000, { duckDb: 12 });
+    bus.markHostSpeech(true, 0);
+    const tracks = new Map([["you" as const, await writeTrack("you.wav", sine(2, 0.25))]]);
+    const output = path.join(testDir, "mix.wav");
+
+    const result = await bus.export(tracks, output, -14);
+
+    expect(result.loudnessLufs).toBeCloseTo(-15.05, 0);
+  });
+
+  it("should mix live audio for the monitor as its frames come due", () => {
+    const bus = new AudioBus(48000, { duckDb: 0 });
+    bus.push("you", 0, new Float32Array(200).fill(0.25));
+    bus.push("claude", 100, new Float32Array(50).fill(0.5));
+
+    const first = bus.takeMonitorMix(120);
+    const second = bus.takeMonitorMix(200);
+
+    expect(first.length).toBe(120);
+    expect(first[99]).toBe(0.25);
+    expect(first[100]).toBe(0.75);
+    expect(second.length).toBe(80);
+    expect(second[29]).toBe(0.75);
+    expect(second[30]).toBe(0.25);
+    expect(bus.takeMonitorMix(200).length).toBe(0);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * The spec's Audio Bus Manager: one bus per speaker, summed into a live
+ * monitor mix and into the exported mix.wav. Agent busses duck while the
+ * VAD hears the host, and the export is normalized for YouTube.
+ *
+ * Busses share the recorder's timeline: mono at one sample rate, frame 0 at
+ * the recording start.
+ */
+import { promises as fs } from "node:fs";
+import type { SpeakerId } from "@basil/shared";
+import { WavWriter } from "./audio-writer.js";
+import { LoudnessMeter } from "./loudness.js";
+
+export interface DuckingConfig {
+  // How far agent busses drop while the host speaks; 0 turns ducking off
+  duckDb?: number;
+  // How quickly they drop, and recover once the host stops
+  attackMs?: number;
+  releaseMs?: number;
+}
+
+export interface MixResult {
+  // Of the mix before normalization
+  loudnessLufs: number;
+  gainDb: number;
+  // After normalization; short of the target when the peak ceiling limited the gain
+  outputLufs: number;
+}
+
+interface Transition {
+  frame: number;
+  speaking: boolean;
+}
+
+interface Segment {
+  frame: number;
+  samples: Float32Array;
+}
+
+const AGENT_BUSSES: SpeakerId[] = ["claude", "guest"];
+// Normalization never pushes sample peaks above this
+const PEAK_CEILING_DB = -1;
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Agent gain following the host's speech, with one-pole attack and release.
+ * Frames must be asked for in order.
+ */
+class Ducker {
+  private gain = 1;
+  private speaking = false;
+  private next = 0;
+  private floor: number;
+  private attack: number;
+  private release: number;
+
+  constructor(
+    private transitions: Transition[],
+    sampleRate: number,
+    config: Required<DuckingConfig>
+  ) {
+    this.floor = Math.pow(10, -config.duckDb / 20);
+    this.attack = smoothing(config.attackMs, sampleRate);
+    this.release = smoothing(config.releaseMs, sampleRate);
+  }
+
+  gains(start: number, length: number): Float32Array {
+    const gains = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      while (this.next < this.transitions.length && this.transitions[this.next].frame <= start + i) {
+        this.speaking = this.transitions[this.next++].speaking;
+      }
+      const target = this.speaking ? this.floor : 1;
+      this.gain += (target - this.gain) * (target < this.gain ? this.attack : this.release);
+      gains[i] = this.gain;
+    }
+    return gains;
+  }
+}
+
+export class AudioBus {
+  private ducking: Required<DuckingConfig>;
+  private transitions: Transition[] = [];
+  // Live audio waiting for the monitor mix, by bus
+  private pending = new Map<SpeakerId, Segment[]>();
+  private monitorFrame = 0;
+  private monitorDucker: Ducker;
+
+  constructor(
+    private sampleRate: number,
+    ducking: DuckingConfig = {}
+  ) {
+    this.ducking = {
+      duckDb: ducking.duckDb ?? 12,
+      attackMs: ducking.attackMs ?? 50,
+      releaseMs: ducking.releaseMs ?? 400,
+    };
+    this.monitorDucker = new Ducker(this.transitions, sampleRate, this.ducking);
+  }
+
+  get duckDb(): number {
+    return this.ducking.duckDb;
+  }
+
+  markHostSpeech(speaking: boolean, frame: number): void {
+    // Capture timestamps can put a VAD event slightly before an earlier one
+    let index = this.transitions.length;
+    while (index > 0 && this.transitions[index - 1].frame > frame) index--;
+    this.transitions.splice(index, 0, { frame, speaking });
+  }
+
+  /**
+   * Queues audio for the monitor mix. Audio for frames the monitor has
+   * already passed is dropped when the mix is taken.
+   */
+  push(bus: SpeakerId, frame: number, samples: Float32Array): void {
+    const segments = this.pending.get(bus) ?? [];
+    segments.push({ frame, samples });
+    this.pending.set(bus, segments);
+  }
+
+  /**
+   * The monitor mix from where the last call stopped up to `frame`.
+   */
+  takeMonitorMix(frame: number): Float32Array {
+    const start = this.monitorFrame;
+    const length = frame - start;
+    if (length <= 0) return new Float32Array(0);
+
+    const inputs = new Map<SpeakerId, Float32Array>();
+    for (const [bus, segments] of this.pending) {
+      const input = new Float32Array(length);
+      for (const segment of segments) {
+        const from = Math.max(start, segment.frame);
+        const to = Math.min(frame, segment.frame + segment.samples.length);
+        if (to > from) {
+          input.set(segment.samples.subarray(from - segment.frame, to - segment.frame), from - start);
+        }
+      }
+      inputs.set(bus, input);
+      this.pending.set(
+        bus,
+        segments.filter((segment) => segment.frame + segment.samples.length > frame)
+      );
+    }
+
+    this.monitorFrame = frame;
+    return this.mix(inputs, this.monitorDucker.gains(start, length), length);
+  }
+
+  /**
+   * Mixes recorded 16-bit tracks into a WAV normalized to `targetLufs`. The
+   * mix is rendered twice: once to measure it, once to write it with gain.
+   */
+  async export(tracks: Map<SpeakerId, string>, outputPath: string, targetLufs: number): Promise<MixResult> {
+    const meter = new LoudnessMeter(this.sampleRate);
+    await this.render(tracks, (mixed) => meter.push(mixed));
+
+    const loudnessLufs = meter.integrated;
+    let gainDb = Number.isFinite(loudnessLufs) ? targetLufs - loudnessLufs : 0;
+    if (meter.samplePeak > 0) {
+      gainDb = Math.min(gainDb, PEAK_CEILING_DB - 20 * Math.log10(meter.samplePeak));
+    }
+
+    const gain = Math.pow(10, gainDb / 20);
+    const writer = new WavWriter(outputPath, { encoding: "pcm_s16le", sampleRate: this.sampleRate, channels: 1 });
+    await this.render(tracks, (mixed) => writer.write(encodePcm16(mixed, gain)));
+    await writer.close();
+
+    return { loudnessLufs, gainDb, outputLufs: loudnessLufs + gainDb };
+  }
+
+  private async render(tracks: Map<SpeakerId, string>, onBlock: (mixed: Float32Array) => void): Promise<void> {
+    const files = new Map<SpeakerId, fs.FileHandle>();
+    try {
+      let frames = 0;
+      for (const [bus, path] of tracks) {
+        const file = await fs.open(path, "r");
+        files.set(bus, file);
+        const { size } = await file.stat();
+        frames = Math.max(frames, Math.floor((size - WAV_HEADER_BYTES) / 2));
+      }
+
+      // A second at a time, so hour-long episodes don't sit in memory
+      const ducker = new Ducker(this.transitions, this.sampleRate, this.ducking);
+      const blockFrames = this.sampleRate;
+      const block = Buffer.alloc(blockFrames * 2);
+      for (let start = 0; start < frames; start += blockFrames) {
+        const length = Math.min(blockFrames, frames - start);
+        const inputs = new Map<SpeakerId, Float32Array>();
+        for (const [bus, file] of files) {
+          block.fill(0);
+          await file.read(block, 0, length * 2, WAV_HEADER_BYTES + start * 2);
+          inputs.set(bus, decodePcm16(block.subarray(0, length * 2)));
+        }
+        onBlock(this.mix(inputs, ducker.gains(start, length), length));
+      }
+    } finally {
+      for (const file of files.values()) {
+        await file.close();
+      }
+    }
+  }
+
+  private mix(inputs: Map<SpeakerId, Float32Array>, gains: Float32Array, length: number): Float32Array {
+    const mixed = new Float32Array(length);
+    for (const [bus, input] of inputs) {
+      const ducked = AGENT_BUSSES.includes(bus);
+      for (let i = 0; i < length; i++) {
+        mixed[i] += ducked ? input[i] * gains[i] : input[i];
+      }
+    }
+    return mixed;
+  }
+}
+
+export function decodePcm16(buffer: Buffer): Float32Array {
+  const samples = new Float32Array(Math.floor(buffer.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = buffer.readInt16LE(i * 2) / 32768;
+  }
+  return samples;
+}
+
+export function encodePcm16(samples: Float32Array, gain = 1): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(samples[i] * gain * 32768))), i * 2);
+  }
+  return buffer;
+}
+
+// Per-sample coefficient of a one-pole smoother with the given time constant
+function smoothing(ms: number, sampleRate: number): number {
+  return ms > 0 ? 1 - Math.exp(-1000 / (ms * sampleRate)) : 1;
+}
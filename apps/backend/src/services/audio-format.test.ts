@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import type { AudioFormat } from "@basil/shared";
+import { AudioConverter, SPEECH_FORMAT, describeFormat, parseAudioFormat } from "./audio-format";
+
+const pcm = (sampleRate: number, channels = 1): AudioFormat => ({ encoding: "pcm_s16le", sampleRate, channels });
+
+// 16-bit samples, one value per frame copied to every channel
+function samples(values: number[], channels = 1): Buffer {
+  const buffer = Buffer.alloc(values.length * channels * 2);
+  values.forEach((value, frame) => {
+    for (let channel = 0; channel < channels; channel++) {
+      buffer.writeInt16LE(value, (frame * channels + channel) * 2);
+    }
+  });
+  return buffer;
+}
+
+function wavHeader(sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  return header;
+}
+
+const ramp = (length: number) => Array.from({ length }, (_, i) => i * 10);
+
+describe("parseAudioFormat", () => {
+  it("should accept a complete format", () => {
+    expect(parseAudioFormat({ encoding: "pcm_f32le", sampleRate: 48000, channels: 2 })).toEqual({
+      encoding: "pcm_f32le",
+      sampleRate: 48000,
+      channels: 2,
+    });
+  });
+
+  it("should reject unknown encodings and impossible rates", () => {
+    expect(() => parseAudioFormat({ encoding: "mp3", sampleRate: 44100, channels: 1 })).toThrow(/unknown audio encoding/);
+    expect(() => parseAudioFormat({ encoding: "pcm_s16le", sampleRate: 0, channels: 1 })).toThrow(/sample rate/);
+    expect(() => parseAudioFormat({ encoding: "pcm_s16le", sampleRate: 16000 })).toThrow(/channel count/);
+    expect(() => parseAudioFormat("pcm")).toThrow();
+  });
+});
+
+describe("AudioConverter", () => {
+  it("should pass audio through when the formats match", () => {
+    const chunk = samples([1, 2, 3]);
+    expect(new AudioConverter(SPEECH_FORMAT, SPEECH_FORMAT).convert(chunk)).toBe(chunk);
+  });
+
+  it("should refuse compressed audio", () => {
+    const webm: AudioFormat = { encoding: "webm_opus", sampleRate: 48000, channels: 1 };
+    expect(() => new AudioConverter(webm, SPEECH_FORMAT)).toThrow(/can't convert webm_opus/);
+  });
+
+  it("should downmix and downsample 48 kHz stereo to 16 kHz mono", () => {
+    const converter = new AudioConverter(pcm(48000, 2), SPEECH_FORMAT);
+
+    const output = converter.convert(samples(ramp(480), 2));
+
+    // 10ms in, 10ms out (less the samples held back for interpolation)
+    expect(output.length / 2).toBeGreaterThanOrEqual(159);
+    expect(output.length / 2).toBeLessThanOrEqual(160);
+    expect(output.readInt16LE(0)).toBe(0);
+    expect(output.readInt16LE(2)).toBe(30);
+  });
+
+  it("should convert a stream the same however it is split", () => {
+    const input = samples(ramp(441));
+    const whole = new AudioConverter(pcm(22050), pcm(48000)).convert(input);
+
+    const split = new AudioConverter(pcm(22050), pcm(48000));
+    // Odd split sizes also leave half a sample behind
+    const parts = [input.subarray(0, 101), input.subarray(101, 555), input.subarray(555)].map((part) =>
+      split.convert(part)
+    );
+
+    expect(Buffer.concat(parts).equals(whole)).toBe(true);
+  });
+
+  it("should skip WAV headers and use their sample rate", () => {
+    const wav: AudioFormat = { encoding: "wav", sampleRate: 24000, channels: 1 };
+    const converter = new AudioConverter(wav, pcm(24000));
+
+    const utterance = Buffer.concat([wavHeader(24000, 1), samples([100, 200, 300])]);
+    expect(converter.convert(utterance)).toEqual(samples([100, 200, 300]));
+    // Every utterance starts with its own header
+    expect(converter.convert(utterance)).toEqual(samples([100, 200, 300]));
+    expect(converter.convert(samples([400]))).toEqual(samples([400]));
+  });
+
+  it("should convert float PCM to 16-bit", () => {
+    const float: AudioFormat = { encoding: "pcm_f32le", sampleRate: 16000, channels: 1 };
+    const input = Buffer.alloc(12);
+    input.writeFloatLE(0.5, 0);
+    input.writeFloatLE(-1, 4);
+    input.writeFloatLE(2, 8);
+
+    expect(new AudioConverter(float, SPEECH_FORMAT).convert(input)).toEqual(samples([16384, -32768, 32767]));
+  });
+});
+
+describe("describeFormat", () => {
+  it("should name encoding, rate and channels", () => {
+    expect(describeFormat(pcm(22050, 2))).toBe("pcm_s16le 22.05 kHz stereo");
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Audio formats moving through the pipeline and conversion between them.
+ *
+ * The browser declares its format in `hello`, every STT adapter declares the
+ * input it needs and every TTS adapter the output it produces. PCM in any
+ * sample rate or channel count converts to any other PCM; compressed audio
+ * (webm_opus) can only be passed through untouched.
+ */
+import type { AudioEncoding, AudioFormat } from "@basil/shared";
+
+// What the VAD takes, and what the built-in STT providers expect
+export const SPEECH_FORMAT: AudioFormat = { encoding: "pcm_s16le", sampleRate: 16000, channels: 1 };
+
+const BYTES_PER_SAMPLE: Partial<Record<AudioEncoding, number>> = {
+  pcm_s16le: 2,
+  pcm_f32le: 4,
+  wav: 2,
+};
+
+const ENCODINGS: AudioEncoding[] = ["pcm_s16le", "pcm_f32le", "wav", "webm_opus"];
+
+export function isPcm(format: AudioFormat): boolean {
+  return BYTES_PER_SAMPLE[format.encoding] !== undefined;
+}
+
+export function sameFormat(a: AudioFormat, b: AudioFormat): boolean {
+  return a.encoding === b.encoding && a.sampleRate === b.sampleRate && a.channels === b.channels;
+}
+
+// e.g. "pcm_s16le 16 kHz mono"
+export function describeFormat(format: AudioFormat): string {
+  const channels = format.channels === 1 ? "mono" : format.channels === 2 ? "stereo" : `${format.channels}ch`;
+  return `${format.encoding} ${format.sampleRate / 1000} kHz ${channels}`;
+}
+
+/**
+ * Checks a format declared by a client. Throws with the reason it can't be
+ * used.
+ */
+export function parseAudioFormat(value: unknown): AudioFormat {
+  const format = value as Partial<AudioFormat> | null;
+  if (!format || typeof format !== "object") {
+    throw new Error("audio format must be an object");
+  }
+  if (!ENCODINGS.includes(format.encoding as AudioEncoding)) {
+    throw new Error(`unknown audio encoding "${format.encoding}" (expected ${ENCODINGS.join(", ")})`);
+  }
+  if (!Number.isInteger(format.sampleRate) || format.sampleRate! < 8000 || format.sampleRate! > 192000) {
+    throw new Error(`unsupported sample rate ${format.sampleRate}`);
+  }
+  if (!Number.isInteger(format.channels) || format.channels! < 1 || format.channels! > 8) {
+    throw new Error(`unsupported channel count ${format.channels}`);
+  }
+  return { encoding: format.encoding!, sampleRate: format.sampleRate!, channels: format.channels! };
+}
+
+/**
+ * Streaming PCM converter: decodes, downmixes, resamples and re-encodes one
+ * chunk at a time. Partial frames and the resampler's position carry over
+ * between chunks, so a stream converts the same however it is split.
+ *
+ * A WAV header at the start of a chunk is skipped and its fmt block replaces
+ * the declared source rate and channels (Google TTS sends one per utterance).
+ */
+export class AudioConverter {
+  readonly from: AudioFormat;
+  readonly to: AudioFormat;
+  // Source as actually decoded; a WAV header can override `from`
+  private source: AudioFormat;
+  private pending = Buffer.alloc(0);
+  // Next output sample's position in input samples, relative to the current chunk
+  private position = 0;
+  // Last input sample of the previous chunk, at position -1
+  private previous = 0;
+
+  constructor(from: AudioFormat, to: AudioFormat) {
+    if (!isPcm(from) || !isPcm(to) || to.encoding === "wav") {
+      throw new Error(`can't convert ${describeFormat(from)} to ${describeFormat(to)}`);
+    }
+    this.from = from;
+    this.to = to;
+    this.source = { ...from, encoding: from.encoding === "wav" ? "pcm_s16le" : from.encoding };
+  }
+
+  convert(chunk: Buffer): Buffer {
+    if (sameFormat(this.from, this.to)) return chunk;
+
+    if (this.from.encoding === "wav" && isWavHeader(chunk)) {
+      chunk = this.readWavHeader(chunk);
+    }
+    return encode(this.resample(this.decode(chunk)), this.to);
+  }
+
+  // Whole frames of the source, downmixed to mono floats
+  private decode(chunk: Buffer): Float32Array {
+    const data = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    const bytesPerSample = BYTES_PER_SAMPLE[this.source.encoding]!;
+    const frameBytes = bytesPerSample * this.source.channels;
+    const frames = Math.floor(data.length / frameBytes);
+    this.pending = Buffer.from(data.subarray(frames * frameBytes));
+
+    const samples = new Float32Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < this.source.channels; channel++) {
+        const offset = frame * frameBytes + channel * bytesPerSample;
+        sum += bytesPerSample === 2 ? data.readInt16LE(offset) / 32768 : data.readFloatLE(offset);
+      }
+      samples[frame] = sum / this.source.channels;
+    }
+    return samples;
+  }
+
+  // Linear interpolation; adequate for speech, which has little energy near Nyquist
+  private resample(input: Float32Array): Float32Array {
+    if (this.source.sampleRate === this.to.sampleRate || input.length === 0) return input;
+
+    const step = this.source.sampleRate / this.to.sampleRate;
+    const output: number[] = [];
+    let position = this.position;
+    while (Math.floor(position) + 1 < input.length) {
+      const index = Math.floor(position);
+      const a = index < 0 ? this.previous : input[index];
+      const b = input[index + 1];
+      output.push(a + (b - a) * (position - index));
+      position += step;
+    }
+
+    this.position = position - input.length;
+    this.previous = input[input.length - 1];
+    return Float32Array.from(output);
+  }
+
+  private readWavHeader(chunk: Buffer): Buffer {
+    let offset = 12;
+    while (offset + 8 <= chunk.length) {
+      const id = chunk.toString("ascii", offset, offset + 4);
+      const size = chunk.readUInt32LE(offset + 4);
+      if (id === "fmt ") {
+        const floating = chunk.readUInt16LE(offset + 8) === 3;
+        this.source = {
+          encoding: floating ? "pcm_f32le" : "pcm_s16le",
+          channels: chunk.readUInt16LE(offset + 10),
+          sampleRate: chunk.readUInt32LE(offset + 12),
+        };
+      } else if (id === "data") {
+        // A new file: nothing carries over from the previous one
+        this.pending = Buffer.alloc(0);
+        return chunk.subarray(offset + 8);
+      }
+      offset += 8 + size + (size % 2);
+    }
+    return Buffer.alloc(0);
+  }
+}
+
+function isWavHeader(chunk: Buffer): boolean {
+  return chunk.length >= 12 && chunk.toString("ascii", 0, 4) === "RIFF" && chunk.toString("ascii", 8, 12) === "WAVE";
+}
+
+function encode(samples: Float32Array, format: AudioFormat): Buffer {
+  const bytesPerSample = BYTES_PER_SAMPLE[format.encoding]!;
+  const buffer = Buffer.alloc(samples.length * bytesPerSample * format.channels);
+  let offset = 0;
+  for (const sample of samples) {
+    // Mono is copied to every output channel
+    for (let channel = 0; channel < format.channels; channel++) {
+      if (bytesPerSample === 2) {
+        buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample * 32768))), offset);
+      } else {
+        buffer.writeFloatLE(Math.max(-1, Math.min(1, sample)), offset);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+}
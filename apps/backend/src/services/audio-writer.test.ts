@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { PassthroughWriter, WavWriter, encodeOpus } from "./audio-writer";
+
+const testDir = "./test-audio-writer";
+
+// Reads back the fields a player relies on
+function parseWav(file: Buffer) {
+  return {
+    riff: file.toString("ascii", 0, 4),
+    riffSize: file.readUInt32LE(4),
+    wave: file.toString("ascii", 8, 12),
+    formatTag: file.readUInt16LE(20),
+    channels: file.readUInt16LE(22),
+    sampleRate: file.readUInt32LE(24),
+    byteRate: file.readUInt32LE(28),
+    blockAlign: file.readUInt16LE(32),
+    bitsPerSample: file.readUInt16LE(34),
+    dataId: file.toString("ascii", 36, 40),
+    dataSize: file.readUInt32LE(40),
+    data: file.subarray(44),
+  };
+}
+
+describe("WavWriter", () => {
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should write a header that matches the audio written", async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const filePath = path.join(testDir, "track.wav");
+    const writer = new WavWriter(filePath, { encoding: "pcm_s16le", sampleRate: 48000, channels: 1 });
+    const samples = Buffer.alloc(8);
+    [0, 1000, -1000, 32767].forEach((value, i) => samples.writeInt16LE(value, i * 2));
+
+    writer.write(samples.subarray(0, 4));
+    writer.write(samples.subarray(4));
+    await writer.close();
+
+    const wav = parseWav(await fs.readFile(filePath));
+    expect(wav).toMatchObject({
+      riff: "RIFF",
+      riffSize: 36 + 8,
+      wave: "WAVE",
+      formatTag: 1,
+      channels: 1,
+      sampleRate: 48000,
+      byteRate: 96000,
+      blockAlign: 2,
+      bitsPerSample: 16,
+      dataId: "data",
+      dataSize: 8,
+    });
+    expect(wav.data.equals(samples)).toBe(true);
+    expect(writer.bytesWritten).toBe(8);
+  });
+
+  it("should mark float PCM as IEEE float", async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const filePath = path.join(testDir, "float.wav");
+    const writer = new WavWriter(filePath, { encoding: "pcm_f32le", sampleRate: 24000, channels: 2 });
+    await writer.close();
+
+    const wav = parseWav(await fs.readFile(filePath));
+    expect(wav).toMatchObject({ formatTag: 3, channels: 2, blockAlign: 8, bitsPerSample: 32, dataSize: 0 });
+  });
+
+  it("should refuse compressed audio", () => {
+    expect(() => new WavWriter("unused.wav", { encoding: "webm_opus", sampleRate: 48000, channels: 1 })).toThrow(
+      /WAV holds raw PCM/
+    );
+  });
+});
+
+describe("PassthroughWriter", () => {
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should write chunks exactly as sent", async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const filePath = path.join(testDir, "track.webm");
+    const writer = new PassthroughWriter(filePath);
+
+    writer.write(Buffer.from("EBML"));
+    writer.write(Buffer.from("cluster"));
+    await writer.close();
+
+    expect(await fs.readFile(filePath, "utf-8")).toBe("EBMLcluster");
+  });
+});
+
+describe("encodeOpus", () => {
+  it("should reject when ffmpeg can't be run", async () => {
+    await expect(encodeOpus("in.wav", "out.webm", "/nonexistent/ffmpeg")).rejects.toThrow(/ENOENT/);
+  });
+});
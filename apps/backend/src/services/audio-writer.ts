@@ -0,0 +1,143 @@
+/**
+ * Audio files for the recorder. PCM goes into WAV, which any editor opens;
+ * audio that arrives already in a container (webm_opus from MediaRecorder)
+ * is written as sent. WAV tracks can additionally be encoded to Opus in WebM
+ * with ffmpeg once recording stops.
+ */
+import { spawn } from "node:child_process";
+import { createWriteStream, promises as fs, type WriteStream } from "node:fs";
+import type { AudioFormat } from "@basil/shared";
+
+export interface TrackWriter {
+  write(chunk: Buffer): void;
+  // Bytes of audio written so far, excluding any header
+  readonly bytesWritten: number;
+  close(): Promise<void>;
+}
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Streams 16-bit or float PCM into a WAV file. The header goes out first with
+ * placeholder sizes, which close() fills in.
+ */
+export class WavWriter implements TrackWriter {
+  private stream: WriteStream;
+  private dataBytes = 0;
+
+  constructor(
+    private path: string,
+    private format: AudioFormat
+  ) {
+    if (format.encoding !== "pcm_s16le" && format.encoding !== "pcm_f32le") {
+      throw new Error(`WAV holds raw PCM, not ${format.encoding}`);
+    }
+    this.stream = createWriteStream(path);
+    this.stream.on("error", (error) => console.error(`[recorder] write to ${path} failed:`, error));
+    this.stream.write(wavHeader(format, 0));
+  }
+
+  get bytesWritten(): number {
+    return this.dataBytes;
+  }
+
+  write(chunk: Buffer): void {
+    this.stream.write(chunk);
+    this.dataBytes += chunk.length;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+
+    const file = await fs.open(this.path, "r+");
+    try {
+      await file.write(wavHeader(this.format, this.dataBytes), 0, WAV_HEADER_BYTES, 0);
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+/**
+ * Writes audio exactly as it arrives, for streams that carry their own
+ * container.
+ */
+export class PassthroughWriter implements TrackWriter {
+  private stream: WriteStream;
+  private bytes = 0;
+
+  constructor(path: string) {
+    this.stream = createWriteStream(path);
+    this.stream.on("error", (error) => console.error(`[recorder] write to ${path} failed:`, error));
+  }
+
+  get bytesWritten(): number {
+    return this.bytes;
+  }
+
+  write(chunk: Buffer): void {
+    this.stream.write(chunk);
+    this.bytes += chunk.length;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+export function wavHeader(format: AudioFormat, dataBytes: number): Buffer {
+  const bytesPerSample = format.encoding === "pcm_f32le" ? 4 : 2;
+  const blockAlign = bytesPerSample * format.channels;
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  // 1: integer PCM, 3: IEEE float
+  header.writeUInt16LE(format.encoding === "pcm_f32le" ? 3 : 1, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bytesPerSample * 8, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Encodes a WAV file to 48 kHz Opus in WebM with ffmpeg. Rejects when ffmpeg
+ * is missing or fails; the WAV is left in place either way.
+ */
+export function encodeOpus(wavPath: string, outputPath: string, ffmpegPath = "ffmpeg"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, [
+      "-y",
+      "-loglevel", "error",
+      "-i", wavPath,
+      "-c:a", "libopus",
+      "-b:a", "96k",
+      "-ar", "48000",
+      outputPath,
+    ]);
+    let stderr = "";
+
+    ffmpeg.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    ffmpeg.on("error", (error: Error) => {
+      reject(error);
+    });
+
+    ffmpeg.on("close", (code: number | null) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
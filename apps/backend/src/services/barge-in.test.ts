@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { BargeInController, spokenPrefix } from "./barge-in";
+import { ConversationHistory } from "./conversation-history";
+
+describe("BargeInController", () => {
+  let tts: any;
+  let llms: any;
+  let history: ConversationHistory;
+  let eventLogger: any;
+  let setOrbState: any;
+  let controller: BargeInController;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    tts = {
+      claude: { synthesize: vi.fn(), stop: vi.fn().mockResolvedValue(undefined) },
+      guest: { synthesize: vi.fn(), stop: vi.fn().mockResolvedValue(undefined) },
+    };
+    llms = {
+      claude: { id: "claude", generate: vi.fn(), stop: vi.fn().mockResolvedValue(undefined) },
+      guest: { id: "guest", generate: vi.fn(), stop: vi.fn().mockResolvedValue(undefined) },
+    };
+    history = new ConversationHistory();
+    eventLogger = { logBargeIn: vi.fn(), logError: vi.fn() };
+    setOrbState = vi.fn();
+
+    controller = new BargeInController({
+      sessionId: "session-1",
+      tts,
+      llms,
+      history,
+      eventLogger,
+      setOrbState,
+      resumeAfterMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+    vi.useRealTimers();
+  });
+
+  it("should do nothing when no agent is active", async () => {
+    const interrupted = await controller.trigger("you");
+
+    expect(interrupted).toEqual([]);
+    expect(controller.isInterrupted).toBe(false);
+    expect(eventLogger.logBargeIn).not.toHaveBeenCalled();
+  });
+
+  it("should stop speech and generations and log the barge-in", async () => {
+    controller.beginSpeaking("claude", "Hello there");
+    controller.beginGeneration("guest");
+
+    const interrupted = await controller.trigger("you");
+
+    expect(interrupted.sort()).toEqual(["claude", "guest"]);
+    expect(tts.claude.stop).toHaveBeenCalledWith("session-1");
+    expect(llms.guest.stop).toHaveBeenCalledWith("session-1");
+    expect(tts.guest.stop).not.toHaveBeenCalled();
+    expect(eventLogger.logBargeIn).toHaveBeenCalledWith("session-1", "you", expect.arrayContaining(["claude", "guest"]));
+    expect(setOrbState).toHaveBeenCalledWith("claude", "muted");
+    expect(setOrbState).toHaveBeenCalledWith("guest", "muted");
+    expect(setOrbState).toHaveBeenCalledWith("you", "listening");
+  });
+
+  it("should keep only the heard part of an interrupted utterance in history", async () => {
+    controller.beginSpeaking("claude", "Small models are cheaper to run and easier to deploy on device.");
+    vi.advanceTimersByTime(1000); // ~15 characters at the default rate
+
+    await controller.trigger("you");
+
+    const entries = history.getEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].speaker).toBe("claude");
+    expect(entries[0].text).toBe("Small models—");
+    expect(controller.endSpeaking("claude")).toEqual({ interrupted: true });
+  });
+
+  it("should count finished clauses of a streamed utterance as heard", async () => {
+    controller.beginSpeaking("claude");
+    controller.speakClause("claude", "Small models are cheaper.");
+    vi.advanceTimersByTime(2000);
+    controller.speakClause("claude", "They also run on device.");
+    vi.advanceTimersByTime(500);
+
+    await controller.trigger("you");
+
+    expect(history.getEntries()[0].text).toBe("Small models are cheaper. They—");
+  });
+
+  it("should mark generations running during a barge-in as stale", async () => {
+    const before = controller.beginGeneration("claude");
+    await controller.trigger("you");
+    controller.endGeneration("claude");
+
+    expect(controller.isStale(before)).toBe(true);
+    expect(controller.isStale(controller.beginGeneration("claude"))).toBe(false);
+  });
+
+  it("should hold responses while interrupted and discard them on new speech", async () => {
+    const epoch = controller.beginGeneration("claude");
+    await controller.trigger("you");
+
+    const floor = controller.acquireFloor("guest", epoch);
+    controller.release(false);
+
+    await expect(floor).resolves.toBe(false);
+    expect(setOrbState).toHaveBeenCalledWith("guest", "idle");
+  });
+
+  it("should resume held responses when the host goes quiet", async () => {
+    const epoch = controller.beginGeneration("claude");
+    await controller.trigger("you");
+
+    const floor = controller.acquireFloor("guest", epoch);
+    vi.advanceTimersByTime(1000);
+
+    await expect(floor).resolves.toBe(true);
+    expect(controller.isInterrupted).toBe(false);
+  });
+
+  it("should postpone resuming while the host keeps talking", async () => {
+    controller.beginGeneration("claude");
+    await controller.trigger("you");
+
+    vi.advanceTimersByTime(800);
+    controller.noteHostActivity();
+    vi.advanceTimersByTime(800);
+    expect(controller.isInterrupted).toBe(true);
+
+    vi.advanceTimersByTime(200);
+    expect(controller.isInterrupted).toBe(false);
+  });
+
+  it("should grant the floor immediately when not interrupted", async () => {
+    await expect(controller.acquireFloor("claude", 0)).resolves.toBe(true);
+  });
+
+  it("should drop responses queued before the host said something new", async () => {
+    const epoch = controller.beginGeneration("guest");
+    controller.endGeneration("guest");
+    controller.beginSpeaking("claude", "Speaking now");
+    await controller.trigger("you");
+    controller.release(false);
+
+    // The guest's reply reaches the floor only after the release
+    await expect(controller.acquireFloor("guest", epoch)).resolves.toBe(false);
+    await expect(controller.acquireFloor("guest", controller.beginGeneration("guest"))).resolves.toBe(true);
+  });
+});
+
+describe("spokenPrefix", () => {
+  it("should cut at a word boundary", () => {
+    expect(spokenPrefix("one two three four", 500, 10)).toBe("one");
+  });
+
+  it("should return the full text once playback has covered it", () => {
+    expect(spokenPrefix("short", 10_000)).toBe("short");
+  });
+
+  it("should return nothing before playback started", () => {
+    expect(spokenPrefix("anything", 0)).toBe("");
+  });
+});
@@ -0,0 +1,254 @@
+import type { AgentId, OrbState, SpeakerId } from "@basil/shared";
+import type { LlmAdapter, TtsAdapter } from "../adapters/interfaces.js";
+import type { ConversationHistory } from "./conversation-history.js";
+import type { EventLogger } from "./event-logger.js";
+
+interface BargeInConfig {
+  sessionId: string;
+  tts: Record<AgentId, TtsAdapter>;
+  llms: Record<AgentId, LlmAdapter>;
+  history: ConversationHistory;
+  eventLogger: EventLogger;
+  setOrbState: (speaker: SpeakerId, state: OrbState) => void;
+  // Resume held responses if the host goes quiet without saying anything new
+  resumeAfterMs?: number;
+  // Speaking speed used to estimate how much of an utterance was heard
+  charsPerSecond?: number;
+}
+
+interface SpeakingState {
+  // Clauses already played in full
+  spoken: string;
+  // Clause currently playing
+  text: string;
+  startedAt: number;
+  interrupted: boolean;
+}
+
+interface HeldResponse {
+  agent: AgentId;
+  release: (speak: boolean) => void;
+}
+
+/**
+ * Stops agent speech and in-flight generations when the host starts talking.
+ *
+ * The orchestrator reports what each agent is doing (generating, speaking)
+ * and asks for the floor before speaking. While the host holds the floor,
+ * completed responses are held; they are discarded if the host says something
+ * new, or resumed if the host goes quiet without a new utterance.
+ */
+export class BargeInController {
+  private config: BargeInConfig & { resumeAfterMs: number; charsPerSecond: number };
+  private generating = new Set<AgentId>();
+  private speaking = new Map<AgentId, SpeakingState>();
+  private held: HeldResponse[] = [];
+  private interrupted = false;
+  private epoch = 0;
+  // Responses generated before this epoch were dropped by release(false)
+  private discardBefore = 0;
+  private resumeTimer?: NodeJS.Timeout;
+
+  constructor(config: BargeInConfig) {
+    this.config = {
+      resumeAfterMs: 3000,
+      charsPerSecond: 15,
+      ...config,
+    };
+  }
+
+  get isInterrupted(): boolean {
+    return this.interrupted;
+  }
+
+  /**
+   * Marks the start of a generation. Returns the epoch to pass to isStale().
+   */
+  beginGeneration(agent: AgentId): number {
+    this.generating.add(agent);
+    return this.epoch;
+  }
+
+  endGeneration(agent: AgentId): void {
+    this.generating.delete(agent);
+  }
+
+  /**
+   * A generation is stale when a barge-in happened while it was running.
+   */
+  isStale(epoch: number): boolean {
+    return epoch !== this.epoch;
+  }
+
+  /**
+   * Marks the start of an utterance. Returns the epoch to pass to isStale()
+   * while it plays; a held response resumes in a later epoch than it was
+   * generated in.
+   */
+  beginSpeaking(agent: AgentId, text = ""): number {
+    this.speaking.set(agent, { spoken: "", text, startedAt: Date.now(), interrupted: false });
+    return this.epoch;
+  }
+
+  /**
+   * The next clause of a streamed utterance started playing.
+   */
+  speakClause(agent: AgentId, clause: string): void {
+    const state = this.speaking.get(agent);
+    if (!state) return;
+
+    state.spoken = [state.spoken, state.text].filter(Boolean).join(" ");
+    state.text = clause;
+    state.startedAt = Date.now();
+  }
+
+  /**
+   * Returns whether the utterance was cut off by the host.
+   */
+  endSpeaking(agent: AgentId): { interrupted: boolean } {
+    const state = this.speaking.get(agent);
+    this.speaking.delete(agent);
+    return { interrupted: state?.interrupted ?? false };
+  }
+
+  /**
+   * Resolves true when the agent may speak a response generated in `epoch`,
+   * or false if the response was discarded while the host had the floor.
+   */
+  async acquireFloor(agent: AgentId, epoch: number): Promise<boolean> {
+    if (epoch < this.discardBefore) return false;
+    if (!this.interrupted) return true;
+
+    return new Promise<boolean>((resolve) => {
+      this.held.push({ agent, release: resolve });
+    });
+  }
+
+  /**
+   * Host speech detected. Interrupts whatever the agents are doing and returns
+   * the agents that were interrupted (empty if nothing was in progress).
+   */
+  async trigger(interrupter: SpeakerId = "you"): Promise<AgentId[]> {
+    if (this.interrupted) {
+      this.scheduleResume();
+      return [];
+    }
+
+    const interrupted = [...new Set<AgentId>([...this.speaking.keys(), ...this.generating])];
+    if (interrupted.length === 0) {
+      return [];
+    }
+
+    const { sessionId, eventLogger, history } = this.config;
+    this.interrupted = true;
+    this.epoch++;
+    this.scheduleResume();
+
+    console.info(`[barge-in] ${interrupter} interrupted ${interrupted.join(", ")}`);
+    eventLogger.logBargeIn(sessionId, interrupter, interrupted);
+
+    const stops: Promise<void>[] = [];
+    for (const agent of interrupted) {
+      const speaking = this.speaking.get(agent);
+      if (speaking) {
+        speaking.interrupted = true;
+        // Keep only what the audience actually heard
+        const heard = [
+          speaking.spoken,
+          spokenPrefix(speaking.text, Date.now() - speaking.startedAt, this.config.charsPerSecond),
+        ]
+          .filter(Boolean)
+          .join(" ");
+        if (heard) {
+          history.add(agent, `${heard}—`);
+        }
+        stops.push(this.config.tts[agent].stop(sessionId));
+      }
+      if (this.generating.has(agent)) {
+        stops.push(this.config.llms[agent].stop(sessionId));
+      }
+      this.config.setOrbState(agent, "muted");
+    }
+    this.config.setOrbState(interrupter, "listening");
+
+    const results = await Promise.allSettled(stops);
+    for (const result of results) {
+      if (result.status === "rejected") {
+        eventLogger.logError(sessionId, result.reason as Error, { service: "barge-in" });
+      }
+    }
+
+    return interrupted;
+  }
+
+  /**
+   * Host is still talking (e.g. a partial transcript); postpones auto-resume.
+   */
+  noteHostActivity(): void {
+    if (this.interrupted) {
+      this.scheduleResume();
+    }
+  }
+
+  /**
+   * Host finished. Held responses are spoken if `resume` is true, or dropped
+   * because the host said something that needs a fresh reply.
+   */
+  release(resume: boolean): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+    if (!this.interrupted) return;
+
+    this.interrupted = false;
+    if (!resume) {
+      this.discardBefore = this.epoch;
+    }
+    const held = this.held;
+    this.held = [];
+
+    console.info(`[barge-in] host finished, ${resume ? "resuming" : "discarding"} ${held.length} held response(s)`);
+    for (const agent of ["claude", "guest"] as AgentId[]) {
+      const resuming = resume && held.some((response) => response.agent === agent);
+      if (!resuming) {
+        this.config.setOrbState(agent, "idle");
+      }
+    }
+    for (const response of held) {
+      response.release(resume);
+    }
+  }
+
+  dispose(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+    for (const response of this.held) {
+      response.release(false);
+    }
+    this.held = [];
+  }
+
+  private scheduleResume(): void {
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = undefined;
+      this.release(true);
+    }, this.config.resumeAfterMs);
+  }
+}
+
+/**
+ * Estimates the part of `text` heard after `elapsedMs` of playback, cut at a
+ * word boundary.
+ */
+export function spokenPrefix(text: string, elapsedMs: number, charsPerSecond = 15): string {
+  const chars = Math.floor((elapsedMs / 1000) * charsPerSecond);
+  if (chars >= text.length) return text;
+  if (chars <= 0) return "";
+
+  const cut = text.lastIndexOf(" ", chars);
+  return cut > 0 ? text.slice(0, cut).trimEnd() : "";
+}
@@ -228,4 +228,59 @@ Content`;
     
     expect(files).toEqual([]);
   });
+
+  it("should parse per-speaker voice settings", async () => {
+    const briefingContent = `---
+title: Voices
+guestVoice: en-US-Neural2-F
+guestVoiceRate: 0.95
+guestVoicePitch: -2
+claudePiperModel: ./models/en_GB-alan-medium.onnx
+---
+
+Content`;
+
+    const filePath = path.join(testBriefingsDir, "voices-test.md");
+    await fs.writeFile(filePath, briefingContent);
+
+    const briefing = await loader.load("voices-test.md");
+
+    expect(briefing.metadata.voices).toEqual({
+      guest: { voiceName: "en-US-Neural2-F", speakingRate: 0.95, pitch: -2 },
+      claude: { piperModelPath: "./models/en_GB-alan-medium.onnx" },
+    });
+    expect(briefing.metadata.title).toBe("Voices");
+  });
+
+  it("should parse per-speaker and per-segment model settings", () => {
+    const briefing = loader.parse(`---
+claudeModel: claude-3-5-haiku-20241022
+guestTemperature: 0.9
+guestMaxTokens: 512
+verdict.claudeModel: claude-sonnet-4-20250514
+cross-exam.guestTemperature: 1.1
+---
+
+Content`);
+
+    expect(briefing.metadata.generation).toEqual({
+      claude: { model: "claude-3-5-haiku-20241022" },
+      guest: { temperature: 0.9, maxTokens: 512 },
+    });
+    expect(briefing.metadata.segmentGeneration).toEqual({
+      verdict: { claude: { model: "claude-sonnet-4-20250514" } },
+      "cross-exam": { guest: { temperature: 1.1 } },
+    });
+  });
+
+  it("should parse speaker names", () => {
+    const briefing = loader.parse(`---
+hostName: Basil
+guestName: "Grok"
+---
+
+Content`);
+
+    expect(briefing.metadata.speakerNames).toEqual({ you: "Basil", guest: "Grok" });
+  });
 });
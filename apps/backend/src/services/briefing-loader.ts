@@ -1,16 +1,41 @@
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
+import type { AgentId, SpeakerId } from "@basil/shared";
+import type { GenerationSettings, VoiceConfig } from "../adapters/interfaces.js";
 
-interface BriefingMetadata {
+type AgentGeneration = Partial<Record<AgentId, GenerationSettings>>;
+
+export interface BriefingMetadata {
   title?: string;
   topic?: string;
   tone?: string;
   mustCover?: string[];
   avoidTopics?: string[];
   targetDuration?: number;
+  // Per-episode voices, from flat keys such as `guestVoice` or `claudeVoiceRate`
+  voices?: Partial<Record<AgentId, VoiceConfig>>;
+  // Per-episode model settings, from keys such as `claudeModel` or `guestTemperature`
+  generation?: AgentGeneration;
+  // Overrides for one Showrunner segment, from keys such as `verdict.claudeModel`
+  segmentGeneration?: Record<string, AgentGeneration>;
+  // Names for transcripts and captions, from `hostName`, `claudeName` and `guestName`
+  speakerNames?: Partial<Record<SpeakerId, string>>;
 }
 
-interface ParsedBriefing {
+const VOICE_KEYS: Record<string, keyof VoiceConfig> = {
+  Voice: "voiceName",
+  VoiceRate: "speakingRate",
+  VoicePitch: "pitch",
+  PiperModel: "piperModelPath",
+};
+
+const GENERATION_KEYS: Record<string, keyof GenerationSettings> = {
+  Model: "model",
+  Temperature: "temperature",
+  MaxTokens: "maxTokens",
+};
+
+export interface ParsedBriefing {
   metadata: BriefingMetadata;
   content: string;
   systemPromptClaude: string;
@@ -30,7 +55,13 @@ export class BriefingLoader {
       : join(this.briefingsDir, briefingPath);
     
     const content = await fs.readFile(fullPath, "utf-8");
-    
+    return this.parse(content);
+  }
+
+  /**
+   * Parses briefing markdown. An empty string yields the default prompts.
+   */
+  parse(content: string): ParsedBriefing {
     // Parse frontmatter and content
     const { metadata, body } = this.parseFrontmatter(content);
     
@@ -87,6 +118,48 @@ export class BriefingLoader {
         continue;
       }
       
+      // Handle voice fields: claudeVoice, guestVoiceRate, guestPiperModel, ...
+      const voiceMatch = key.match(/^(claude|guest)(Voice|VoiceRate|VoicePitch|PiperModel)$/);
+      if (voiceMatch) {
+        const speaker = voiceMatch[1] as AgentId;
+        const field = VOICE_KEYS[voiceMatch[2]];
+        const text = value.replace(/['"]/g, "");
+        metadata.voices = metadata.voices ?? {};
+        metadata.voices[speaker] = {
+          ...metadata.voices[speaker],
+          [field]: field === "speakingRate" || field === "pitch" ? Number(text) : text,
+        };
+        continue;
+      }
+
+      // Handle name fields: hostName, claudeName, guestName
+      const nameMatch = key.match(/^(host|claude|guest)Name$/);
+      if (nameMatch) {
+        const speaker: SpeakerId = nameMatch[1] === "host" ? "you" : (nameMatch[1] as AgentId);
+        metadata.speakerNames = { ...metadata.speakerNames, [speaker]: value.replace(/['"]/g, "") };
+        continue;
+      }
+
+      // Handle model fields: claudeModel, guestTemperature, verdict.claudeModel, ...
+      const generationMatch = key.match(/^(?:([a-z][a-z-]*)\.)?(claude|guest)(Model|Temperature|MaxTokens)$/);
+      if (generationMatch) {
+        const [, segment, speaker, suffix] = generationMatch;
+        const field = GENERATION_KEYS[suffix];
+        const text = value.replace(/['"]/g, "");
+        let target: AgentGeneration;
+        if (segment) {
+          metadata.segmentGeneration = metadata.segmentGeneration ?? {};
+          target = metadata.segmentGeneration[segment] = metadata.segmentGeneration[segment] ?? {};
+        } else {
+          target = metadata.generation = metadata.generation ?? {};
+        }
+        target[speaker as AgentId] = {
+          ...target[speaker as AgentId],
+          [field]: field === "model" ? text : Number(text),
+        };
+        continue;
+      }
+
       // Handle other fields
       if (key === "targetDuration") {
         metadata[key] = parseInt(value, 10);
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { buildCues, extendShortCues, formatSrt, formatTimestamp, formatVtt, spreadWords, type CaptionWord, type Cue } from "./captions";
+
+// One word every 300ms
+function timed(text: string, from = 0): CaptionWord[] {
+  return text.split(" ").map((word, i) => ({ text: word, start: from + i * 300, end: from + i * 300 + 250 }));
+}
+
+describe("spreadWords", () => {
+  it("should fill the span in proportion to word length", () => {
+    const words = spreadWords("a bbb", 0, 500);
+
+    expect(words).toEqual([
+      { text: "a", start: 0, end: 100 },
+      { text: "bbb", start: 200, end: 500 },
+    ]);
+  });
+});
+
+describe("buildCues", () => {
+  it("should keep a short utterance in one cue", () => {
+    const cues = buildCues("you", timed("So what do you think?"));
+
+    expect(cues).toEqual([{ speaker: "you", start: 0, end: 1450, lines: ["So what do you think?"] }]);
+  });
+
+  it("should wrap lines and start a new cue when two lines are full", () => {
+    const text =
+      "Well I think the real story here is how quickly the tooling caught up with the research and what that means for everyone";
+    const cues = buildCues("claude", timed(text));
+
+    expect(cues.length).toBeGreaterThan(1);
+    for (const cue of cues) {
+      expect(cue.lines.length).toBeLessThanOrEqual(2);
+      for (const line of cue.lines) expect(line.length).toBeLessThanOrEqual(42);
+    }
+    expect(cues.map((cue: Cue) => cue.lines.join(" ")).join(" ")).toBe(text);
+    expect(cues[1].start).toBe(cues[0].end + 50);
+  });
+
+  it("should cap how long a cue stays up", () => {
+    // Slow speech: a word every 2 seconds
+    const words = "one two three four five".split(" ").map((word, i) => ({ text: word, start: i * 2000, end: i * 2000 + 500 }));
+
+    const cues = buildCues("guest", words, { maxDurationMs: 5000 });
+
+    expect(cues.map((cue: Cue) => cue.lines.join(" "))).toEqual(["one two three", "four five"]);
+  });
+
+  it("should break at the end of a sentence once a line is full", () => {
+    const cues = buildCues("claude", timed("That is the whole point of the exercise, really. But then again"));
+
+    expect(cues.map((cue: Cue) => cue.lines.join(" "))).toEqual([
+      "That is the whole point of the exercise, really.",
+      "But then again",
+    ]);
+  });
+});
+
+describe("extendShortCues", () => {
+  it("should hold short cues up to a second without overlapping the speaker's next cue", () => {
+    const cues = extendShortCues([
+      { speaker: "you", start: 0, end: 300, lines: ["Yes."] },
+      { speaker: "claude", start: 400, end: 600, lines: ["Right."] },
+      { speaker: "you", start: 700, end: 2000, lines: ["And another thing"] },
+    ]);
+
+    expect(cues.map((cue: Cue) => cue.end)).toEqual([700, 1400, 2000]);
+  });
+});
+
+describe("formatVtt", () => {
+  it("should tag voices and escape markup", () => {
+    const vtt = formatVtt([{ speaker: "guest", start: 1500, end: 3000, lines: ["Q&A <live>", "today"] }], {
+      you: "Basil",
+      claude: "Claude",
+      guest: "Guest AI",
+    });
+
+    expect(vtt).toBe("WEBVTT\n\n1\n00:00:01.500 --> 00:00:03.000\n<v Guest AI>Q&amp;A &lt;live&gt;\ntoday\n\n");
+  });
+});
+
+describe("formatSrt", () => {
+  it("should number cues and use comma timestamps", () => {
+    const srt = formatSrt([
+      { speaker: "you", start: 0, end: 1200, lines: ["Hello", "there"] },
+      { speaker: "claude", start: 1500, end: 2500, lines: ["Hi"] },
+    ]);
+
+    expect(srt).toBe("1\n00:00:00,000 --> 00:00:01,200\nHello\nthere\n\n2\n00:00:01,500 --> 00:00:02,500\nHi\n\n");
+  });
+});
+
+describe("formatTimestamp", () => {
+  it("should round to whole milliseconds", () => {
+    expect(formatTimestamp(3723004.6)).toBe("01:02:03.005");
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Caption cues for the recording. Words timed against the audio are grouped
+ * into cues short enough to read (line length, line count and duration
+ * limits) and written as WebVTT, per speaker or combined with voice tags,
+ * or as SRT.
+ *
+ * Times are milliseconds from the start of the recording.
+ */
+import type { SpeakerId } from "@basil/shared";
+
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface Cue {
+  speaker: SpeakerId;
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface CueLimits {
+  maxLineLength?: number;
+  maxLines?: number;
+  maxDurationMs?: number;
+}
+
+export const DEFAULT_SPEAKER_NAMES: Record<SpeakerId, string> = {
+  you: "Host",
+  claude: "Claude",
+  guest: "Guest",
+};
+
+// Common broadcast limits: two lines of 42 characters, up to 7 seconds
+const DEFAULT_LIMITS: Required<CueLimits> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxDurationMs: 7000,
+};
+
+// Short cues are held this long, unless the speaker's next cue starts sooner
+const MIN_CUE_MS = 1000;
+
+/**
+ * Words spread over a span in proportion to their length, for audio that
+ * wasn't timed word by word.
+ */
+export function spreadWords(text: string, start: number, end: number): CaptionWord[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  // Spaces between words count as characters, so pauses fall between them
+  const characters = words.reduce((sum, word) => sum + word.length, 0) + Math.max(0, words.length - 1);
+  const msPerCharacter = characters > 0 ? (end - start) / characters : 0;
+
+  let position = start;
+  return words.map((word) => {
+    const wordStart = position;
+    const wordEnd = wordStart + word.length * msPerCharacter;
+    position = wordEnd + msPerCharacter;
+    return { text: word, start: wordStart, end: wordEnd };
+  });
+}
+
+/**
+ * Groups one utterance's words into cues. A cue ends when the next word
+ * would break a limit, or at the end of a sentence once the first line is
+ * full.
+ */
+export function buildCues(speaker: SpeakerId, words: CaptionWord[], limits: CueLimits = {}): Cue[] {
+  const { maxLineLength, maxLines, maxDurationMs } = { ...DEFAULT_LIMITS, ...limits };
+  const cues: Cue[] = [];
+  let current: CaptionWord[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    cues.push({
+      speaker,
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrapLines(joinWords(current), maxLineLength),
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const lines = wrapLines(joinWords([...current, word]), maxLineLength);
+      if (lines.length > maxLines || word.end - current[0].start > maxDurationMs) {
+        close();
+      }
+    }
+    current.push(word);
+
+    if (/[.?!]["')\]]?$/.test(word.text.trim()) && joinWords(current).length >= maxLineLength) {
+      close();
+    }
+  }
+  close();
+
+  return cues;
+}
+
+/**
+ * Holds cues shorter than a second on screen longer, without running into
+ * the same speaker's next cue. Cues must be sorted by start.
+ */
+export function extendShortCues(cues: Cue[]): Cue[] {
+  return cues.map((cue, index) => {
+    if (cue.end - cue.start >= MIN_CUE_MS) return cue;
+    const next = cues.slice(index + 1).find((other) => other.speaker === cue.speaker);
+    const end = Math.min(cue.start + MIN_CUE_MS, next ? next.start : Infinity);
+    return { ...cue, end: Math.max(cue.end, end) };
+  });
+}
+
+/**
+ * WebVTT for the cues, in the order given. With `voices`, each cue is tagged
+ * `<v Name>` so one file can carry every speaker.
+ */
+export function formatVtt(cues: Cue[], voices?: Record<SpeakerId, string>): string {
+  let vtt = "WEBVTT\n\n";
+
+  cues.forEach((cue, index) => {
+    const text = cue.lines.map(escapeCueText).join("\n");
+    vtt += `${index + 1}\n`;
+    vtt += `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n`;
+    vtt += voices ? `<v ${voices[cue.speaker]}>${text}\n\n` : `${text}\n\n`;
+  });
+
+  return vtt;
+}
+
+/**
+ * SRT for the cues, in the order given. SRT has no voice tags, so the
+ * speaker isn't marked.
+ */
+export function formatSrt(cues: Cue[]): string {
+  return cues
+    .map((cue, index) =>
+      [
+        index + 1,
+        `${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}`,
+        ...cue.lines,
+      ].join("\n") + "\n\n"
+    )
+    .join("");
+}
+
+// HH:MM:SS.mmm (SRT separates milliseconds with a comma)
+export function formatTimestamp(ms: number, separator = "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const milliseconds = total % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(milliseconds, 3)}`;
+}
+
+// Greedy wrap; a word longer than a line gets a line to itself
+function wrapLines(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function joinWords(words: CaptionWord[]): string {
+  return words.map((word) => word.text.trim()).filter(Boolean).join(" ");
+}
+
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
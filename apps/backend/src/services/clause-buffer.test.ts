@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ClauseBuffer, SpeechQueue } from "./clause-buffer";
+
+describe("ClauseBuffer", () => {
+  let clauses: string[];
+  let buffer: ClauseBuffer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clauses = [];
+    buffer = new ClauseBuffer({ onClause: (clause: string) => clauses.push(clause) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should emit a clause at the end of each sentence", () => {
+    for (const token of ["Hel", "lo there. ", "How are", " you? I'm", " fine"]) {
+      buffer.push(token);
+    }
+
+    expect(clauses).toEqual(["Hello there.", "How are you?"]);
+    buffer.flush();
+    expect(clauses).toEqual(["Hello there.", "How are you?", "I'm fine"]);
+  });
+
+  it("should wait for the next token before ending a sentence", () => {
+    buffer.push("That costs 3.");
+    expect(clauses).toEqual([]);
+
+    buffer.push("5 dollars. Next");
+    expect(clauses).toEqual(["That costs 3.5 dollars."]);
+  });
+
+  it("should split long clauses at commas but keep short ones together", () => {
+    buffer.push("Well, ");
+    expect(clauses).toEqual([]);
+
+    buffer.push("small models are cheaper to run, and they ");
+    expect(clauses).toEqual(["Well, small models are cheaper to run,"]);
+  });
+
+  it("should flush at a word boundary when the model stalls", () => {
+    buffer.push("The thing about latency is tha");
+    vi.advanceTimersByTime(599);
+    expect(clauses).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(clauses).toEqual(["The thing about latency is"]);
+
+    buffer.push("t it adds up.");
+    buffer.flush();
+    expect(clauses).toEqual(["The thing about latency is", "that it adds up."]);
+  });
+
+  it("should drop buffered text on cancel", () => {
+    buffer.push("Half a thought");
+    buffer.cancel();
+    vi.advanceTimersByTime(1000);
+    buffer.flush();
+
+    expect(clauses).toEqual([]);
+  });
+});
+
+describe("SpeechQueue", () => {
+  function deferredSynthesis() {
+    const finish: Array<() => void> = [];
+    const synthesize = vi.fn(() => new Promise<void>((resolve) => finish.push(resolve)));
+    return { synthesize, finish };
+  }
+
+  it("should speak queued clauses in order, one at a time", async () => {
+    const { synthesize, finish } = deferredSynthesis();
+    const queue = new SpeechQueue({ stop: vi.fn().mockResolvedValue(undefined) });
+    queue.enqueue("One.");
+    queue.enqueue("Two.");
+
+    const done = queue.play({ synthesize });
+    await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(1));
+    queue.enqueue("Three.");
+    queue.close();
+
+    finish[0]();
+    await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(2));
+    finish[1]();
+    await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(3));
+    finish[2]();
+    await done;
+
+    expect(synthesize.mock.calls.map((call: any[]) => call[0])).toEqual(["One.", "Two.", "Three."]);
+  });
+
+  it("should wait for more clauses until closed", async () => {
+    const synthesize = vi.fn().mockResolvedValue(undefined);
+    const queue = new SpeechQueue({ stop: vi.fn().mockResolvedValue(undefined) });
+    let finished = false;
+
+    void queue.play({ synthesize }).then(() => (finished = true));
+    queue.enqueue("First.");
+    await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(1));
+    expect(finished).toBe(false);
+
+    queue.close();
+    await vi.waitFor(() => expect(finished).toBe(true));
+  });
+
+  it("should stop the current clause and drop the rest on cancel", async () => {
+    const { synthesize, finish } = deferredSynthesis();
+    // Stopping the adapter ends the clause in progress
+    const stop = vi.fn(async () => finish.forEach((resolve) => resolve()));
+    const queue = new SpeechQueue({ stop });
+    queue.enqueue("One.");
+    queue.enqueue("Two.");
+    queue.close();
+
+    const done = queue.play({ synthesize });
+    await vi.waitFor(() => expect(synthesize).toHaveBeenCalledTimes(1));
+    await queue.cancel();
+    await done;
+
+    expect(stop).toHaveBeenCalledOnce();
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(queue.isCancelled).toBe(true);
+  });
+
+  it("should stop between clauses when told not to continue", async () => {
+    const synthesize = vi.fn().mockResolvedValue(undefined);
+    const queue = new SpeechQueue({ stop: vi.fn().mockResolvedValue(undefined) });
+    let allowed = true;
+    queue.enqueue("One.");
+    queue.enqueue("Two.");
+    queue.close();
+
+    await queue.play({
+      synthesize: async (clause: string) => {
+        await synthesize(clause);
+        allowed = false;
+      },
+      shouldContinue: () => allowed,
+    });
+
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(queue.isCancelled).toBe(true);
+  });
+
+  it("should keep going after a clause fails", async () => {
+    const onError = vi.fn();
+    const synthesize = vi.fn().mockRejectedValueOnce(new Error("tts down")).mockResolvedValue(undefined);
+    const queue = new SpeechQueue({ stop: vi.fn().mockResolvedValue(undefined) });
+    queue.enqueue("One.");
+    queue.enqueue("Two.");
+    queue.close();
+
+    await queue.play({ synthesize, onError });
+
+    expect(onError).toHaveBeenCalledWith("One.", expect.any(Error));
+    expect(synthesize).toHaveBeenCalledTimes(2);
+  });
+
+  it("should resolve a cancelled queue that never started", async () => {
+    const queue = new SpeechQueue({ stop: vi.fn().mockResolvedValue(undefined) });
+    queue.enqueue("One.");
+    await queue.cancel();
+
+    await expect(queue.play({ synthesize: vi.fn() })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Turns streamed LLM tokens into speakable clauses so TTS can start on the
+ * first clause instead of waiting for the whole reply.
+ */
+
+interface ClauseBufferConfig {
+  onClause: (clause: string) => void;
+  // Flush whatever is buffered (at a word boundary) after this long without a clause
+  flushAfterMs?: number;
+  // Commas and other soft breaks only end a clause once it is this long
+  minClauseChars?: number;
+}
+
+// Sentence ends, allowing closing quotes/brackets, followed by whitespace
+const SENTENCE_END = /[.!?…]+["')\]]*\s/g;
+// Soft clause breaks
+const CLAUSE_END = /[,;:—–]\s/g;
+
+export class ClauseBuffer {
+  private config: Required<ClauseBufferConfig>;
+  private buffer = "";
+  private timer?: NodeJS.Timeout;
+
+  constructor(config: ClauseBufferConfig) {
+    this.config = {
+      onClause: config.onClause,
+      flushAfterMs: config.flushAfterMs ?? 600,
+      minClauseChars: config.minClauseChars ?? 24,
+    };
+  }
+
+  push(text: string): void {
+    if (!text) return;
+    this.buffer += text;
+
+    let end: number;
+    while ((end = this.clauseEnd()) > 0) {
+      this.emit(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end);
+    }
+
+    if (this.buffer.trim() && !this.timer) {
+      this.timer = setTimeout(() => this.flushPartial(), this.config.flushAfterMs);
+    }
+  }
+
+  /**
+   * End of stream: emits whatever is left.
+   */
+  flush(): void {
+    this.clearTimer();
+    this.emit(this.buffer);
+    this.buffer = "";
+  }
+
+  cancel(): void {
+    this.clearTimer();
+    this.buffer = "";
+  }
+
+  private clauseEnd(): number {
+    SENTENCE_END.lastIndex = 0;
+    const sentence = SENTENCE_END.exec(this.buffer);
+    if (sentence) return sentence.index + sentence[0].length;
+
+    CLAUSE_END.lastIndex = 0;
+    let soft: RegExpExecArray | null;
+    while ((soft = CLAUSE_END.exec(this.buffer))) {
+      const end = soft.index + soft[0].length;
+      if (end >= this.config.minClauseChars) return end;
+    }
+    return 0;
+  }
+
+  // The model paused mid-clause; speak what we have up to the last whole word
+  private flushPartial(): void {
+    this.timer = undefined;
+    const cut = this.buffer.lastIndexOf(" ");
+    if (cut <= 0) return;
+
+    this.emit(this.buffer.slice(0, cut + 1));
+    this.buffer = this.buffer.slice(cut + 1);
+  }
+
+  private emit(text: string): void {
+    this.clearTimer();
+    const clause = text.trim();
+    if (clause) this.config.onClause(clause);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Speaks clauses as they are taken off a SpeechQueue.
+ */
+export interface ClausePlayer {
+  synthesize(clause: string): Promise<void>;
+  onClauseStart?(clause: string): void;
+  onError?(clause: string, error: Error): void;
+  // Checked before each clause; returning false cancels the rest
+  shouldContinue?(): boolean;
+}
+
+interface SpeechQueueConfig {
+  // Stops the clause currently being synthesized
+  stop: () => Promise<void>;
+}
+
+/**
+ * Plays clauses for one speaker strictly in order. Clauses can be queued
+ * before playback starts (e.g. while waiting for the floor); `close()` marks
+ * the end of the reply and `cancel()` drops anything not yet spoken.
+ */
+export class SpeechQueue {
+  private config: SpeechQueueConfig;
+  private pending: string[] = [];
+  private closed = false;
+  private cancelled = false;
+  private started = false;
+  private wake?: () => void;
+  private finished: Promise<void>;
+  private resolveFinished!: () => void;
+
+  constructor(config: SpeechQueueConfig) {
+    this.config = config;
+    this.finished = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  enqueue(clause: string): void {
+    if (this.closed || this.cancelled) return;
+    this.pending.push(clause);
+    this.notify();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.notify();
+  }
+
+  /**
+   * Starts playback; resolves once every clause has been spoken or the queue
+   * was cancelled.
+   */
+  play(player: ClausePlayer): Promise<void> {
+    if (!this.started) {
+      this.started = true;
+      void this.run(player);
+    }
+    return this.finished;
+  }
+
+  async cancel(): Promise<void> {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.pending = [];
+    this.notify();
+    if (!this.started) {
+      this.resolveFinished();
+      return;
+    }
+    await this.config.stop();
+  }
+
+  private async run(player: ClausePlayer): Promise<void> {
+    while (!this.cancelled) {
+      const clause = this.pending.shift();
+      if (clause === undefined) {
+        if (this.closed) break;
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+        continue;
+      }
+
+      if (player.shouldContinue && !player.shouldContinue()) {
+        this.cancelled = true;
+        break;
+      }
+
+      player.onClauseStart?.(clause);
+      try {
+        await player.synthesize(clause);
+      } catch (error) {
+        player.onError?.(clause, error as Error);
+      }
+    }
+    this.resolveFinished();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+}
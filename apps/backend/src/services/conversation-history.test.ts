@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { ConversationHistory, estimateTokens } from "./conversation-history";
+
+describe("ConversationHistory", () => {
+  it("should wrap other speakers in speaker envelopes", () => {
+    const history = new ConversationHistory();
+    history.add("you", "What do you both think?");
+
+    const request = history.buildRequest("claude", "You are Claude.");
+
+    expect(request.system).toBe("You are Claude.");
+    expect(request.messages).toEqual([
+      {
+        role: "user",
+        content: '<speaker name="Basil">\nWhat do you both think?\n</speaker>',
+      },
+    ]);
+  });
+
+  it("should attribute an agent's own turns as assistant messages", () => {
+    const history = new ConversationHistory();
+    history.add("you", "Opening question");
+    history.add("claude", "Claude's answer");
+    history.add("guest", "Guest's rebuttal");
+
+    const claudeRequest = history.buildRequest("claude");
+    expect(claudeRequest.messages.map((m: { role: string }) => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(claudeRequest.messages[1].content).toBe("Claude's answer");
+    expect(claudeRequest.messages[2].content).toContain('<speaker name="Guest">');
+
+    const guestRequest = history.buildRequest("guest");
+    expect(guestRequest.messages.map((m: { role: string }) => m.role)).toEqual(["user", "assistant"]);
+    expect(guestRequest.messages[0].content).toContain('<speaker name="Basil">');
+    expect(guestRequest.messages[0].content).toContain('<speaker name="Claude">');
+  });
+
+  it("should open with a user message when the agent spoke first", () => {
+    const history = new ConversationHistory();
+    history.add("claude", "Welcome to the show!");
+
+    const request = history.buildRequest("claude");
+
+    expect(request.messages[0].role).toBe("user");
+    expect(request.messages[1]).toEqual({ role: "assistant", content: "Welcome to the show!" });
+  });
+
+  it("should end with a cue without keeping it in history", () => {
+    const history = new ConversationHistory();
+    history.add("you", "Opening question");
+    history.add("claude", "Claude's answer");
+
+    const request = history.buildRequest("claude", undefined, "[Showrunner] Wrap up.");
+
+    expect(request.messages[request.messages.length - 1]).toEqual({ role: "user", content: "[Showrunner] Wrap up." });
+    expect(history.getEntries()).toHaveLength(2);
+  });
+
+  it("should use custom speaker names", () => {
+    const history = new ConversationHistory({ speakerNames: { guest: "Grok" } });
+    history.add("guest", "Hi");
+
+    const request = history.buildRequest("claude");
+    expect(request.messages[0].content).toContain('<speaker name="Grok">');
+  });
+
+  it("should ignore empty utterances", () => {
+    const history = new ConversationHistory();
+    history.add("you", "   ");
+
+    expect(history.getEntries()).toHaveLength(0);
+  });
+
+  it("should trim old turns into a summary when over budget", () => {
+    const history = new ConversationHistory({ maxTokens: 60 });
+    history.add("you", "First we talked about efficiency. It went on for a while.");
+    history.add("claude", "Then Claude raised privacy concerns in detail.");
+    history.add("guest", "And the guest disagreed strongly about benchmarks.");
+
+    expect(history.estimateTokens()).toBeLessThanOrEqual(60);
+    expect(history.getEntries().length).toBeLessThan(3);
+    expect(history.getSummary()[0]).toBe("- Basil: First we talked about efficiency.");
+
+    const request = history.buildRequest("guest", "You are the guest.");
+    expect(request.system).toContain("You are the guest.");
+    expect(request.system).toContain("Earlier in the conversation");
+    expect(request.system).toContain("Basil: First we talked about efficiency.");
+  });
+
+  it("should always keep the latest turn", () => {
+    const history = new ConversationHistory({ maxTokens: 1 });
+    history.add("you", "A fairly long utterance that exceeds the budget on its own.");
+
+    expect(history.getEntries()).toHaveLength(1);
+  });
+
+  it("should estimate roughly four characters per token", () => {
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
@@ -0,0 +1,145 @@
+import type { AgentId, SpeakerId } from "@basil/shared";
+import type { LlmMessage, LlmRequest } from "../adapters/interfaces.js";
+
+export interface HistoryEntry {
+  speaker: SpeakerId;
+  text: string;
+  timestamp: number;
+}
+
+interface ConversationHistoryConfig {
+  // Approximate token budget for the messages sent with each request
+  maxTokens?: number;
+  speakerNames?: Partial<Record<SpeakerId, string>>;
+}
+
+const DEFAULT_SPEAKER_NAMES: Record<SpeakerId, string> = {
+  you: "Basil",
+  claude: "Claude",
+  guest: "Guest",
+};
+
+// Summary lines kept for turns that fell out of the budget
+const MAX_SUMMARY_LINES = 20;
+const SUMMARY_LINE_LENGTH = 160;
+
+/**
+ * Rolling, speaker-attributed transcript of the conversation.
+ *
+ * Each agent sees its own turns as `assistant` messages and everyone else's
+ * as `user` messages wrapped in `<speaker name="...">` envelopes. When the
+ * transcript exceeds the token budget the oldest turns are dropped and
+ * replaced by a short summary appended to the system prompt.
+ */
+export class ConversationHistory {
+  private config: Required<Omit<ConversationHistoryConfig, "speakerNames">>;
+  private speakerNames: Record<SpeakerId, string>;
+  private entries: HistoryEntry[] = [];
+  private summary: string[] = [];
+
+  constructor(config: ConversationHistoryConfig = {}) {
+    this.config = {
+      maxTokens: config.maxTokens ?? 6000,
+    };
+    this.speakerNames = {
+      ...DEFAULT_SPEAKER_NAMES,
+      ...config.speakerNames,
+    };
+  }
+
+  add(speaker: SpeakerId, text: string, timestamp = Date.now()): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    this.entries.push({ speaker, text: trimmed, timestamp });
+    this.enforceBudget();
+  }
+
+  getEntries(): HistoryEntry[] {
+    return [...this.entries];
+  }
+
+  getSummary(): string[] {
+    return [...this.summary];
+  }
+
+  nameOf(speaker: SpeakerId): string {
+    return this.speakerNames[speaker];
+  }
+
+  /**
+   * Builds the request for one agent from its system prompt and the history.
+   * A `cue` (e.g. a showrunner instruction) is sent as the final user turn
+   * but not kept in the history.
+   */
+  buildRequest(agent: AgentId, systemPrompt?: string, cue?: string): LlmRequest {
+    const messages: LlmMessage[] = [];
+    const push = (message: LlmMessage) => {
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content += `\n\n${message.content}`;
+      } else {
+        messages.push(message);
+      }
+    };
+
+    for (const entry of this.entries) {
+      push(entry.speaker === agent
+        ? { role: "assistant", content: entry.text }
+        : { role: "user", content: this.envelope(entry) });
+    }
+    if (cue) {
+      push({ role: "user", content: cue });
+    }
+
+    // Providers expect the conversation to open with a user turn
+    if (messages.length === 0 || messages[0].role === "assistant") {
+      messages.unshift({ role: "user", content: "(The conversation continues.)" });
+    }
+
+    let system = systemPrompt;
+    if (this.summary.length > 0) {
+      const summaryBlock = `**Earlier in the conversation:**\n${this.summary.join("\n")}`;
+      system = system ? `${system}\n\n${summaryBlock}` : summaryBlock;
+    }
+
+    return { system, messages };
+  }
+
+  estimateTokens(): number {
+    return this.entries.reduce((total, entry) => total + estimateTokens(this.envelope(entry)), 0);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.summary = [];
+  }
+
+  private envelope(entry: HistoryEntry): string {
+    return `<speaker name="${this.speakerNames[entry.speaker]}">\n${entry.text}\n</speaker>`;
+  }
+
+  private enforceBudget(): void {
+    // Always keep the latest turn, even if it alone exceeds the budget
+    while (this.entries.length > 1 && this.estimateTokens() > this.config.maxTokens) {
+      const dropped = this.entries.shift()!;
+      this.summary.push(`- ${this.speakerNames[dropped.speaker]}: ${summarize(dropped.text)}`);
+    }
+
+    if (this.summary.length > MAX_SUMMARY_LINES) {
+      this.summary = this.summary.slice(-MAX_SUMMARY_LINES);
+    }
+  }
+}
+
+// Rough heuristic (~4 characters per token) shared by Claude and Llama tokenizers
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function summarize(text: string): string {
+  const firstSentence = text.match(/^[^.!?]*[.!?]/)?.[0] ?? text;
+  return firstSentence.length > SUMMARY_LINE_LENGTH
+    ? `${firstSentence.slice(0, SUMMARY_LINE_LENGTH - 1).trimEnd()}…`
+    : firstSentence;
+}
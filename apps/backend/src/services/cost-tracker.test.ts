@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import type { UsageLine } from "@basil/shared";
+import { CostTracker } from "./cost-tracker";
+
+describe("CostTracker", () => {
+  it("should total usage per provider, model and speaker", () => {
+    const tracker = new CostTracker();
+
+    tracker.record({ role: "llm", provider: "groq", model: "llama", speaker: "guest", inputTokens: 100, costUsd: 0.01 });
+    tracker.record({ role: "llm", provider: "groq", model: "llama", speaker: "guest", outputTokens: 50, costUsd: 0.02 });
+    tracker.record({ role: "stt", provider: "assemblyai", audioSeconds: 30, costUsd: 0.003 });
+
+    const summary = tracker.summary();
+    expect(summary.totalUsd).toBeCloseTo(0.033);
+    expect(summary.lines).toEqual([
+      expect.objectContaining({ provider: "groq", speaker: "guest", inputTokens: 100, outputTokens: 50 }),
+      expect.objectContaining({ provider: "assemblyai", audioSeconds: 30, costUsd: 0.003 }),
+    ]);
+    expect(summary.lines[0].costUsd).toBeCloseTo(0.03);
+  });
+
+  it("should keep speakers apart on a shared provider", () => {
+    const tracker = new CostTracker();
+
+    tracker.record({ role: "tts", provider: "google", speaker: "claude", characters: 40, costUsd: 0.00064 });
+    tracker.record({ role: "tts", provider: "google", speaker: "guest", characters: 10, costUsd: 0.00016 });
+
+    expect(tracker.summary().lines.map((line: UsageLine) => line.speaker)).toEqual(["claude", "guest"]);
+  });
+
+  it("should only be over budget once the total passes it", () => {
+    const tracker = new CostTracker({ budgetUsd: 0.05 });
+
+    tracker.record({ role: "llm", provider: "claude", costUsd: 0.05 });
+    expect(tracker.isOverBudget).toBe(false);
+    tracker.record({ role: "llm", provider: "claude", costUsd: 0.001 });
+
+    expect(tracker.isOverBudget).toBe(true);
+    expect(tracker.summary().budgetUsd).toBe(0.05);
+  });
+
+  it("should never be over budget without one", () => {
+    const tracker = new CostTracker();
+    tracker.record({ role: "llm", provider: "claude", costUsd: 100 });
+
+    expect(tracker.isOverBudget).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import type { CostUpdatePayload, UsageLine } from "@basil/shared";
+import type { UsageReport } from "../adapters/interfaces.js";
+
+interface CostTrackerConfig {
+  // Hard spending limit for the episode in USD; unlimited when unset
+  budgetUsd?: number;
+}
+
+/**
+ * Running token, audio and character totals for an episode, with their cost,
+ * one line per provider, model and speaker.
+ */
+export class CostTracker {
+  private config: CostTrackerConfig;
+  private lines = new Map<string, UsageLine>();
+  private total = 0;
+
+  constructor(config: CostTrackerConfig = {}) {
+    this.config = config;
+  }
+
+  get totalUsd(): number {
+    return this.total;
+  }
+
+  get isOverBudget(): boolean {
+    return this.config.budgetUsd !== undefined && this.total > this.config.budgetUsd;
+  }
+
+  record(report: UsageReport): void {
+    const key = [report.role, report.provider, report.model ?? "", report.speaker ?? ""].join("|");
+    let line = this.lines.get(key);
+    if (!line) {
+      line = {
+        role: report.role,
+        provider: report.provider,
+        model: report.model,
+        speaker: report.speaker,
+        inputTokens: 0,
+        outputTokens: 0,
+        audioSeconds: 0,
+        characters: 0,
+        costUsd: 0,
+      };
+      this.lines.set(key, line);
+    }
+
+    line.inputTokens += report.inputTokens ?? 0;
+    line.outputTokens += report.outputTokens ?? 0;
+    line.audioSeconds += report.audioSeconds ?? 0;
+    line.characters += report.characters ?? 0;
+    line.costUsd += report.costUsd;
+    this.total += report.costUsd;
+  }
+
+  summary(): CostUpdatePayload {
+    return {
+      totalUsd: this.total,
+      budgetUsd: this.config.budgetUsd,
+      lines: [...this.lines.values()].map((line) => ({ ...line })),
+    };
+  }
+}
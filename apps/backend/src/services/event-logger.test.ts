@@ -112,6 +112,33 @@ describe("EventLogger", () => {
     expect(events[2].latency).toBe(150);
   });
 
+  it("should log LLM retries", async () => {
+    logger.logLlmRetry("session-1", {
+      speaker: "guest",
+      provider: "groq",
+      attempt: 1,
+      maxRetries: 3,
+      delayMs: 2000,
+      status: 429,
+      error: "Rate limit reached",
+    });
+
+    await logger.stop();
+
+    const content = await fs.readFile(path.join(testOutputDir, testEpisodeId, "events.jsonl"), "utf-8");
+    const event = JSON.parse(content.trim());
+
+    expect(event).toMatchObject({
+      type: "llm.retry",
+      speaker: "guest",
+      provider: "groq",
+      attempt: 1,
+      delayMs: 2000,
+      status: 429,
+      reason: "Rate limit reached",
+    });
+  });
+
   it("should log TTS events", async () => {
     const sessionId = "session-1";
     
@@ -159,6 +186,19 @@ describe("EventLogger", () => {
     expect(event.duration).toBe(30000);
   });
 
+  it("should log the return to normal mode", async () => {
+    logger.logNormalMode("session-1", "claude");
+
+    await logger.stop();
+
+    const filePath = path.join(testOutputDir, testEpisodeId, "events.jsonl");
+    const content = await fs.readFile(filePath, "utf-8");
+    const event = JSON.parse(content.trim());
+
+    expect(event.type).toBe("mode.normal");
+    expect(event.speaker).toBe("claude");
+  });
+
   it("should log autopilot toggle events", async () => {
     logger.logAutopilot("session-1", true);
     logger.logAutopilot("session-1", false);
@@ -188,6 +228,31 @@ describe("EventLogger", () => {
     expect(event.interrupted).toEqual(["claude", "guest"]);
   });
 
+  it("should log failover events", async () => {
+    logger.logFailover("session-1", {
+      role: "stt",
+      from: "assemblyai",
+      to: "whisper",
+      error: new Error("socket closed"),
+      circuit: "open",
+    });
+
+    await logger.stop();
+
+    const filePath = path.join(testOutputDir, testEpisodeId, "events.jsonl");
+    const content = await fs.readFile(filePath, "utf-8");
+    const event = JSON.parse(content.trim());
+
+    expect(event).toMatchObject({
+      type: "failover",
+      role: "stt",
+      from: "assemblyai",
+      to: "whisper",
+      reason: "socket closed",
+      circuit: "open",
+    });
+  });
+
   it("should log error events with stack traces", async () => {
     const error = new Error("Test error");
     logger.logError("session-1", error, { service: "stt" });
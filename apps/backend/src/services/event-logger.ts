@@ -1,6 +1,8 @@
 import { createWriteStream, WriteStream } from "node:fs";
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
+import type { TurnLatency, TurnTimings } from "./latency-tracker.js";
+import type { TranscriptEntry } from "./transcript.js";
 
 export type EventType =
   | "session.start"
@@ -9,9 +11,12 @@ export type EventType =
   | "vad.speech-end"
   | "stt.partial"
   | "stt.final"
+  | "caption"
   | "llm.start"
   | "llm.chunk"
   | "llm.complete"
+  | "llm.retry"
+  | "turn.latency"
   | "tts.start"
   | "tts.chunk"
   | "tts.complete"
@@ -19,7 +24,11 @@ export type EventType =
   | "mode.thinking"
   | "mode.normal"
   | "autopilot.toggle"
+  | "segment.change"
   | "barge-in"
+  | "failover"
+  | "usage"
+  | "budget.exceeded"
   | "error";
 
 interface BaseEvent {
@@ -52,17 +61,25 @@ export interface SttEvent extends BaseEvent {
   confidence?: number;
 }
 
+// A transcript entry as the recorder placed it, in ms from the recording start
+export interface CaptionEvent extends BaseEvent, TranscriptEntry {
+  type: "caption";
+}
+
 export interface LlmEvent extends BaseEvent {
   type: "llm.start" | "llm.chunk" | "llm.complete";
   speaker: string;
   text?: string;
   model?: string;
+  // Provider asked first (llm.start), or that served the turn (llm.complete)
+  provider?: string;
   latency?: number;
 }
 
 export interface TtsEvent extends BaseEvent {
   type: "tts.start" | "tts.chunk" | "tts.complete";
   speaker: string;
+  utteranceId?: string;
   text?: string;
   audioSize?: number;
 }
@@ -85,12 +102,75 @@ export interface AutopilotEvent extends BaseEvent {
   enabled: boolean;
 }
 
+export interface SegmentEvent extends BaseEvent {
+  type: "segment.change";
+  segment: string | null;
+  previous: string | null;
+  // How long the previous segment ran
+  previousDuration?: number;
+}
+
 export interface BargeInEvent extends BaseEvent {
   type: "barge-in";
   interrupter: string;
   interrupted: string[];
 }
 
+export interface FailoverLogEvent extends BaseEvent {
+  type: "failover";
+  role: string;
+  speaker?: string;
+  from: string;
+  // Provider tried next; absent when the chain is exhausted
+  to?: string;
+  reason: string;
+  circuit: string;
+}
+
+export interface LlmRetryEvent extends BaseEvent {
+  type: "llm.retry";
+  speaker: string;
+  provider: string;
+  // 1 for the first retry
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  // HTTP status of the failed attempt; absent for connection errors
+  status?: number;
+  reason: string;
+}
+
+export interface TurnLatencyEvent extends BaseEvent {
+  type: "turn.latency";
+  turnId: string;
+  speaker: string;
+  // Epoch ms at which each stage of the turn was reached
+  stamps: Omit<TurnTimings, "turnId" | "speaker">;
+  // Stage durations in ms
+  latency: TurnLatency;
+}
+
+export interface UsageEvent extends BaseEvent {
+  type: "usage";
+  role: string;
+  provider: string;
+  model?: string;
+  speaker?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+  characters?: number;
+  costUsd: number;
+  // Episode total after this report
+  totalUsd: number;
+}
+
+export interface BudgetExceededEvent extends BaseEvent {
+  type: "budget.exceeded";
+  totalUsd: number;
+  budgetUsd: number;
+}
+
 export interface ErrorEvent extends BaseEvent {
   type: "error";
   error: string;
@@ -103,12 +183,19 @@ export type LogEvent =
   | SessionEndEvent
   | VadEvent
   | SttEvent
+  | CaptionEvent
   | LlmEvent
+  | LlmRetryEvent
+  | TurnLatencyEvent
   | TtsEvent
   | OrbStateChangeEvent
   | ModeEvent
   | AutopilotEvent
+  | SegmentEvent
   | BargeInEvent
+  | FailoverLogEvent
+  | UsageEvent
+  | BudgetExceededEvent
   | ErrorEvent;
 
 interface EventLoggerConfig {
@@ -213,12 +300,21 @@ export class EventLogger {
     } as Omit<SttEvent, "timestamp">);
   }
 
-  logLlmStart(sessionId: string, speaker: string, model?: string): void {
+  logCaption(sessionId: string, entry: TranscriptEntry): void {
+    this.log({
+      type: "caption",
+      sessionId,
+      ...entry,
+    } as Omit<CaptionEvent, "timestamp">);
+  }
+
+  logLlmStart(sessionId: string, speaker: string, model?: string, provider?: string): void {
     this.log({
       type: "llm.start",
       sessionId,
       speaker,
       model,
+      provider,
     } as Omit<LlmEvent, "timestamp">);
   }
 
@@ -231,29 +327,34 @@ export class EventLogger {
     } as Omit<LlmEvent, "timestamp">);
   }
 
-  logLlmComplete(sessionId: string, speaker: string, latency: number): void {
+  logLlmComplete(sessionId: string, speaker: string, latency: number, model?: string, provider?: string): void {
     this.log({
       type: "llm.complete",
       sessionId,
       speaker,
       latency,
+      model,
+      provider,
     } as Omit<LlmEvent, "timestamp">);
   }
 
-  logTtsStart(sessionId: string, speaker: string, text: string): void {
+  logTtsStart(sessionId: string, speaker: string, text: string, utteranceId?: string): void {
     this.log({
       type: "tts.start",
       sessionId,
       speaker,
+      utteranceId,
       text,
     } as Omit<TtsEvent, "timestamp">);
   }
 
-  logTtsComplete(sessionId: string, speaker: string): void {
+  logTtsComplete(sessionId: string, speaker: string, utteranceId?: string, audioSize?: number): void {
     this.log({
       type: "tts.complete",
       sessionId,
       speaker,
+      utteranceId,
+      audioSize,
     } as Omit<TtsEvent, "timestamp">);
   }
 
@@ -276,6 +377,14 @@ export class EventLogger {
     } as Omit<ModeEvent, "timestamp">);
   }
 
+  logNormalMode(sessionId: string, speaker: string): void {
+    this.log({
+      type: "mode.normal",
+      sessionId,
+      speaker,
+    } as Omit<ModeEvent, "timestamp">);
+  }
+
   logAutopilot(sessionId: string, enabled: boolean): void {
     this.log({
       type: "autopilot.toggle",
@@ -284,6 +393,21 @@ export class EventLogger {
     } as Omit<AutopilotEvent, "timestamp">);
   }
 
+  logSegmentChange(
+    sessionId: string,
+    segment: string | null,
+    previous: string | null,
+    previousDuration?: number
+  ): void {
+    this.log({
+      type: "segment.change",
+      sessionId,
+      segment,
+      previous,
+      previousDuration,
+    } as Omit<SegmentEvent, "timestamp">);
+  }
+
   logBargeIn(sessionId: string, interrupter: string, interrupted: string[]): void {
     this.log({
       type: "barge-in",
@@ -293,6 +417,81 @@ export class EventLogger {
     } as Omit<BargeInEvent, "timestamp">);
   }
 
+  logFailover(
+    sessionId: string,
+    failover: { role: string; speaker?: string; from: string; to?: string; error: Error; circuit: string }
+  ): void {
+    this.log({
+      type: "failover",
+      sessionId,
+      role: failover.role,
+      speaker: failover.speaker,
+      from: failover.from,
+      to: failover.to,
+      reason: failover.error.message,
+      circuit: failover.circuit,
+    } as Omit<FailoverLogEvent, "timestamp">);
+  }
+
+  logLlmRetry(
+    sessionId: string,
+    retry: {
+      speaker: string;
+      provider: string;
+      attempt: number;
+      maxRetries: number;
+      delayMs: number;
+      status?: number;
+      error: string;
+    }
+  ): void {
+    this.log({
+      type: "llm.retry",
+      sessionId,
+      speaker: retry.speaker,
+      provider: retry.provider,
+      attempt: retry.attempt,
+      maxRetries: retry.maxRetries,
+      delayMs: retry.delayMs,
+      status: retry.status,
+      reason: retry.error,
+    } as Omit<LlmRetryEvent, "timestamp">);
+  }
+
+  logTurnLatency(sessionId: string, turn: TurnTimings, latency: TurnLatency): void {
+    const { turnId, speaker, ...stamps } = turn;
+    this.log({
+      type: "turn.latency",
+      sessionId,
+      turnId,
+      speaker,
+      stamps,
+      latency,
+    } as Omit<TurnLatencyEvent, "timestamp">);
+  }
+
+  logUsage(
+    sessionId: string,
+    usage: Omit<UsageEvent, "type" | "sessionId" | "timestamp" | "totalUsd">,
+    totalUsd: number
+  ): void {
+    this.log({
+      type: "usage",
+      sessionId,
+      ...usage,
+      totalUsd,
+    } as Omit<UsageEvent, "timestamp">);
+  }
+
+  logBudgetExceeded(sessionId: string, totalUsd: number, budgetUsd: number): void {
+    this.log({
+      type: "budget.exceeded",
+      sessionId,
+      totalUsd,
+      budgetUsd,
+    } as Omit<BudgetExceededEvent, "timestamp">);
+  }
+
   logError(sessionId: string, error: Error, context?: Record<string, any>): void {
     this.log({
       type: "error",
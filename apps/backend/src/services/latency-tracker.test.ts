@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { LatencyTracker, type TurnTimings } from "./latency-tracker";
+
+function hostTurn(offsetMs: number, ttftMs: number): TurnTimings {
+  return {
+    turnId: `turn-${offsetMs}`,
+    speaker: "claude",
+    speechEndAt: offsetMs,
+    sttFinalAt: offsetMs + 300,
+    llmStartAt: offsetMs + 310,
+    firstTokenAt: offsetMs + 310 + ttftMs,
+    firstClauseAt: offsetMs + 310 + ttftMs + 100,
+    firstAudioAt: offsetMs + 310 + ttftMs + 350,
+  };
+}
+
+describe("LatencyTracker", () => {
+  it("should compute each stage of a host turn", () => {
+    const tracker = new LatencyTracker();
+
+    expect(tracker.record(hostTurn(0, 400))).toEqual({
+      stt: 300,
+      ttft: 400,
+      tts: 250,
+      response: 750,
+      mouthToEar: 1060,
+    });
+  });
+
+  it("should leave out host stages for Autopilot turns", () => {
+    const tracker = new LatencyTracker();
+
+    const latency = tracker.record({ turnId: "t", speaker: "guest", llmStartAt: 0, firstTokenAt: 200, firstAudioAt: 900 });
+
+    expect(latency).toEqual({ ttft: 200, response: 900 });
+    expect(tracker.stats().stages.mouthToEar).toBeUndefined();
+  });
+
+  it("should report rolling percentiles over the window", () => {
+    const tracker = new LatencyTracker({ windowSize: 10 });
+    // The first 90 turns fall out of the window
+    for (let i = 1; i <= 100; i++) {
+      tracker.record(hostTurn(i * 10_000, i <= 90 ? 5000 : (i - 90) * 100));
+    }
+
+    expect(tracker.stats().stages.ttft).toEqual({ count: 10, p50: 500, p90: 900, p99: 1000 });
+    expect(tracker.summary().stages.ttft).toMatchObject({ count: 100, max: 5000 });
+    expect(tracker.summary().turns).toBe(100);
+  });
+
+  it("should export a Prometheus summary in seconds", () => {
+    const tracker = new LatencyTracker();
+    tracker.record(hostTurn(0, 400));
+    tracker.record(hostTurn(10_000, 600));
+
+    const text = tracker.prometheus();
+
+    expect(text).toContain("# TYPE basil_turn_latency_seconds summary\n");
+    expect(text).toContain('basil_turn_latency_seconds{stage="ttft",quantile="0.5"} 0.4\n');
+    expect(text).toContain('basil_turn_latency_seconds{stage="ttft",quantile="0.99"} 0.6\n');
+    expect(text).toContain('basil_turn_latency_seconds_sum{stage="ttft"} 1\n');
+    expect(text).toContain('basil_turn_latency_seconds_count{stage="ttft"} 2\n');
+  });
+});
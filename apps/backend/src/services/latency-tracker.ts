@@ -0,0 +1,125 @@
+import type { AgentId, LatencyPayload, LatencyStage, LatencyStats } from "@basil/shared";
+
+/**
+ * Timestamps for one agent turn. Host turns carry the host's speech end and
+ * STT final; Autopilot turns start at the LLM request.
+ */
+export interface TurnTimings {
+  turnId: string;
+  speaker: AgentId;
+  speechEndAt?: number;
+  sttFinalAt?: number;
+  llmStartAt: number;
+  firstTokenAt?: number;
+  // First clause handed to TTS, which may wait for the floor
+  firstClauseAt?: number;
+  firstAudioAt?: number;
+}
+
+export type TurnLatency = Partial<Record<LatencyStage, number>>;
+
+export interface LatencySummary {
+  turns: number;
+  stages: Partial<Record<LatencyStage, LatencyStats & { mean: number; max: number }>>;
+}
+
+interface LatencyTrackerConfig {
+  // Recent samples per stage behind the rolling percentiles
+  windowSize?: number;
+}
+
+const STAGES: LatencyStage[] = ["stt", "ttft", "tts", "response", "mouthToEar"];
+
+/**
+ * Turn latencies for an episode: rolling percentiles for the UI and
+ * /metrics, and every sample for the episode summary.
+ */
+export class LatencyTracker {
+  private windowSize: number;
+  private samples = new Map<LatencyStage, number[]>();
+  private sums = new Map<LatencyStage, number>();
+  private turns = 0;
+
+  constructor(config: LatencyTrackerConfig = {}) {
+    this.windowSize = config.windowSize ?? 200;
+  }
+
+  record(turn: TurnTimings): TurnLatency {
+    const latency: TurnLatency = {
+      stt: span(turn.speechEndAt, turn.sttFinalAt),
+      ttft: span(turn.llmStartAt, turn.firstTokenAt),
+      tts: span(turn.firstClauseAt, turn.firstAudioAt),
+      response: span(turn.llmStartAt, turn.firstAudioAt),
+      mouthToEar: span(turn.speechEndAt, turn.firstAudioAt),
+    };
+
+    this.turns++;
+    for (const stage of STAGES) {
+      const value = latency[stage];
+      if (value === undefined) {
+        delete latency[stage];
+        continue;
+      }
+      const samples = this.samples.get(stage) ?? [];
+      samples.push(value);
+      this.samples.set(stage, samples);
+      this.sums.set(stage, (this.sums.get(stage) ?? 0) + value);
+    }
+    return latency;
+  }
+
+  stats(): LatencyPayload {
+    const stages: LatencyPayload["stages"] = {};
+    for (const [stage, samples] of this.samples) {
+      stages[stage] = percentiles(samples.slice(-this.windowSize));
+    }
+    return { stages };
+  }
+
+  summary(): LatencySummary {
+    const stages: LatencySummary["stages"] = {};
+    for (const [stage, samples] of this.samples) {
+      stages[stage] = {
+        ...percentiles(samples),
+        mean: Math.round(this.sums.get(stage)! / samples.length),
+        max: Math.max(...samples),
+      };
+    }
+    return { turns: this.turns, stages };
+  }
+
+  /**
+   * Prometheus text exposition: a summary in seconds with rolling quantiles
+   * and cumulative sum and count.
+   */
+  prometheus(): string {
+    const name = "basil_turn_latency_seconds";
+    const lines = [
+      `# HELP ${name} Latency of each stage of an agent turn.`,
+      `# TYPE ${name} summary`,
+    ];
+    for (const stage of STAGES) {
+      const samples = this.samples.get(stage);
+      if (!samples) continue;
+
+      const stats = percentiles(samples.slice(-this.windowSize));
+      for (const [quantile, value] of [["0.5", stats.p50], ["0.9", stats.p90], ["0.99", stats.p99]] as const) {
+        lines.push(`${name}{stage="${stage}",quantile="${quantile}"} ${value / 1000}`);
+      }
+      lines.push(`${name}_sum{stage="${stage}"} ${this.sums.get(stage)! / 1000}`);
+      lines.push(`${name}_count{stage="${stage}"} ${samples.length}`);
+    }
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+function span(from?: number, to?: number): number | undefined {
+  return from === undefined || to === undefined ? undefined : Math.max(0, to - from);
+}
+
+// Nearest-rank percentiles
+function percentiles(samples: number[]): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return { count: samples.length, p50: rank(0.5), p90: rank(0.9), p99: rank(0.99) };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { LoudnessMeter } from "./loudness";
+
+function sine(seconds: number, frequency: number, amplitude: number): Float32Array {
+  return Float32Array.from({ length: seconds * 48000 }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / 48000));
+}
+
+describe("LoudnessMeter", () => {
+  it("should read a full-scale 997 Hz sine at -3.01 LUFS", () => {
+    const meter = new LoudnessMeter();
+    meter.push(sine(3, 997, 1));
+
+    expect(meter.integrated).toBeCloseTo(-3.01, 1);
+    expect(meter.samplePeak).toBeCloseTo(1, 3);
+  });
+
+  it("should follow level changes in decibels", () => {
+    const meter = new LoudnessMeter();
+    meter.push(sine(3, 997, 0.1));
+
+    expect(meter.integrated).toBeCloseTo(-23.01, 1);
+  });
+
+  it("should give the same reading however the audio is split", () => {
+    const whole = new LoudnessMeter();
+    const split = new LoudnessMeter();
+    const audio = sine(2, 440, 0.3);
+
+    whole.push(audio);
+    split.push(audio.subarray(0, 12345));
+    split.push(audio.subarray(12345));
+
+    expect(split.integrated).toBe(whole.integrated);
+  });
+
+  it("should gate out silence between speech", () => {
+    const meter = new LoudnessMeter();
+    meter.push(sine(2, 997, 0.1));
+    meter.push(new Float32Array(48000 * 4));
+    meter.push(sine(2, 997, 0.1));
+
+    expect(meter.integrated).toBeCloseTo(-23.01, 0);
+  });
+
+  it("should report silence as -Infinity", () => {
+    const meter = new LoudnessMeter();
+    meter.push(new Float32Array(48000));
+
+    expect(meter.integrated).toBe(-Infinity);
+  });
+
+  it("should refuse other sample rates", () => {
+    expect(() => new LoudnessMeter(44100)).toThrow(/48000 Hz/);
+  });
+});
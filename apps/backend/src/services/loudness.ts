@@ -0,0 +1,108 @@
+/**
+ * Integrated loudness per ITU-R BS.1770-4, for normalizing the episode mix.
+ *
+ * Audio is K-weighted, cut into 400 ms blocks overlapping by 75%, and the
+ * blocks are gated twice: at -70 LUFS absolute, then 10 LU below the
+ * loudness of what passed the first gate. Mono only, which is all the
+ * recorder produces.
+ */
+
+// Coefficients the standard specifies for 48 kHz
+const SAMPLE_RATE = 48000;
+// Head-related pre-filter: a high shelf of about +4 dB above 1.5 kHz
+const SHELF = {
+  b: [1.53512485958697, -2.69169618940638, 1.19839281085285],
+  a: [-1.69065929318241, 0.73248077421585],
+};
+// RLB weighting: a high-pass around 38 Hz
+const HIGH_PASS = {
+  b: [1.0, -2.0, 1.0],
+  a: [-1.99004745483398, 0.99007225036621],
+};
+
+const BLOCK_STEP = SAMPLE_RATE / 10;
+const STEPS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+
+class Biquad {
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(private coefficients: { b: number[]; a: number[] }) {}
+
+  process(x: number): number {
+    const { b, a } = this.coefficients;
+    const y = b[0] * x + b[1] * this.x1 + b[2] * this.x2 - a[0] * this.y1 - a[1] * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+export class LoudnessMeter {
+  private shelf = new Biquad(SHELF);
+  private highPass = new Biquad(HIGH_PASS);
+  // Sum of squares of the current 100 ms step, and of the last few steps
+  private stepEnergy = 0;
+  private stepSamples = 0;
+  private recentSteps: number[] = [];
+  // Mean square of every complete 400 ms block
+  private blocks: number[] = [];
+  private peak = 0;
+
+  constructor(sampleRate = SAMPLE_RATE) {
+    if (sampleRate !== SAMPLE_RATE) {
+      throw new Error(`loudness meter runs at ${SAMPLE_RATE} Hz, not ${sampleRate}`);
+    }
+  }
+
+  // Samples in [-1, 1]
+  push(samples: Float32Array): void {
+    for (const sample of samples) {
+      this.peak = Math.max(this.peak, Math.abs(sample));
+      const weighted = this.highPass.process(this.shelf.process(sample));
+      this.stepEnergy += weighted * weighted;
+
+      if (++this.stepSamples === BLOCK_STEP) {
+        this.recentSteps.push(this.stepEnergy);
+        if (this.recentSteps.length > STEPS_PER_BLOCK) this.recentSteps.shift();
+        if (this.recentSteps.length === STEPS_PER_BLOCK) {
+          this.blocks.push(this.recentSteps.reduce((sum, energy) => sum + energy, 0) / (BLOCK_STEP * STEPS_PER_BLOCK));
+        }
+        this.stepEnergy = 0;
+        this.stepSamples = 0;
+      }
+    }
+  }
+
+  /**
+   * Gated loudness of everything pushed so far, in LUFS; -Infinity when
+   * nothing was loud enough to pass the absolute gate.
+   */
+  get integrated(): number {
+    const audible = this.blocks.filter((block) => loudness(block) > ABSOLUTE_GATE_LUFS);
+    if (audible.length === 0) return -Infinity;
+
+    const relativeGate = loudness(mean(audible)) - RELATIVE_GATE_LU;
+    const gated = audible.filter((block) => loudness(block) > relativeGate);
+    return loudness(mean(gated));
+  }
+
+  // Largest absolute sample value seen, before weighting
+  get samplePeak(): number {
+    return this.peak;
+  }
+}
+
+function loudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
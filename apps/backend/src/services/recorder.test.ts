@@ -1,14 +1,27 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { promises as fs } from "node:fs";
 import { RecorderService } from "./recorder";
 import path from "node:path";
 
+const pcm48k = { encoding: "pcm_s16le", sampleRate: 48000, channels: 1 } as const;
+const startTime = new Date("2026-01-01T12:00:00Z").getTime();
+
+// 48 kHz 16-bit samples all set to `value`
+const level = (ms: number, value = 1000) => {
+  const chunk = Buffer.alloc(ms * 96);
+  for (let offset = 0; offset < chunk.length; offset += 2) chunk.writeInt16LE(value, offset);
+  return chunk;
+};
+
 describe("RecorderService", () => {
   const testOutputDir = "./test-recordings";
   const testEpisodeId = "test-recording-456";
   let recorder: RecorderService;
 
   beforeEach(async () => {
+    // The clock only moves when a test moves it, so tracks pad predictably
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(startTime);
     recorder = new RecorderService({
       episodeId: testEpisodeId,
       outputDir: testOutputDir,
@@ -17,6 +30,7 @@ describe("RecorderService", () => {
   });
 
   afterEach(async () => {
+    vi.useRealTimers();
     // Cleanup test files
     try {
       await fs.rm(path.join(testOutputDir, testEpisodeId), { recursive: true });
@@ -32,22 +46,131 @@ describe("RecorderService", () => {
   });
 
   it("should write audio chunks for each speaker", async () => {
-    const audioChunk = Buffer.from("fake audio data");
+    const audioChunk = Buffer.alloc(960);
     
-    await recorder.writeAudioChunk("you", audioChunk);
-    await recorder.writeAudioChunk("claude", audioChunk);
-    await recorder.writeAudioChunk("guest", audioChunk);
+    await recorder.writeAudioChunk("you", audioChunk, pcm48k);
+    await recorder.writeAudioChunk("claude", audioChunk, pcm48k);
+    await recorder.writeAudioChunk("guest", audioChunk, pcm48k);
     
     const files = await recorder.stop();
     
-    expect(files).toContain("you.webm");
-    expect(files).toContain("claude.webm");
-    expect(files).toContain("guest.webm");
+    expect(files).toContain("you.wav");
+    expect(files).toContain("claude.wav");
+    expect(files).toContain("guest.wav");
+  });
+
+  it("should convert PCM tracks to the recording format and keep compressed audio as sent", async () => {
+    const dirPath = path.join(testOutputDir, testEpisodeId);
+    // 100ms of Piper-style 22.05 kHz audio
+    await recorder.writeAudioChunk("claude", Buffer.alloc(4410), { encoding: "pcm_s16le", sampleRate: 22050, channels: 1 });
+    await recorder.writeAudioChunk("you", Buffer.from("webm cluster"), { encoding: "webm_opus", sampleRate: 48000, channels: 1 });
+    // A PCM chunk can't join a compressed track
+    await recorder.writeAudioChunk("you", Buffer.alloc(960), pcm48k);
+
+    const files = await recorder.stop();
+
+    expect(files).toEqual(expect.arrayContaining(["claude.wav", "you.webm"]));
+    // 48 kHz 16-bit mono, less the sample the resampler holds back
+    const wav = await fs.readFile(path.join(dirPath, "claude.wav"));
+    expect(wav.readUInt32LE(24)).toBe(48000);
+    expect(wav.readUInt32LE(40)).toBeCloseTo(9600, -1);
+    expect(wav.length).toBe(44 + wav.readUInt32LE(40));
+    expect(await fs.readFile(path.join(dirPath, "you.webm"), "utf-8")).toBe("webm cluster");
+
+    const yaml = await fs.readFile(path.join(dirPath, "session.yml"), "utf-8");
+    expect(yaml).toContain("  you:\n    file: you.webm\n    encoding: webm_opus");
+    expect(yaml).toContain("  claude:\n    file: claude.wav\n    encoding: pcm_s16le\n    sampleRate: 48000");
+  });
+
+  it("should pad every track with silence onto the recording timeline", async () => {
+    const dirPath = path.join(testOutputDir, testEpisodeId);
+    await recorder.writeAudioChunk("guest", level(100), pcm48k);
+    await recorder.writeAudioChunk("claude", level(100), pcm48k, startTime + 1000);
+    await recorder.writeAudioChunk("you", Buffer.from("webm cluster"), { encoding: "webm_opus", sampleRate: 48000, channels: 1 }, startTime + 500);
+    vi.setSystemTime(startTime + 2000);
+
+    await recorder.stop();
+
+    const guest = await fs.readFile(path.join(dirPath, "guest.wav"));
+    const claude = await fs.readFile(path.join(dirPath, "claude.wav"));
+    // Both run the whole two seconds
+    expect(guest.readUInt32LE(40)).toBe(2000 * 96);
+    expect(claude.readUInt32LE(40)).toBe(2000 * 96);
+    // Claude's audio starts one second in
+    expect(claude.readInt16LE(44 + 1000 * 96 - 2)).toBe(0);
+    expect(claude.readInt16LE(44 + 1000 * 96)).toBe(1000);
+    expect(guest.readInt16LE(44 + 100 * 96)).toBe(0);
+
+    const yaml = await fs.readFile(path.join(dirPath, "session.yml"), "utf-8");
+    expect(yaml).toContain("  you:\n    file: you.webm\n    encoding: webm_opus\n    sampleRate: 48000\n    channels: 1\n    startOffsetMs: 500\n");
+  });
+
+  it("should append chunks that arrive early or within jitter", async () => {
+    await recorder.writeAudioChunk("claude", level(100), pcm48k, startTime);
+    // 30ms late, then ahead of the clock like TTS synthesized faster than real time
+    await recorder.writeAudioChunk("claude", level(100), pcm48k, startTime + 130);
+    await recorder.writeAudioChunk("claude", level(100), pcm48k, startTime + 150);
+    vi.setSystemTime(startTime + 300);
+
+    await recorder.stop();
+
+    const claude = await fs.readFile(path.join(testOutputDir, testEpisodeId, "claude.wav"));
+    expect(claude.readUInt32LE(40)).toBe(300 * 96);
+    const samples = new Int16Array(claude.buffer, claude.byteOffset + 44, 300 * 48);
+    expect(samples.every((sample) => sample === 1000)).toBe(true);
+  });
+
+  it("should mix the tracks into a normalized mix.wav", async () => {
+    const dirPath = path.join(testOutputDir, testEpisodeId);
+    await recorder.writeAudioChunk("you", level(500), pcm48k);
+    await recorder.writeAudioChunk("claude", level(500, -2000), pcm48k, startTime + 500);
+    vi.setSystemTime(startTime + 1000);
+
+    const files = await recorder.stop();
+
+    expect(files).toContain("mix.wav");
+    const mix = await fs.readFile(path.join(dirPath, "mix.wav"));
+    expect(mix.readUInt32LE(40)).toBe(1000 * 96);
+    const yaml = await fs.readFile(path.join(dirPath, "session.yml"), "utf-8");
+    expect(yaml).toContain("mix:\n  file: mix.wav\n  duckDb: 12\n  targetLufs: -14\n");
+  });
+
+  it("should hand out the monitor mix as the clock passes", async () => {
+    const monitored = new RecorderService({ episodeId: `${testEpisodeId}-monitor`, outputDir: testOutputDir, monitor: true });
+    await monitored.start();
+    await monitored.writeAudioChunk("guest", level(100), pcm48k);
+
+    vi.setSystemTime(startTime + 250);
+    const mix = monitored.monitorMix();
+    await monitored.stop();
+    await fs.rm(monitored.getOutputDirectory(), { recursive: true });
+
+    // Everything but the last 200ms
+    expect(mix.length).toBe(50 * 96);
+    expect(mix.readInt16LE(0)).toBe(1000);
+    expect(recorder.monitorMix().length).toBe(0);
+  });
+
+  it("should fall back to WAV when Opus encoding fails", async () => {
+    const opusRecorder = new RecorderService({
+      episodeId: `${testEpisodeId}-opus`,
+      outputDir: testOutputDir,
+      opus: true,
+      ffmpegPath: "/nonexistent/ffmpeg",
+    });
+    await opusRecorder.start();
+    await opusRecorder.writeAudioChunk("guest", Buffer.alloc(960), pcm48k);
+
+    const files = await opusRecorder.stop();
+    await fs.rm(opusRecorder.getOutputDirectory(), { recursive: true });
+
+    expect(files).toContain("guest.wav");
+    expect(files).not.toContain("guest.webm");
   });
 
   it("should create VTT caption files", async () => {
-    recorder.addCaption("you", "Hello world", Date.now());
-    recorder.addCaption("claude", "Hi there", Date.now() + 1000);
+    recorder.addCaption("you", "Hello world", { start: startTime, end: startTime + 1000 });
+    recorder.addCaption("claude", "Hi there", { start: startTime + 1000, end: startTime + 2000 });
     
     const files = await recorder.stop();
     
@@ -57,8 +180,8 @@ describe("RecorderService", () => {
 
   it("should generate valid VTT format", async () => {
     const now = Date.now();
-    recorder.addCaption("you", "First caption", now);
-    recorder.addCaption("you", "Second caption", now + 3000);
+    recorder.addCaption("you", "First caption", { start: now, end: now + 1500 });
+    recorder.addCaption("you", "Second caption", { start: now + 3000, end: now + 4500 });
     
     await recorder.stop();
 
@@ -96,6 +219,57 @@ describe("RecorderService", () => {
     expect(content).toContain("guest:");
   });
 
+  it("should list the models each agent actually used", async () => {
+    recorder.recordModel("claude", "claude-3-5-haiku-20241022");
+    recorder.recordModel("claude", "claude-sonnet-4-20250514");
+    recorder.recordModel("claude", "claude-3-5-haiku-20241022");
+    recorder.recordModel("guest", "llama-3.3-70b-versatile");
+    await recorder.stop();
+
+    const content = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(content).toContain(
+      "models:\n  claude:\n    - claude-3-5-haiku-20241022\n    - claude-sonnet-4-20250514\n  guest:\n    - llama-3.3-70b-versatile\n"
+    );
+  });
+
+  it("should write episode usage and cost into session metadata", async () => {
+    recorder.setUsage({
+      totalUsd: 0.0912,
+      budgetUsd: 1,
+      lines: [
+        {
+          role: "stt",
+          provider: "assemblyai",
+          inputTokens: 0,
+          outputTokens: 0,
+          audioSeconds: 900,
+          characters: 0,
+          costUsd: 0.09,
+        },
+      ],
+    });
+    await recorder.stop();
+
+    const content = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(content).toContain("cost:\n  totalUsd: 0.0912\n  budgetUsd: 1\n");
+    expect(content).toContain("  usage:\n    - role: stt\n      provider: assemblyai\n");
+    expect(content).toContain("      audioSeconds: 900\n");
+  });
+
+  it("should write the episode latency summary into session metadata", async () => {
+    recorder.setLatency({
+      turns: 12,
+      stages: { ttft: { count: 12, p50: 420, p90: 800, p99: 950, mean: 480, max: 950 } },
+    });
+    await recorder.stop();
+
+    const content = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(content).toContain("latency:\n  turns: 12\n  stages:\n    ttft:\n      count: 12\n      p50: 420\n");
+  });
+
   it("should return correct output directory", () => {
     const outputDir = recorder.getOutputDirectory();
     expect(outputDir).toBe(path.join(testOutputDir, testEpisodeId));
@@ -104,9 +278,9 @@ describe("RecorderService", () => {
   it("should handle multiple captions in sequence", async () => {
     const baseTime = Date.now();
     
-    recorder.addCaption("claude", "Caption 1", baseTime);
-    recorder.addCaption("claude", "Caption 2", baseTime + 2000);
-    recorder.addCaption("claude", "Caption 3", baseTime + 4000);
+    recorder.addCaption("claude", "Caption 1", { start: baseTime, end: baseTime + 1500 });
+    recorder.addCaption("claude", "Caption 2", { start: baseTime + 2000, end: baseTime + 3500 });
+    recorder.addCaption("claude", "Caption 3", { start: baseTime + 4000, end: baseTime + 5500 });
     
     await recorder.stop();
 
@@ -136,7 +310,7 @@ describe("RecorderService", () => {
 
   it("should format timestamps correctly", async () => {
     const now = Date.now();
-    recorder.addCaption("you", "Test", now);
+    recorder.addCaption("you", "Test", { start: now, end: now + 500 });
     
     await recorder.stop();
 
@@ -148,6 +322,63 @@ describe("RecorderService", () => {
     expect(content).toMatch(timestampRegex);
   });
 
+  it("should time cues from the audio and split long captions", async () => {
+    recorder.addCaption("claude", "That's a great question, and honestly the answer depends on who you ask. Most people agree.", {
+      start: startTime + 2000,
+      end: startTime + 8000,
+    });
+    recorder.addCaption("you", "So what do you think?", {
+      start: startTime + 500,
+      end: startTime + 1700,
+      words: [
+        { text: "So", start: startTime + 500, end: startTime + 600 },
+        { text: "what", start: startTime + 650, end: startTime + 900 },
+        { text: "do", start: startTime + 900, end: startTime + 1000 },
+        { text: "you", start: startTime + 1000, end: startTime + 1200 },
+        { text: "think?", start: startTime + 1250, end: startTime + 1700 },
+      ],
+    });
+
+    await recorder.stop();
+
+    const dirPath = path.join(testOutputDir, testEpisodeId);
+    const you = await fs.readFile(path.join(dirPath, "you.vtt"), "utf-8");
+    expect(you).toContain("00:00:00.500 --> 00:00:01.700\nSo what do you think?");
+
+    const claude = await fs.readFile(path.join(dirPath, "claude.vtt"), "utf-8");
+    const cues = claude.split("\n\n").slice(1).filter(Boolean);
+    expect(cues.length).toBe(2);
+    expect(cues[0]).toMatch(/^1\n00:00:02\.000 --> /);
+    expect(cues[1]).toMatch(/ --> 00:00:08\.000\n/);
+    for (const line of claude.split("\n")) {
+      expect(line.length).toBeLessThanOrEqual(42);
+    }
+
+    const episode = await fs.readFile(path.join(dirPath, "episode.vtt"), "utf-8");
+    expect(episode).toMatch(/^WEBVTT\n\n1\n00:00:00\.500 --> 00:00:01\.700\n<v Host>So what do you think\?\n\n2\n00:00:02\.000 --> .*\n<v Claude>That's a great question/);
+  });
+
+  it("should write SRT and transcripts with the briefing's speaker names", async () => {
+    recorder = new RecorderService({
+      episodeId: testEpisodeId,
+      outputDir: testOutputDir,
+      title: "Small Models",
+      speakerNames: { you: "Basil" },
+    });
+    await recorder.start();
+    const entry = recorder.addCaption("you", "Hello everyone.", { start: startTime + 1000, end: startTime + 2000 }, "turn-1");
+
+    const files = await recorder.stop();
+
+    expect(entry).toEqual({ turnId: "turn-1", speaker: "you", start: 1000, end: 2000, text: "Hello everyone." });
+    expect(files).toEqual(expect.arrayContaining(["episode.srt", "transcript.json", "transcript.md"]));
+    const dirPath = path.join(testOutputDir, testEpisodeId);
+    const srt = await fs.readFile(path.join(dirPath, "episode.srt"), "utf-8");
+    expect(srt).toBe("1\n00:00:01,000 --> 00:00:02,000\nHello everyone.\n\n");
+    const markdown = await fs.readFile(path.join(dirPath, "transcript.md"), "utf-8");
+    expect(markdown).toBe("# Small Models\n\n**Basil** [00:00:01]\nHello everyone.\n");
+  });
+
   it("should handle captions with default timestamps", () => {
     // Should not throw when timestamp is omitted
     expect(() => {
@@ -159,13 +390,13 @@ describe("RecorderService", () => {
     const chunk1 = Buffer.from("audio chunk 1");
     const chunk2 = Buffer.from("audio chunk 2");
     
-    await expect(recorder.writeAudioChunk("you", chunk1)).resolves.not.toThrow();
-    await expect(recorder.writeAudioChunk("you", chunk2)).resolves.not.toThrow();
+    await expect(recorder.writeAudioChunk("you", chunk1, pcm48k)).resolves.not.toThrow();
+    await expect(recorder.writeAudioChunk("you", chunk2, pcm48k)).resolves.not.toThrow();
   });
 
   it("should close all streams properly on stop", async () => {
-    await recorder.writeAudioChunk("you", Buffer.from("data"));
-    await recorder.writeAudioChunk("claude", Buffer.from("data"));
+    await recorder.writeAudioChunk("you", Buffer.from("data"), pcm48k);
+    await recorder.writeAudioChunk("claude", Buffer.from("data"), pcm48k);
     
     // Should not throw
     await expect(recorder.stop()).resolves.toBeDefined();
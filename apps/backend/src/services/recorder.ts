@@ -1,31 +1,94 @@
-import { createWriteStream, promises as fs } from "node:fs";
+import { promises as fs } from "node:fs";
 import { join } from "node:path";
-import type { SpeakerId } from "@basil/shared";
+import type { AgentId, AudioFormat, CostUpdatePayload, SpeakerId } from "@basil/shared";
+import type { LatencySummary } from "./latency-tracker.js";
+import { AudioConverter, describeFormat, isPcm, sameFormat } from "./audio-format.js";
+import { PassthroughWriter, WavWriter, encodeOpus, type TrackWriter } from "./audio-writer.js";
+import { AudioBus, decodePcm16, encodePcm16, type DuckingConfig, type MixResult } from "./audio-bus.js";
+import type { CaptionWord } from "./captions.js";
+import { writeTranscripts, type TranscriptEntry } from "./transcript.js";
+
+// PCM tracks are all written in this format, whatever each source produced
+export const RECORDING_FORMAT: AudioFormat = { encoding: "pcm_s16le", sampleRate: 48000, channels: 1 };
+
+const BYTES_PER_FRAME = 2;
+// A chunk arriving this much past the end of its track is placed after a
+// silence; anything closer is arrival jitter and is appended directly
+const GAP_TOLERANCE_MS = 40;
+// Silence is written a second at a time
+const SILENCE = Buffer.alloc(RECORDING_FORMAT.sampleRate * BYTES_PER_FRAME);
+// How far the monitor mix trails the clock, so host audio delayed in transit still makes it
+const MONITOR_DELAY_MS = 200;
+// Reading speed assumed for captions that come without timing
+const UNTIMED_MS_PER_CHARACTER = 60;
+
+// Server times (ms) a caption's audio spans, with its words when they were timed
+export interface CaptionTiming {
+  start: number;
+  end: number;
+  words?: CaptionWord[];
+}
+
+// Where a chunk landed on its track, in server time (ms)
+export interface AudioPlacement {
+  start: number;
+  end: number;
+}
 
 interface RecorderConfig {
   outputDir?: string;
   episodeId: string;
+  // Also encode each WAV track to Opus in WebM on stop (needs ffmpeg)
+  opus?: boolean;
+  ffmpegPath?: string;
+  // Agent busses in the mix while the host speaks
+  ducking?: DuckingConfig;
+  // Loudness mix.wav is normalized to
+  targetLufs?: number;
+  // Keep live audio for monitorMix()
+  monitor?: boolean;
+  // For the transcripts, from the briefing
+  title?: string;
+  speakerNames?: Partial<Record<SpeakerId, string>>;
 }
 
-interface VttEntry {
-  startTime: number;
-  endTime: number;
-  text: string;
+interface AudioTrack {
+  writer: TrackWriter;
+  file: string;
+  // As written to the file
+  format: AudioFormat;
+  // From the current source format to `format`; PCM tracks only
+  converter?: AudioConverter;
+  // Set once a chunk in an incompatible format has been dropped
+  rejected: boolean;
+  // Compressed tracks can't be padded; they start this long after the recording
+  startOffsetMs?: number;
 }
 
 export class RecorderService {
   private config: RecorderConfig;
   private outputDir: string;
-  private audioStreams = new Map<SpeakerId, any>();
-  private vttEntries = new Map<SpeakerId, VttEntry[]>();
+  private tracks = new Map<SpeakerId, AudioTrack>();
+  private transcript: TranscriptEntry[] = [];
   private recordingStartTime: number = 0;
+  private usage?: CostUpdatePayload;
+  private latency?: LatencySummary;
+  private bus: AudioBus;
+  private mix?: MixResult;
+  // Models each agent actually generated with, in order of first use
+  private models = new Map<AgentId, Set<string>>([
+    ["claude", new Set()],
+    ["guest", new Set()],
+  ]);
 
   constructor(config: RecorderConfig) {
     this.config = {
       outputDir: "./recordings",
       ...config,
+      targetLufs: config.targetLufs ?? -14,
     };
     this.outputDir = join(this.config.outputDir!, this.config.episodeId);
+    this.bus = new AudioBus(RECORDING_FORMAT.sampleRate, config.ducking);
   }
 
   async start(): Promise<void> {
@@ -33,74 +96,211 @@ export class RecorderService {
     await fs.mkdir(this.outputDir, { recursive: true });
     
     this.recordingStartTime = Date.now();
-    
-    // Initialize VTT arrays for each speaker
-    const speakers: SpeakerId[] = ["you", "claude", "guest"];
-    for (const speaker of speakers) {
-      this.vttEntries.set(speaker, []);
-    }
 
     console.info(`[recorder] started for episode ${this.config.episodeId}`);
   }
 
-  async writeAudioChunk(speaker: SpeakerId, chunk: Buffer): Promise<void> {
-    let stream = this.audioStreams.get(speaker);
-    
-    if (!stream) {
-      const filename = join(this.outputDir, `${speaker}.webm`);
-      stream = createWriteStream(filename);
-      this.audioStreams.set(speaker, stream);
-      console.info(`[recorder] opened audio stream for ${speaker}`);
+  /**
+   * Appends audio to the speaker's track. PCM in any format is converted to
+   * RECORDING_FORMAT and written as WAV; compressed audio is written in the
+   * container it came in. A track keeps whichever kind its first chunk was
+   * and drops chunks of the other.
+   *
+   * PCM tracks share one timeline starting at recordingStartTime: `at` is when
+   * the chunk's first sample was captured or played (server clock, default
+   * now), and a chunk that starts past the end of its track is preceded by
+   * silence. Chunks that arrive early, like TTS synthesized faster than real
+   * time, are appended. Returns where a PCM chunk landed.
+   */
+  async writeAudioChunk(
+    speaker: SpeakerId,
+    chunk: Buffer,
+    format: AudioFormat,
+    at = Date.now()
+  ): Promise<AudioPlacement | undefined> {
+    let track = this.tracks.get(speaker);
+
+    if (!track) {
+      const pcm = isPcm(format);
+      const trackFormat = pcm ? RECORDING_FORMAT : format;
+      const file = `${speaker}.${pcm ? "wav" : "webm"}`;
+      const path = join(this.outputDir, file);
+      const writer = pcm ? new WavWriter(path, trackFormat) : new PassthroughWriter(path);
+      track = { writer, file, format: trackFormat, rejected: false };
+      if (!pcm) {
+        track.startOffsetMs = Math.max(0, at - this.recordingStartTime);
+      }
+      this.tracks.set(speaker, track);
+      console.info(`[recorder] opened audio stream for ${speaker} (${describeFormat(trackFormat)})`);
+    }
+
+    if (!isPcm(format) || !isPcm(track.format)) {
+      if (sameFormat(format, track.format)) {
+        track.writer.write(chunk);
+      } else if (!track.rejected) {
+        track.rejected = true;
+        console.warn(
+          `[recorder] dropping ${describeFormat(format)} audio for ${speaker}: track is ${describeFormat(track.format)}`
+        );
+      }
+      return;
     }
 
-    stream.write(chunk);
+    // A failover can switch the source format mid-episode
+    if (!track.converter || !sameFormat(track.converter.from, format)) {
+      track.converter = new AudioConverter(format, track.format);
+    }
+    const audio = track.converter.convert(chunk);
+    this.padTo(track, this.frameAt(at), (GAP_TOLERANCE_MS * RECORDING_FORMAT.sampleRate) / 1000);
+    const startFrame = this.framesWritten(track);
+    if (this.config.monitor) {
+      this.bus.push(speaker, startFrame, decodePcm16(audio));
+    }
+    track.writer.write(audio);
+    return { start: this.timeAt(startFrame), end: this.timeAt(this.framesWritten(track)) };
   }
 
-  addCaption(speaker: SpeakerId, text: string, timestamp?: number): void {
-    const entries = this.vttEntries.get(speaker);
-    if (!entries) return;
+  // Server time of a frame of the recording timeline
+  private timeAt(frame: number): number {
+    return this.recordingStartTime + (frame * 1000) / RECORDING_FORMAT.sampleRate;
+  }
 
-    const now = timestamp || Date.now();
-    const relativeTime = now - this.recordingStartTime;
-    
-    // Add entry with estimated duration (will be updated on next caption)
-    const entry: VttEntry = {
-      startTime: relativeTime,
-      endTime: relativeTime + 3000, // Default 3s duration
-      text,
-    };
+  /**
+   * The VAD heard the host start or stop speaking at `at` (server clock);
+   * agent busses are ducked in between.
+   */
+  markHostSpeech(speaking: boolean, at = Date.now()): void {
+    this.bus.markHostSpeech(speaking, this.frameAt(at));
+  }
+
+  /**
+   * Monitor mix since the last call, in RECORDING_FORMAT, trailing the clock
+   * slightly. Empty unless the recorder was created with `monitor`.
+   */
+  monitorMix(): Buffer {
+    if (!this.config.monitor) return Buffer.alloc(0);
+    return encodePcm16(this.bus.takeMonitorMix(this.frameAt(Date.now() - MONITOR_DELAY_MS)));
+  }
+
+  // Frame of the recording timeline at a server time
+  private frameAt(time: number): number {
+    return Math.round(((time - this.recordingStartTime) * RECORDING_FORMAT.sampleRate) / 1000);
+  }
+
+  private framesWritten(track: AudioTrack): number {
+    return Math.floor(track.writer.bytesWritten / BYTES_PER_FRAME);
+  }
 
-    // Update previous entry's end time
-    if (entries.length > 0) {
-      entries[entries.length - 1].endTime = relativeTime;
+  // Writes silence until the track reaches `frame`, if it's more than `tolerance` frames short
+  private padTo(track: AudioTrack, frame: number, tolerance = 0): void {
+    let missing = frame - this.framesWritten(track);
+    if (missing <= tolerance) return;
+
+    while (missing > 0) {
+      const frames = Math.min(missing, SILENCE.length / BYTES_PER_FRAME);
+      track.writer.write(SILENCE.subarray(0, frames * BYTES_PER_FRAME));
+      missing -= frames;
+    }
+  }
+
+  /**
+   * Adds a caption to the transcript. Timing places it against the audio;
+   * without it the caption starts now and lasts as long as it takes to read.
+   * Returns the entry, in milliseconds from the start of the recording.
+   */
+  addCaption(speaker: SpeakerId, text: string, timing?: CaptionTiming, turnId?: string): TranscriptEntry {
+    const start = (timing?.start ?? Date.now()) - this.recordingStartTime;
+    const end = timing ? timing.end - this.recordingStartTime : start + text.length * UNTIMED_MS_PER_CHARACTER;
+    const entry: TranscriptEntry = { turnId, speaker, start, end, text };
+    if (timing?.words?.length) {
+      entry.words = timing.words.map((word) => ({
+        text: word.text,
+        start: word.start - this.recordingStartTime,
+        end: word.end - this.recordingStartTime,
+      }));
     }
 
-    entries.push(entry);
+    this.transcript.push(entry);
+    return entry;
+  }
+
+  /**
+   * Episode usage and cost, written into session.yml on stop.
+   */
+  setUsage(usage: CostUpdatePayload): void {
+    this.usage = usage;
+  }
+
+  /**
+   * Episode turn latencies, written into session.yml on stop.
+   */
+  setLatency(latency: LatencySummary): void {
+    this.latency = latency;
+  }
+
+  /**
+   * Notes the model an agent generated a turn with, for session.yml.
+   */
+  recordModel(speaker: AgentId, model: string): void {
+    this.models.get(speaker)?.add(model);
   }
 
   async stop(): Promise<string[]> {
     const files: string[] = [];
 
+    // Pad every PCM track to the same length: the end of the recording, or
+    // the end of audio queued past it
+    const pcmTracks = [...this.tracks.values()].filter((track) => track.writer instanceof WavWriter);
+    const endFrame = Math.max(this.frameAt(Date.now()), ...pcmTracks.map((track) => this.framesWritten(track)));
+    for (const track of pcmTracks) {
+      this.padTo(track, endFrame);
+    }
+
     // Close all audio streams
-    for (const [speaker, stream] of this.audioStreams) {
-      await new Promise<void>((resolve) => {
-        stream.end(() => {
-          console.info(`[recorder] closed audio stream for ${speaker}`);
-          resolve();
-        });
-      });
-      files.push(`${speaker}.webm`);
+    for (const [speaker, track] of this.tracks) {
+      await track.writer.close();
+      console.info(`[recorder] closed audio stream for ${speaker}`);
+      files.push(track.file);
+
+      if (this.config.opus && track.writer instanceof WavWriter) {
+        const opusFile = `${speaker}.webm`;
+        try {
+          await encodeOpus(join(this.outputDir, track.file), join(this.outputDir, opusFile), this.config.ffmpegPath);
+          files.push(opusFile);
+        } catch (error) {
+          console.warn(`[recorder] could not encode ${track.file} to Opus, keeping WAV only:`, error);
+        }
+      }
     }
 
-    // Write VTT caption files
-    for (const [speaker, entries] of this.vttEntries) {
-      const vttContent = this.generateVtt(entries);
-      const vttPath = join(this.outputDir, `${speaker}.vtt`);
-      await fs.writeFile(vttPath, vttContent, "utf-8");
-      files.push(`${speaker}.vtt`);
-      console.info(`[recorder] wrote VTT for ${speaker}`);
+    // Mix the aligned WAV tracks down to one file for publishing
+    const mixTracks = new Map(
+      [...this.tracks]
+        .filter(([, track]) => track.writer instanceof WavWriter)
+        .map(([speaker, track]) => [speaker, join(this.outputDir, track.file)])
+    );
+    if (mixTracks.size > 0) {
+      try {
+        this.mix = await this.bus.export(mixTracks, join(this.outputDir, "mix.wav"), this.config.targetLufs!);
+        files.push("mix.wav");
+        console.info(
+          `[recorder] wrote mix at ${this.mix.outputLufs.toFixed(1)} LUFS (gain ${this.mix.gainDb.toFixed(1)} dB)`
+        );
+      } catch (error) {
+        console.warn(`[recorder] mixdown failed:`, error);
+      }
     }
 
+    // Captions and transcripts
+    files.push(
+      ...(await writeTranscripts(this.outputDir, this.transcript, {
+        episodeId: this.config.episodeId,
+        title: this.config.title,
+        speakerNames: this.config.speakerNames,
+      }))
+    );
+    console.info(`[recorder] wrote transcript of ${this.transcript.length} captions`);
+
     // Write session metadata
     await this.writeSessionMetadata();
     files.push("session.yml");
@@ -109,29 +309,6 @@ export class RecorderService {
     return files;
   }
 
-  private generateVtt(entries: VttEntry[]): string {
-    let vtt = "WEBVTT\n\n";
-    
-    for (let i = 0; i < entries.length; i++) {
-      const entry = entries[i];
-      vtt += `${i + 1}\n`;
-      vtt += `${this.formatTime(entry.startTime)} --> ${this.formatTime(entry.endTime)}\n`;
-      vtt += `${entry.text}\n\n`;
-    }
-
-    return vtt;
-  }
-
-  private formatTime(ms: number): string {
-    const totalSeconds = Math.floor(ms / 1000);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
-    const milliseconds = ms % 1000;
-
-    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}.${String(milliseconds).padStart(3, "0")}`;
-  }
-
   private async writeSessionMetadata(): Promise<void> {
     const metadata = {
       episodeId: this.config.episodeId,
@@ -139,8 +316,8 @@ export class RecorderService {
       recordingEndTime: new Date().toISOString(),
       duration: Date.now() - this.recordingStartTime,
       models: {
-        claude: process.env.CLAUDE_MODEL || "claude-3-5-haiku-20241022",
-        guest: process.env.GUEST_MODEL || "unknown",
+        claude: [...this.models.get("claude")!],
+        guest: [...this.models.get("guest")!],
         stt: process.env.STT_PROVIDER || "mock",
         tts: process.env.TTS_PROVIDER || "mock",
       },
@@ -148,6 +325,34 @@ export class RecorderService {
         nodeVersion: process.version,
         platform: process.platform,
       },
+      ...(this.usage && {
+        cost: {
+          totalUsd: this.usage.totalUsd.toFixed(4),
+          budgetUsd: this.usage.budgetUsd,
+          usage: this.usage.lines.map((line) => ({ ...line, costUsd: line.costUsd.toFixed(4) })),
+        },
+      }),
+      // Each track's file and format as recorded. PCM tracks all start at
+      // recordingStartTime; compressed ones list their offset from it
+      ...(this.tracks.size > 0 && {
+        audio: Object.fromEntries(
+          [...this.tracks].map(([speaker, { file, format, startOffsetMs }]) => [
+            speaker,
+            { file, ...format, ...(startOffsetMs !== undefined && { startOffsetMs }) },
+          ])
+        ),
+      }),
+      ...(this.mix && {
+        mix: {
+          file: "mix.wav",
+          duckDb: this.bus.duckDb,
+          targetLufs: this.config.targetLufs,
+          loudnessLufs: this.mix.loudnessLufs.toFixed(1),
+          gainDb: this.mix.gainDb.toFixed(1),
+        },
+      }),
+      // Milliseconds per stage over every turn of the episode
+      ...(this.latency && { latency: this.latency }),
     };
 
     const yamlContent = this.objectToYaml(metadata);
@@ -168,7 +373,12 @@ export class RecorderService {
       } else if (Array.isArray(value)) {
         yaml += `${spaces}${key}:\n`;
         for (const item of value) {
-          yaml += `${spaces}  - ${item}\n`;
+          if (typeof item === "object" && item !== null) {
+            // "- " followed by the object's keys, indented under the dash
+            yaml += this.objectToYaml(item, indent + 2).replace(`${spaces}    `, `${spaces}  - `);
+          } else {
+            yaml += `${spaces}  - ${item}\n`;
+          }
         }
       } else {
         yaml += `${spaces}${key}: ${value}\n`;
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RUN_OF_SHOW, Showrunner, type SegmentDefinition } from "./showrunner";
+
+const prompts = { claude: "Claude cue", guest: "Guest cue" };
+
+function segment(overrides: Partial<SegmentDefinition>): SegmentDefinition {
+  return {
+    id: "cross-exam",
+    title: "Cross-Examination",
+    minDurationMs: 10_000,
+    maxDurationMs: 20_000,
+    turns: ["claude", "guest"],
+    prompts,
+    ...overrides,
+  };
+}
+
+describe("Showrunner", () => {
+  let eventLogger: any;
+  let onSegmentChange: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    eventLogger = { logSegmentChange: vi.fn(), logError: vi.fn() };
+    onSegmentChange = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Each turn "speaks" for turnMs of fake time
+  function turnsTaking(turnMs: number) {
+    return vi.fn((..._args: any[]) => new Promise<void>((resolve) => setTimeout(resolve, turnMs)));
+  }
+
+  it("should follow the spec's run of show", () => {
+    expect(RUN_OF_SHOW.map((s: SegmentDefinition) => s.id)).toEqual([
+      "cold-open",
+      "guest-stance",
+      "cross-exam",
+      "steelman-swap",
+      "verdict",
+      "outro",
+    ]);
+    const crossExam = RUN_OF_SHOW.find((s: SegmentDefinition) => s.id === "cross-exam")!;
+    expect(crossExam.minDurationMs).toBe(120_000);
+    expect(crossExam.maxDurationMs).toBe(240_000);
+  });
+
+  it("should alternate turns until the minimum duration has passed", async () => {
+    const runTurn = turnsTaking(4000);
+    const showrunner = new Showrunner({
+      sessionId: "session-1",
+      eventLogger,
+      runTurn,
+      onSegmentChange,
+      segments: [segment({})],
+    });
+
+    const done = showrunner.run();
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    await expect(done).resolves.toBe(true);
+    // 0, 4, 8 s start a turn; at 12 s the minimum has passed
+    expect(runTurn.mock.calls.map((call: any) => call[0])).toEqual(["claude", "guest", "claude"]);
+    expect(runTurn.mock.calls[0][2]).toContain("[Showrunner: Cross-Examination");
+    expect(runTurn.mock.calls[0][2]).toContain("Claude cue");
+  });
+
+  it("should not start turns past the maximum duration", async () => {
+    const runTurn = turnsTaking(15_000);
+    const showrunner = new Showrunner({
+      sessionId: "session-1",
+      eventLogger,
+      runTurn,
+      onSegmentChange,
+      segments: [segment({ minDurationMs: 20_000, maxDurationMs: 25_000, turns: ["claude", "guest", "claude"] })],
+    });
+
+    const done = showrunner.run();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    await expect(done).resolves.toBe(true);
+    expect(runTurn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should respect the turn cap", async () => {
+    const runTurn = turnsTaking(1000);
+    const showrunner = new Showrunner({
+      sessionId: "session-1",
+      eventLogger,
+      runTurn,
+      onSegmentChange,
+      segments: [segment({ id: "cold-open", turns: ["claude"], maxTurns: 1 })],
+    });
+
+    const done = showrunner.run();
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    await expect(done).resolves.toBe(true);
+    expect(runTurn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should announce and log every transition", async () => {
+    const showrunner = new Showrunner({
+      sessionId: "session-1",
+      eventLogger,
+      runTurn: turnsTaking(1000),
+      onSegmentChange,
+      segments: [
+        segment({ id: "cold-open", title: "Cold Open", turns: ["claude"], maxTurns: 1 }),
+        segment({ id: "outro", title: "Outro", turns: ["claude"], maxTurns: 1 }),
+      ],
+    });
+
+    const done = showrunner.run();
+    await vi.advanceTimersByTimeAsync(10_000);
+    await done;
+
+    expect(onSegmentChange.mock.calls.map((call: any) => call[0].segment)).toEqual(["cold-open", "outro", null]);
+    expect(onSegmentChange.mock.calls[1][0]).toMatchObject({ title: "Outro", index: 1, total: 2 });
+    expect(eventLogger.logSegmentChange).toHaveBeenNthCalledWith(1, "session-1", "cold-open", null, undefined);
+    expect(eventLogger.logSegmentChange).toHaveBeenNthCalledWith(2, "session-1", "outro", "cold-open", 1000);
+    expect(eventLogger.logSegmentChange).toHaveBeenNthCalledWith(3, "session-1", null, "outro", 1000);
+  });
+
+  it("should stop after the current turn", async () => {
+    const runTurn = turnsTaking(4000);
+    const showrunner = new Showrunner({
+      sessionId: "session-1",
+      eventLogger,
+      runTurn,
+      onSegmentChange,
+      segments: RUN_OF_SHOW,
+    });
+
+    const done = showrunner.run();
+    await vi.advanceTimersByTimeAsync(1000);
+    showrunner.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await expect(done).resolves.toBe(false);
+    expect(runTurn).toHaveBeenCalledTimes(1);
+    expect(showrunner.isRunning).toBe(false);
+    expect(onSegmentChange).toHaveBeenLastCalledWith(expect.objectContaining({ segment: null }));
+  });
+
+  it("should keep going when a turn fails, without spinning", async () => {
+    const runTurn = vi.fn().mockRejectedValue(new Error("llm down"));
+    const showrunner = new Showrunner({
+      sessionId: "session-1",
+      eventLogger,
+      runTurn,
+      onSegmentChange,
+      segments: [segment({})],
+    });
+
+    const done = showrunner.run();
+    await vi.advanceTimersByTimeAsync(30_000);
+    await done;
+
+    expect(eventLogger.logError).toHaveBeenCalledWith("session-1", expect.any(Error), expect.objectContaining({ service: "showrunner" }));
+    // One turn per second until the minimum duration
+    expect(runTurn.mock.calls.length).toBeLessThanOrEqual(11);
+  });
+});
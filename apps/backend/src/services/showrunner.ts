@@ -0,0 +1,239 @@
+import type { AgentId, SegmentChangePayload, SegmentId } from "@basil/shared";
+import type { GenerationSettings } from "../adapters/interfaces.js";
+import type { EventLogger } from "./event-logger.js";
+
+export interface SegmentDefinition {
+  id: SegmentId;
+  title: string;
+  minDurationMs: number;
+  maxDurationMs: number;
+  // Speaking order within the segment; repeats until the segment ends
+  turns: AgentId[];
+  // Stop after this many turns even if time remains
+  maxTurns?: number;
+  // Segment instruction for each agent, sent as a cue with their turn
+  prompts: Record<AgentId, string>;
+  // Model overrides for the segment, e.g. a larger model for the verdict
+  generation?: Partial<Record<AgentId, GenerationSettings>>;
+}
+
+/**
+ * Run of show from the spec: cold open → guest stance → cross-exam →
+ * steelman swap → verdict → outro.
+ */
+export const RUN_OF_SHOW: SegmentDefinition[] = [
+  {
+    id: "cold-open",
+    title: "Cold Open",
+    minDurationMs: 15_000,
+    maxDurationMs: 15_000,
+    turns: ["claude"],
+    maxTurns: 1,
+    prompts: {
+      claude: "Open the episode with a one- or two-sentence hook on today's topic and introduce the guest.",
+      guest: "Say hello in one sentence.",
+    },
+  },
+  {
+    id: "guest-stance",
+    title: "Guest Stance",
+    minDurationMs: 60_000,
+    maxDurationMs: 60_000,
+    turns: ["guest", "claude"],
+    prompts: {
+      claude: "Ask the guest one short question that sharpens their position. Don't argue yet.",
+      guest: "State your position on the topic clearly, with your strongest reasons.",
+    },
+  },
+  {
+    id: "cross-exam",
+    title: "Cross-Examination",
+    minDurationMs: 120_000,
+    maxDurationMs: 240_000,
+    turns: ["claude", "guest"],
+    prompts: {
+      claude: "Cross-examine the guest: probe the weakest point in their last answer with a pointed question or counterexample.",
+      guest: "Answer the challenge directly, then push back on Claude's assumptions.",
+    },
+  },
+  {
+    id: "steelman-swap",
+    title: "Steelman Swap",
+    minDurationMs: 90_000,
+    maxDurationMs: 90_000,
+    turns: ["claude", "guest"],
+    prompts: {
+      claude: "Steelman the guest's position: argue for it as convincingly as you can.",
+      guest: "Steelman Claude's position: argue for it as convincingly as you can.",
+    },
+  },
+  {
+    id: "verdict",
+    title: "Verdict",
+    minDurationMs: 45_000,
+    maxDurationMs: 45_000,
+    turns: ["guest", "claude"],
+    maxTurns: 2,
+    prompts: {
+      claude: "Give your verdict: where you landed, what changed your mind, and what's still open.",
+      guest: "Give your verdict in a few sentences: where you landed and why.",
+    },
+  },
+  {
+    id: "outro",
+    title: "Outro",
+    minDurationMs: 15_000,
+    maxDurationMs: 15_000,
+    turns: ["claude"],
+    maxTurns: 1,
+    prompts: {
+      claude: "Close the episode: thank the guest and the audience in one or two sentences.",
+      guest: "Say goodbye in one sentence.",
+    },
+  },
+];
+
+interface ShowrunnerConfig {
+  sessionId: string;
+  eventLogger: EventLogger;
+  // Runs one agent turn and resolves once it has been spoken
+  runTurn: (agent: AgentId, segment: SegmentDefinition, cue: string) => Promise<void>;
+  onSegmentChange: (payload: SegmentChangePayload) => void;
+  segments?: SegmentDefinition[];
+  // Turns that fail or come back empty still take this long, so the loop can't spin
+  minTurnMs?: number;
+}
+
+/**
+ * Drives an Autopilot episode through the run of show.
+ *
+ * Each segment hands turns to the agents in order with a segment-specific
+ * cue. A segment ends once it has run for its minimum duration and every
+ * agent in it has spoken, or when it hits its maximum duration or turn cap.
+ * A turn in progress is never cut off; the next one just isn't started.
+ */
+export class Showrunner {
+  private config: ShowrunnerConfig & { segments: SegmentDefinition[]; minTurnMs: number };
+  private stopped = false;
+  private running = false;
+  private current?: { segment: SegmentDefinition; index: number; startedAt: number };
+
+  constructor(config: ShowrunnerConfig) {
+    this.config = {
+      ...config,
+      segments: config.segments ?? RUN_OF_SHOW,
+      minTurnMs: config.minTurnMs ?? 1000,
+    };
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get segment(): SegmentChangePayload | undefined {
+    return this.current ? this.payload(this.current.segment, this.current.index, this.current.startedAt) : undefined;
+  }
+
+  /**
+   * Runs the whole show. Resolves true when the outro finished, false when
+   * stopped early.
+   */
+  async run(): Promise<boolean> {
+    if (this.running) return false;
+    this.running = true;
+    this.stopped = false;
+
+    try {
+      const { segments } = this.config;
+      for (let index = 0; index < segments.length && !this.stopped; index++) {
+        await this.runSegment(segments[index], index);
+      }
+      return !this.stopped;
+    } finally {
+      this.enter(undefined);
+      this.running = false;
+    }
+  }
+
+  /**
+   * Ends the show after the turn in progress.
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private async runSegment(segment: SegmentDefinition, index: number): Promise<void> {
+    const startedAt = this.enter({ segment, index });
+    let turns = 0;
+
+    while (!this.stopped) {
+      const elapsed = Date.now() - startedAt;
+      const everyoneSpoke = turns >= segment.turns.length;
+      if (elapsed >= segment.maxDurationMs) break;
+      if (segment.maxTurns !== undefined && turns >= segment.maxTurns) break;
+      if (elapsed >= segment.minDurationMs && everyoneSpoke) break;
+
+      const agent = segment.turns[turns % segment.turns.length];
+      const remainingSeconds = Math.max(5, Math.round((segment.maxDurationMs - elapsed) / 1000));
+      const cue = `[Showrunner: ${segment.title}, about ${remainingSeconds}s left] ${segment.prompts[agent]}`;
+
+      const turnStartedAt = Date.now();
+      try {
+        await this.config.runTurn(agent, segment, cue);
+      } catch (error) {
+        console.error(`[showrunner] turn failed for ${agent} in ${segment.id}:`, error);
+        this.config.eventLogger.logError(this.config.sessionId, error as Error, {
+          service: "showrunner",
+          segment: segment.id,
+          speaker: agent,
+        });
+      }
+      turns++;
+
+      const turnMs = Date.now() - turnStartedAt;
+      if (turnMs < this.config.minTurnMs) {
+        await new Promise((resolve) => setTimeout(resolve, this.config.minTurnMs - turnMs));
+      }
+    }
+  }
+
+  /**
+   * Switches to `next` (or to no segment), logging and announcing the change.
+   * Returns the start time of the new segment.
+   */
+  private enter(next: { segment: SegmentDefinition; index: number } | undefined): number {
+    const previous = this.current;
+    const startedAt = Date.now();
+    if (!previous && !next) return startedAt;
+
+    this.current = next && { ...next, startedAt };
+
+    const { sessionId, eventLogger, segments } = this.config;
+    console.info(`[showrunner] ${previous?.segment.id ?? "start"} → ${next?.segment.id ?? "end"}`);
+    eventLogger.logSegmentChange(
+      sessionId,
+      next?.segment.id ?? null,
+      previous?.segment.id ?? null,
+      previous ? startedAt - previous.startedAt : undefined
+    );
+    this.config.onSegmentChange(
+      next
+        ? this.payload(next.segment, next.index, startedAt)
+        : { segment: null, index: segments.length, total: segments.length, startedAt }
+    );
+
+    return startedAt;
+  }
+
+  private payload(segment: SegmentDefinition, index: number, startedAt: number): SegmentChangePayload {
+    return {
+      segment: segment.id,
+      title: segment.title,
+      index,
+      total: this.config.segments.length,
+      startedAt,
+      minDurationMs: segment.minDurationMs,
+      maxDurationMs: segment.maxDurationMs,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { SttTimeline } from "./stt-timeline";
+
+describe("SttTimeline", () => {
+  it("should map contiguous audio linearly", () => {
+    const timeline = new SttTimeline();
+    timeline.sent(0.1, 10_100);
+    timeline.sent(0.1, 10_200);
+    timeline.sent(0.1, 10_305);
+
+    expect(timeline.toTime(0)).toBe(10_000);
+    expect(timeline.toTime(0.25)).toBe(10_250);
+  });
+
+  it("should skip the pauses VAD gating kept from STT", () => {
+    const timeline = new SttTimeline();
+    timeline.sent(1, 11_000);
+    // Four seconds of silence never reached STT
+    timeline.sent(1, 16_000);
+
+    expect(timeline.toTime(0.5)).toBe(10_500);
+    expect(timeline.toTime(1.5)).toBe(15_500);
+  });
+
+  it("should start over after a reset", () => {
+    const timeline = new SttTimeline();
+    timeline.sent(1, 11_000);
+    timeline.reset();
+
+    expect(timeline.toTime(0)).toBeUndefined();
+    timeline.sent(1, 21_000);
+    expect(timeline.toTime(0)).toBe(20_000);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Maps STT stream time (seconds into the audio the adapter has been sent)
+ * back to server time. With VAD gating only speech reaches STT, so the two
+ * clocks part at every pause; each stretch of contiguous audio gets an
+ * anchor.
+ */
+
+interface Anchor {
+  streamSeconds: number;
+  at: number;
+}
+
+// Audio starting this close to where the previous stretch ended continues it
+const CONTIGUOUS_MS = 20;
+
+export class SttTimeline {
+  private anchors: Anchor[] = [];
+  private sentSeconds = 0;
+
+  /**
+   * Notes `seconds` of audio sent to STT, ending at server time `endAt`.
+   */
+  sent(seconds: number, endAt: number): void {
+    if (seconds <= 0) return;
+
+    const startAt = endAt - seconds * 1000;
+    const last = this.anchors[this.anchors.length - 1];
+    const expected = last ? last.at + (this.sentSeconds - last.streamSeconds) * 1000 : undefined;
+    if (expected === undefined || Math.abs(startAt - expected) > CONTIGUOUS_MS) {
+      this.anchors.push({ streamSeconds: this.sentSeconds, at: startAt });
+    }
+    this.sentSeconds += seconds;
+  }
+
+  // Server time of a point in the stream
+  toTime(streamSeconds: number): number | undefined {
+    let low = 0;
+    let high = this.anchors.length - 1;
+    if (high < 0) return undefined;
+
+    // Last anchor at or before the point
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.anchors[middle].streamSeconds <= streamSeconds) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    const anchor = this.anchors[low];
+    return anchor.at + (streamSeconds - anchor.streamSeconds) * 1000;
+  }
+
+  // A new STT stream counts from zero again
+  reset(): void {
+    this.anchors = [];
+    this.sentSeconds = 0;
+  }
+}
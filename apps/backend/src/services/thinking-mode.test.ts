@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ThinkingModeController, splitThinkingTrigger } from "./thinking-mode";
+
+describe("splitThinkingTrigger", () => {
+  it("should split at the trigger phrase", () => {
+    expect(splitThinkingTrigger("Good question. Can I think for a minute? The short answer")).toEqual({
+      ask: "Good question. Can I think for a minute?",
+      rest: " The short answer",
+    });
+  });
+
+  it("should match variants case-insensitively", () => {
+    expect(splitThinkingTrigger("can I think about that for a moment")).toBeDefined();
+  });
+
+  it("should ignore text without the trigger", () => {
+    expect(splitThinkingTrigger("I think that's right.")).toBeUndefined();
+  });
+});
+
+describe("ThinkingModeController", () => {
+  let eventLogger: any;
+  let setOrbState: any;
+  let onThinking: any;
+  let onNormal: any;
+  let controller: ThinkingModeController;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    eventLogger = { logThinkingMode: vi.fn(), logNormalMode: vi.fn() };
+    setOrbState = vi.fn();
+    onThinking = vi.fn();
+    onNormal = vi.fn();
+    controller = new ThinkingModeController({
+      sessionId: "session-1",
+      eventLogger,
+      setOrbState,
+      onThinking,
+      onNormal,
+      durationMs: 10000,
+    });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+    vi.useRealTimers();
+  });
+
+  it("should enter thinking mode and mute the other agents", () => {
+    void controller.think("claude", new Promise(() => {}));
+
+    expect(controller.activeAgent).toBe("claude");
+    expect(setOrbState).toHaveBeenCalledWith("claude", "thinking");
+    expect(setOrbState).toHaveBeenCalledWith("guest", "muted");
+    expect(onThinking).toHaveBeenCalledWith(expect.objectContaining({ speaker: "claude", durationMs: 10000 }));
+    expect(eventLogger.logThinkingMode).toHaveBeenCalledWith("session-1", "claude", 10000);
+  });
+
+  it("should hold a ready answer until the timer ends", async () => {
+    const outcome = controller.think("claude", Promise.resolve(" The answer is 42."));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onNormal).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(outcome).resolves.toEqual({ status: "answered", text: "The answer is 42." });
+    expect(onNormal).toHaveBeenCalledWith(expect.objectContaining({ speaker: "claude", reason: "answered" }));
+    expect(eventLogger.logNormalMode).toHaveBeenCalledWith("session-1", "claude");
+    expect(setOrbState).toHaveBeenLastCalledWith("guest", "idle");
+  });
+
+  it("should answer as soon as a late answer is ready", async () => {
+    let resolveAnswer!: (text: string) => void;
+    const outcome = controller.think("claude", new Promise((resolve) => (resolveAnswer = resolve)));
+
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(controller.activeAgent).toBe("claude");
+
+    resolveAnswer("Finally.");
+    await expect(outcome).resolves.toEqual({ status: "answered", text: "Finally." });
+  });
+
+  it("should extend the timer up to the maximum", async () => {
+    const outcome = controller.think("claude", Promise.resolve("Answer"));
+
+    await vi.advanceTimersByTimeAsync(8000);
+    expect(controller.extend(5000)).toBe(true);
+    expect(onThinking).toHaveBeenLastCalledWith(expect.objectContaining({ durationMs: 15000 }));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(controller.activeAgent).toBe("claude");
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(outcome).resolves.toEqual({ status: "answered", text: "Answer" });
+    expect(controller.extend()).toBe(false);
+  });
+
+  it("should fall back to the default extension for invalid client values", async () => {
+    controller.think("claude", Promise.resolve("Answer"));
+
+    for (const extraMs of [-5000, Number.NaN, "later"]) {
+      expect(controller.extend(extraMs)).toBe(true);
+    }
+    // 10s, then 15s added three times
+    expect(onThinking).toHaveBeenLastCalledWith(expect.objectContaining({ durationMs: 55000 }));
+    await vi.advanceTimersByTimeAsync(54000);
+    expect(controller.activeAgent).toBe("claude");
+  });
+
+  it("should discard the answer when cancelled", async () => {
+    const outcome = controller.think("guest", Promise.resolve("Answer"));
+
+    expect(controller.cancel()).toBe("guest");
+    await expect(outcome).resolves.toEqual({ status: "cancelled" });
+    expect(onNormal).toHaveBeenCalledWith(expect.objectContaining({ speaker: "guest", reason: "cancelled" }));
+    expect(controller.cancel()).toBeUndefined();
+  });
+
+  it("should cancel when generation fails", async () => {
+    const outcome = controller.think("claude", Promise.reject(new Error("interrupted")));
+
+    await expect(outcome).resolves.toEqual({ status: "cancelled" });
+    expect(controller.activeAgent).toBeUndefined();
+  });
+
+  it("should cancel when the model says nothing after the trigger", async () => {
+    const outcome = controller.think("claude", Promise.resolve("  ?  "));
+
+    await vi.advanceTimersByTimeAsync(10000);
+    await expect(outcome).resolves.toEqual({ status: "cancelled" });
+  });
+});
@@ -0,0 +1,202 @@
+import type { AgentId, ModeNormalPayload, ModeThinkingPayload, OrbState, SpeakerId } from "@basil/shared";
+import type { EventLogger } from "./event-logger.js";
+
+// Matches "Can I think for a minute?" and close variants; the trailing
+// punctuation may still be in the next streamed chunk
+const THINKING_TRIGGER = /\bcan i think (?:about (?:it|this|that) )?for a (?:minute|moment|second)\b[?!.]*/i;
+// Extra time when the host asks for more without saying how much
+const DEFAULT_EXTEND_MS = 15000;
+
+export const THINKING_LEAD_IN = "Okay, here's what I was thinking.";
+
+interface ThinkingModeConfig {
+  sessionId: string;
+  eventLogger: EventLogger;
+  setOrbState: (speaker: SpeakerId, state: OrbState) => void;
+  onThinking: (payload: ModeThinkingPayload) => void;
+  onNormal: (payload: ModeNormalPayload) => void;
+  agents?: AgentId[];
+  durationMs?: number;
+  // Extensions never push the total past this
+  maxDurationMs?: number;
+}
+
+export type ThinkingOutcome =
+  | { status: "answered"; text: string }
+  | { status: "cancelled" };
+
+interface ActiveThinking {
+  agent: AgentId;
+  startedAt: number;
+  durationMs: number;
+  timer?: NodeJS.Timeout;
+  timerDone: boolean;
+  answer?: string;
+  resolve: (outcome: ThinkingOutcome) => void;
+}
+
+/**
+ * Splits streamed text at the thinking trigger. `ask` is everything up to and
+ * including the trigger (spoken aloud); `rest` is the start of the answer.
+ */
+export function splitThinkingTrigger(text: string): { ask: string; rest: string } | undefined {
+  const match = THINKING_TRIGGER.exec(text);
+  if (!match) return undefined;
+
+  const end = match.index + match[0].length;
+  return { ask: text.slice(0, end).trim(), rest: text.slice(end) };
+}
+
+/**
+ * Runs the timed "thinking" period for one agent at a time.
+ *
+ * While active, the thinker's orb shows thinking and the other agents are
+ * muted. The cached answer is handed back when the timer runs out, or as
+ * soon as it is ready if generation is still going at that point. The host
+ * can extend the timer or cancel, which discards the answer.
+ */
+export class ThinkingModeController {
+  private config: ThinkingModeConfig & { agents: AgentId[]; durationMs: number; maxDurationMs: number };
+  private current?: ActiveThinking;
+
+  constructor(config: ThinkingModeConfig) {
+    this.config = {
+      ...config,
+      agents: config.agents ?? ["claude", "guest"],
+      durationMs: config.durationMs ?? 30000,
+      maxDurationMs: config.maxDurationMs ?? 120000,
+    };
+  }
+
+  get activeAgent(): AgentId | undefined {
+    return this.current?.agent;
+  }
+
+  /**
+   * Enters thinking mode until the answer should be spoken or the host
+   * cancels. A rejected `answer` (failed or interrupted generation) cancels.
+   */
+  think(agent: AgentId, answer: Promise<string>): Promise<ThinkingOutcome> {
+    if (this.current) {
+      this.finish("cancelled");
+    }
+
+    const { sessionId, eventLogger, setOrbState, durationMs } = this.config;
+
+    return new Promise<ThinkingOutcome>((resolve) => {
+      const thinking: ActiveThinking = {
+        agent,
+        startedAt: Date.now(),
+        durationMs,
+        timerDone: false,
+        resolve,
+      };
+      this.current = thinking;
+
+      console.info(`[thinking] ${agent} is thinking for ${durationMs / 1000}s`);
+      eventLogger.logThinkingMode(sessionId, agent, durationMs);
+      setOrbState(agent, "thinking");
+      for (const other of this.config.agents) {
+        if (other !== agent) setOrbState(other, "muted");
+      }
+      this.config.onThinking(this.payload(thinking));
+      this.schedule(thinking);
+
+      answer.then(
+        (text) => {
+          if (this.current !== thinking) return;
+          thinking.answer = text.replace(/^[\s?!.]+/, "").trim();
+          if (thinking.timerDone) this.finish("answered");
+        },
+        () => {
+          if (this.current === thinking) this.finish("cancelled");
+        }
+      );
+    });
+  }
+
+  /**
+   * Gives the thinker more time. `extraMs` comes from the client; anything
+   * but a positive number gets the default. Returns false when nobody is
+   * thinking.
+   */
+  extend(extraMs?: unknown): boolean {
+    const thinking = this.current;
+    if (!thinking) return false;
+
+    const extra = typeof extraMs === "number" && Number.isFinite(extraMs) && extraMs > 0 ? extraMs : DEFAULT_EXTEND_MS;
+
+    const elapsed = Date.now() - thinking.startedAt;
+    thinking.durationMs = Math.min(
+      Math.max(thinking.durationMs, elapsed) + extra,
+      this.config.maxDurationMs
+    );
+    thinking.timerDone = false;
+
+    console.info(`[thinking] extended to ${thinking.durationMs / 1000}s`);
+    this.config.eventLogger.logThinkingMode(this.config.sessionId, thinking.agent, thinking.durationMs);
+    this.config.onThinking(this.payload(thinking));
+    this.schedule(thinking);
+    return true;
+  }
+
+  /**
+   * Drops the answer and returns to normal. Returns the agent that was
+   * thinking, if any.
+   */
+  cancel(): AgentId | undefined {
+    const agent = this.current?.agent;
+    if (agent) this.finish("cancelled");
+    return agent;
+  }
+
+  dispose(): void {
+    if (this.current?.timer) clearTimeout(this.current.timer);
+    this.current?.resolve({ status: "cancelled" });
+    this.current = undefined;
+  }
+
+  private schedule(thinking: ActiveThinking): void {
+    if (thinking.timer) clearTimeout(thinking.timer);
+
+    const remaining = Math.max(0, thinking.startedAt + thinking.durationMs - Date.now());
+    thinking.timer = setTimeout(() => {
+      thinking.timer = undefined;
+      thinking.timerDone = true;
+      // Still generating: the answer is spoken as soon as it arrives
+      if (this.current === thinking && thinking.answer !== undefined) {
+        this.finish("answered");
+      }
+    }, remaining);
+  }
+
+  private finish(outcome: ModeNormalPayload["reason"]): void {
+    const thinking = this.current;
+    if (!thinking) return;
+    this.current = undefined;
+    if (thinking.timer) clearTimeout(thinking.timer);
+
+    // An empty answer (the model stopped right after the trigger) has nothing to say
+    const reason = outcome === "answered" && thinking.answer ? "answered" : "cancelled";
+
+    const { sessionId, eventLogger, setOrbState } = this.config;
+    console.info(`[thinking] ${thinking.agent} done thinking (${reason})`);
+    eventLogger.logNormalMode(sessionId, thinking.agent);
+    for (const agent of this.config.agents) {
+      setOrbState(agent, "idle");
+    }
+    this.config.onNormal({ speaker: thinking.agent, reason, endedAt: Date.now() });
+
+    thinking.resolve(
+      reason === "answered" ? { status: "answered", text: thinking.answer! } : { status: "cancelled" }
+    );
+  }
+
+  private payload(thinking: ActiveThinking): ModeThinkingPayload {
+    return {
+      speaker: thinking.agent,
+      durationMs: thinking.durationMs,
+      startedAt: thinking.startedAt,
+    };
+  }
+}
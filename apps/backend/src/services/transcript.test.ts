@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { formatMarkdown, formatTranscriptJson, readEventLog, writeTranscripts, type TranscriptEntry } from "./transcript";
+
+const testDir = "./test-transcript";
+
+const entries: TranscriptEntry[] = [
+  {
+    turnId: "t1",
+    speaker: "you",
+    start: 500,
+    end: 1500,
+    text: "What do you think?",
+    words: [
+      { text: "What", start: 500, end: 700 },
+      { text: "do", start: 750, end: 850 },
+      { text: "you", start: 900, end: 1000 },
+      { text: "think?", start: 1050, end: 1500 },
+    ],
+  },
+  { turnId: "t2", speaker: "claude", start: 2000, end: 3000, text: "I think it's early." },
+  { turnId: "t2", speaker: "claude", start: 3000, end: 4200, text: "But promising." },
+  { turnId: "t3", speaker: "guest", start: 65000, end: 66000, text: "Agreed." },
+];
+
+const info = { episodeId: "ep-1", title: "Small Models", speakerNames: { you: "Basil" } };
+
+describe("transcript", () => {
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should write structured entries with speaker names and turn ids", () => {
+    const transcript = JSON.parse(formatTranscriptJson(entries, info));
+
+    expect(transcript.speakers).toEqual({ you: "Basil", claude: "Claude", guest: "Guest" });
+    expect(transcript.entries[0]).toEqual({
+      turnId: "t1",
+      speaker: "you",
+      name: "Basil",
+      start: 500,
+      end: 1500,
+      text: "What do you think?",
+      words: entries[0].words,
+    });
+    expect(transcript.entries[1].words).toBeUndefined();
+  });
+
+  it("should write one Markdown paragraph per stretch of a speaker talking", () => {
+    expect(formatMarkdown(entries, info)).toBe(
+      "# Small Models\n\n" +
+        "**Basil** [00:00:00]\nWhat do you think?\n\n" +
+        "**Claude** [00:00:02]\nI think it's early. But promising.\n\n" +
+        "**Guest** [00:01:05]\nAgreed.\n"
+    );
+  });
+
+  it("should rebuild the files from the last session in events.jsonl", async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const events = [
+      { type: "session.start", sessionId: "old", episodeId: "ep-1", config: {}, timestamp: 1 },
+      { type: "caption", sessionId: "old", speaker: "you", start: 0, end: 900, text: "Stale", timestamp: 2 },
+      // Logged when the session is created, then again on the client's hello
+      { type: "session.start", sessionId: "s1", episodeId: "ep-1", config: { useRealAdapters: false, ...info }, timestamp: 3 },
+      { type: "session.start", sessionId: "s1", episodeId: "ep-1", config: { participant: "Basil" }, timestamp: 4 },
+      ...entries.map((entry) => ({ type: "caption", sessionId: "s1", ...entry, timestamp: 5 })),
+    ];
+    await fs.writeFile(
+      path.join(testDir, "events.jsonl"),
+      events.map((event) => JSON.stringify(event)).join("\n") + '\n{"type":"capt'
+    );
+
+    const log = await readEventLog(path.join(testDir, "events.jsonl"));
+    const files = await writeTranscripts(testDir, log.entries, log.info);
+
+    expect(log.entries).toEqual(entries);
+    expect(log.info).toEqual(info);
+    expect(files).toEqual([
+      "you.vtt",
+      "claude.vtt",
+      "guest.vtt",
+      "episode.vtt",
+      "episode.srt",
+      "transcript.json",
+      "transcript.md",
+    ]);
+    const srt = await fs.readFile(path.join(testDir, "episode.srt"), "utf-8");
+    expect(srt).toContain("1\n00:00:00,500 --> 00:00:01,500\nWhat do you think?\n\n");
+    const episode = await fs.readFile(path.join(testDir, "episode.vtt"), "utf-8");
+    expect(episode).toContain("<v Basil>What do you think?");
+  });
+
+  it("should refuse a log without a session", async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, "events.jsonl"), "");
+
+    await expect(readEventLog(path.join(testDir, "events.jsonl"))).rejects.toThrow("No session.start event");
+  });
+});
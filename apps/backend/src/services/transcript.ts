@@ -0,0 +1,169 @@
+/**
+ * Episode transcripts. Every caption the recorder takes is a transcript
+ * entry; at the end of a session the entries are written out as captions
+ * (WebVTT and SRT), a structured transcript.json and a readable Markdown
+ * transcript. The same entries are logged as `caption` events, so the files
+ * can be rebuilt from events.jsonl (see export-transcript.ts).
+ *
+ * Times are milliseconds from the start of the recording.
+ */
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import type { SpeakerId } from "@basil/shared";
+import {
+  DEFAULT_SPEAKER_NAMES,
+  buildCues,
+  extendShortCues,
+  formatSrt,
+  formatTimestamp,
+  formatVtt,
+  spreadWords,
+  type CaptionWord,
+  type Cue,
+} from "./captions.js";
+import type { CaptionEvent, LogEvent, SessionStartEvent } from "./event-logger.js";
+
+export interface TranscriptEntry {
+  // Entries of one host utterance or one agent reply share a turn id
+  turnId?: string;
+  speaker: SpeakerId;
+  start: number;
+  end: number;
+  text: string;
+  // Only when the audio was timed word by word
+  words?: CaptionWord[];
+}
+
+export interface TranscriptInfo {
+  episodeId: string;
+  title?: string;
+  // Display names, from the briefing
+  speakerNames?: Partial<Record<SpeakerId, string>>;
+}
+
+const SPEAKERS: SpeakerId[] = ["you", "claude", "guest"];
+
+/**
+ * Writes every caption and transcript file for the entries into `dir`.
+ * Returns the file names written.
+ */
+export async function writeTranscripts(dir: string, entries: TranscriptEntry[], info: TranscriptInfo): Promise<string[]> {
+  const names = speakerNames(info);
+  const sorted = [...entries].sort((a, b) => a.start - b.start);
+  const cues = transcriptCues(sorted);
+
+  const files: Record<string, string> = {};
+  for (const speaker of SPEAKERS) {
+    files[`${speaker}.vtt`] = formatVtt(cues.filter((cue) => cue.speaker === speaker));
+  }
+  files["episode.vtt"] = formatVtt(cues, names);
+  files["episode.srt"] = formatSrt(cues);
+  files["transcript.json"] = formatTranscriptJson(sorted, info);
+  files["transcript.md"] = formatMarkdown(sorted, info);
+
+  for (const [file, content] of Object.entries(files)) {
+    await fs.writeFile(join(dir, file), content, "utf-8");
+  }
+  return Object.keys(files);
+}
+
+// Readable cues for the entries, which must be sorted by start
+export function transcriptCues(entries: TranscriptEntry[]): Cue[] {
+  const cues = entries.flatMap((entry) =>
+    buildCues(entry.speaker, entry.words?.length ? entry.words : spreadWords(entry.text, entry.start, entry.end))
+  );
+  return extendShortCues(cues.sort((a, b) => a.start - b.start));
+}
+
+export function formatTranscriptJson(entries: TranscriptEntry[], info: TranscriptInfo): string {
+  const names = speakerNames(info);
+  const transcript = {
+    episodeId: info.episodeId,
+    title: info.title,
+    speakers: names,
+    entries: entries.map((entry) => ({
+      turnId: entry.turnId,
+      speaker: entry.speaker,
+      name: names[entry.speaker],
+      start: Math.round(entry.start),
+      end: Math.round(entry.end),
+      text: entry.text,
+      words: entry.words?.map((word) => ({ text: word.text, start: Math.round(word.start), end: Math.round(word.end) })),
+    })),
+  };
+  return JSON.stringify(transcript, null, 2) + "\n";
+}
+
+/**
+ * Markdown transcript: one paragraph per stretch of a speaker talking,
+ * headed by their name and when they started.
+ */
+export function formatMarkdown(entries: TranscriptEntry[], info: TranscriptInfo): string {
+  const names = speakerNames(info);
+  let markdown = `# ${info.title ?? info.episodeId}\n`;
+
+  const paragraphs: TranscriptEntry[][] = [];
+  for (const entry of entries) {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last[0].speaker === entry.speaker) {
+      last.push(entry);
+    } else {
+      paragraphs.push([entry]);
+    }
+  }
+  for (const paragraph of paragraphs) {
+    const { speaker, start } = paragraph[0];
+    markdown += `\n**${names[speaker]}** [${formatTimestamp(start).slice(0, 8)}]\n`;
+    markdown += `${paragraph.map((entry) => entry.text).join(" ")}\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Transcript entries and episode info from an events.jsonl. A log that
+ * several sessions appended to yields the last session, the one whose
+ * recording is on disk.
+ */
+export async function readEventLog(path: string): Promise<{ entries: TranscriptEntry[]; info: TranscriptInfo }> {
+  const content = await fs.readFile(path, "utf-8");
+  const events: LogEvent[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line) as LogEvent);
+    } catch {
+      // A session that crashed can leave its last line half written
+      console.warn(`[transcript] skipping unreadable line in ${path}`);
+    }
+  }
+
+  const starts = events.filter((event): event is SessionStartEvent => event.type === "session.start");
+  const session = starts[starts.length - 1];
+  if (!session) {
+    throw new Error(`No session.start event in ${path}`);
+  }
+
+  // A session logs session.start more than once (on creation, then on the
+  // client's hello), each with part of the config
+  const config: Record<string, unknown> = Object.assign(
+    {},
+    ...starts.filter((event) => event.sessionId === session.sessionId).map((event) => event.config)
+  );
+  const entries: TranscriptEntry[] = events
+    .filter((event): event is CaptionEvent => event.type === "caption" && event.sessionId === session.sessionId)
+    .map(({ turnId, speaker, start, end, text, words }) => ({ turnId, speaker, start, end, text, words }));
+  const info: TranscriptInfo = {
+    episodeId: session.episodeId,
+    title: typeof config.title === "string" ? config.title : undefined,
+    speakerNames:
+      typeof config.speakerNames === "object" && config.speakerNames !== null
+        ? (config.speakerNames as TranscriptInfo["speakerNames"])
+        : undefined,
+  };
+  return { entries, info };
+}
+
+function speakerNames(info: TranscriptInfo): Record<SpeakerId, string> {
+  return { ...DEFAULT_SPEAKER_NAMES, ...info.speakerNames };
+}
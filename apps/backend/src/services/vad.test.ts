@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest";
+import { EnergyVadDetector, VoiceActivityWorker, type VadDetector } from "./vad";
+
+const SAMPLE_RATE = 16000;
+
+function pcm(ms: number, amplitude: number, frequency = 220): Buffer {
+  const samples = new Int16Array((SAMPLE_RATE * ms) / 1000);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+  }
+  return Buffer.from(samples.buffer);
+}
+
+function noise(ms: number, amplitude: number): Buffer {
+  const samples = new Int16Array((SAMPLE_RATE * ms) / 1000);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(amplitude * (Math.random() * 2 - 1));
+  }
+  return Buffer.from(samples.buffer);
+}
+
+describe("EnergyVadDetector", () => {
+  it("should score loud voiced frames above silence", () => {
+    const detector = new EnergyVadDetector();
+    const frame = (buffer: Buffer) => new Int16Array(buffer.buffer, buffer.byteOffset, detector.frameSize);
+
+    const silent = detector.process(frame(pcm(30, 0)));
+    const voiced = detector.process(frame(pcm(30, 8000)));
+
+    expect(silent).toBeLessThan(0.1);
+    expect(voiced).toBeGreaterThan(0.9);
+  });
+
+  it("should adapt to a steady noise floor", () => {
+    const detector = new EnergyVadDetector();
+    const frames = noise(3000, 300);
+    let last = 1;
+    for (let offset = 0; offset + detector.frameSize * 2 <= frames.length; offset += detector.frameSize * 2) {
+      last = detector.process(new Int16Array(frames.buffer, frames.byteOffset + offset, detector.frameSize));
+    }
+
+    expect(last).toBeLessThan(0.5);
+  });
+});
+
+describe("VoiceActivityWorker", () => {
+  it("should emit speech start and end with hysteresis", () => {
+    const onSpeechStart = vi.fn();
+    const onSpeechEnd = vi.fn();
+    const worker = new VoiceActivityWorker({ onSpeechStart, onSpeechEnd, hangoverMs: 300 });
+
+    worker.push(pcm(300, 0));
+    expect(onSpeechStart).not.toHaveBeenCalled();
+
+    worker.push(pcm(500, 8000));
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(onSpeechStart.mock.calls[0][0]).toBeGreaterThan(0.6);
+    expect(worker.isSpeaking).toBe(true);
+
+    // A short pause is not the end of speech
+    worker.push(pcm(150, 0));
+    worker.push(pcm(200, 8000));
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+
+    worker.push(pcm(400, 0));
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(worker.isSpeaking).toBe(false);
+  });
+
+  it("should ignore clicks shorter than the minimum speech length", () => {
+    const onSpeechStart = vi.fn();
+    const worker = new VoiceActivityWorker({ onSpeechStart });
+
+    worker.push(pcm(300, 0));
+    worker.push(pcm(30, 8000));
+    worker.push(pcm(300, 0));
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+  });
+
+  it("should only forward speech, starting with the pre-roll", () => {
+    const worker = new VoiceActivityWorker({ preRollMs: 120, minSpeechMs: 60 });
+
+    expect(worker.push(pcm(600, 0))).toEqual([]);
+
+    const forwarded = Buffer.concat(worker.push(pcm(300, 8000)));
+    // 120 ms pre-roll (including the frames that confirmed speech) plus the rest of the tone
+    const bytesPerMs = (SAMPLE_RATE * 2) / 1000;
+    expect(forwarded.length).toBeGreaterThan(300 * bytesPerMs);
+    expect(forwarded.length).toBeLessThanOrEqual(420 * bytesPerMs);
+    expect(forwarded.readInt16LE(0)).toBe(0);
+  });
+
+  it("should handle chunks that don't align with frames", () => {
+    const onSpeechStart = vi.fn();
+    const worker = new VoiceActivityWorker({ onSpeechStart });
+    const speech = pcm(300, 8000);
+
+    for (let offset = 0; offset < speech.length; offset += 333) {
+      worker.push(speech.subarray(offset, offset + 333));
+    }
+
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+  });
+
+  it("should accept a pluggable detector", () => {
+    const detector: VadDetector = { frameSize: 160, process: vi.fn().mockReturnValue(0.9) };
+    const onSpeechStart = vi.fn();
+    const worker = new VoiceActivityWorker({ detector, onSpeechStart, minSpeechMs: 20 });
+
+    worker.push(Buffer.alloc(160 * 2 * 2));
+
+    expect(detector.process).toHaveBeenCalledTimes(2);
+    expect(onSpeechStart).toHaveBeenCalledWith(0.9);
+  });
+});
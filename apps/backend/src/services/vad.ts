@@ -0,0 +1,241 @@
+/**
+ * Server-side voice activity detection for the host's microphone.
+ *
+ * Audio is expected as 16-bit little-endian mono PCM. A `VadDetector` scores
+ * fixed-size frames; `VoiceActivityWorker` adds hysteresis, emits speech
+ * start/end and decides which audio is worth sending to STT.
+ */
+
+export interface VadDetector {
+  // Samples per frame the detector expects
+  readonly frameSize: number;
+  // Speech probability in [0, 1] for one frame
+  process(frame: Int16Array): number;
+  reset?(): void;
+}
+
+interface EnergyVadConfig {
+  sampleRate?: number;
+  frameMs?: number;
+  // Speech must be this far above the tracked noise floor
+  marginDb?: number;
+  // Floor for the noise estimate, so silence in a quiet room isn't "speech"
+  minNoiseDb?: number;
+  // Zero-crossing rate above which a frame is treated as hiss rather than voice
+  maxZeroCrossingRate?: number;
+}
+
+/**
+ * CPU-only detector using frame energy against an adaptive noise floor,
+ * penalised by zero-crossing rate. Good enough to gate STT and detect
+ * barge-in; a model-based detector (e.g. Silero) can replace it through the
+ * `VadDetector` interface.
+ */
+export class EnergyVadDetector implements VadDetector {
+  readonly frameSize: number;
+  private config: Required<EnergyVadConfig>;
+  private noiseDb: number;
+
+  constructor(config: EnergyVadConfig = {}) {
+    this.config = {
+      sampleRate: config.sampleRate ?? 16000,
+      frameMs: config.frameMs ?? 30,
+      marginDb: config.marginDb ?? 12,
+      minNoiseDb: config.minNoiseDb ?? -60,
+      maxZeroCrossingRate: config.maxZeroCrossingRate ?? 0.35,
+    };
+    this.frameSize = Math.round((this.config.sampleRate * this.config.frameMs) / 1000);
+    this.noiseDb = this.config.minNoiseDb;
+  }
+
+  process(frame: Int16Array): number {
+    const db = frameDb(frame);
+    const zcr = zeroCrossingRate(frame);
+
+    const threshold = this.noiseDb + this.config.marginDb;
+    const energyScore = sigmoid((db - threshold) / 3);
+    const zcrPenalty = zcr > this.config.maxZeroCrossingRate ? 0.5 : 1;
+    const probability = energyScore * zcrPenalty;
+
+    // Track the noise floor: fall quickly, rise slowly (very slowly during
+    // speech, so a steady hum is eventually learned but a long answer isn't)
+    if (db < this.noiseDb) {
+      this.noiseDb = Math.max(this.config.minNoiseDb, 0.7 * this.noiseDb + 0.3 * db);
+    } else {
+      const rate = probability < 0.5 ? 0.005 : 0.0005;
+      this.noiseDb = (1 - rate) * this.noiseDb + rate * db;
+    }
+
+    return probability;
+  }
+
+  reset(): void {
+    this.noiseDb = this.config.minNoiseDb;
+  }
+}
+
+interface VoiceActivityConfig {
+  detector?: VadDetector;
+  sampleRate?: number;
+  // Probability needed to enter / stay in speech
+  startThreshold?: number;
+  endThreshold?: number;
+  // Speech must last this long before speech-start fires
+  minSpeechMs?: number;
+  // Silence needed before speech-end fires
+  hangoverMs?: number;
+  // Audio kept from before speech-start so STT hears the first syllable
+  preRollMs?: number;
+  onSpeechStart?: (confidence: number) => void;
+  onSpeechEnd?: (durationMs: number) => void;
+}
+
+export class VoiceActivityWorker {
+  private config: Required<Omit<VoiceActivityConfig, "onSpeechStart" | "onSpeechEnd">> &
+    Pick<VoiceActivityConfig, "onSpeechStart" | "onSpeechEnd">;
+  private remainder = Buffer.alloc(0);
+  private preRoll: Buffer[] = [];
+  private preRollBytes = 0;
+  private speaking = false;
+  private speechFrames = 0;
+  private silenceFrames = 0;
+  private speechStartedAt = 0;
+  private peakConfidence = 0;
+
+  constructor(config: VoiceActivityConfig = {}) {
+    const sampleRate = config.sampleRate ?? 16000;
+    this.config = {
+      detector: config.detector ?? new EnergyVadDetector({ sampleRate }),
+      sampleRate,
+      startThreshold: config.startThreshold ?? 0.6,
+      endThreshold: config.endThreshold ?? 0.35,
+      minSpeechMs: config.minSpeechMs ?? 90,
+      hangoverMs: config.hangoverMs ?? 600,
+      preRollMs: config.preRollMs ?? 300,
+      onSpeechStart: config.onSpeechStart,
+      onSpeechEnd: config.onSpeechEnd,
+    };
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Feeds PCM audio and returns the frames that should be forwarded to STT:
+   * nothing while silent, the pre-roll plus live audio once speech starts.
+   */
+  push(chunk: Buffer): Buffer[] {
+    const { detector, sampleRate } = this.config;
+    const frameBytes = detector.frameSize * 2;
+    const frameMs = (detector.frameSize / sampleRate) * 1000;
+    const forward: Buffer[] = [];
+
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    let offset = 0;
+
+    for (; offset + frameBytes <= data.length; offset += frameBytes) {
+      const frameBuffer = data.subarray(offset, offset + frameBytes);
+      const samples = new Int16Array(detector.frameSize);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = frameBuffer.readInt16LE(i * 2);
+      }
+
+      const probability = detector.process(samples);
+      const wasSpeaking = this.speaking;
+      this.update(probability, frameMs);
+
+      if (this.speaking) {
+        if (!wasSpeaking) {
+          forward.push(...this.preRoll);
+          this.clearPreRoll();
+        }
+        forward.push(Buffer.from(frameBuffer));
+      } else {
+        this.keepPreRoll(Buffer.from(frameBuffer), frameMs);
+      }
+    }
+
+    this.remainder = Buffer.from(data.subarray(offset));
+    return forward;
+  }
+
+  reset(): void {
+    this.remainder = Buffer.alloc(0);
+    this.clearPreRoll();
+    this.speaking = false;
+    this.speechFrames = 0;
+    this.silenceFrames = 0;
+    this.config.detector.reset?.();
+  }
+
+  private update(probability: number, frameMs: number): void {
+    const { startThreshold, endThreshold, minSpeechMs, hangoverMs } = this.config;
+
+    if (!this.speaking) {
+      if (probability >= startThreshold) {
+        this.speechFrames++;
+        this.peakConfidence = Math.max(this.peakConfidence, probability);
+        if (this.speechFrames * frameMs >= minSpeechMs) {
+          this.speaking = true;
+          this.silenceFrames = 0;
+          this.speechStartedAt = Date.now() - this.speechFrames * frameMs;
+          this.config.onSpeechStart?.(this.peakConfidence);
+        }
+      } else {
+        this.speechFrames = 0;
+        this.peakConfidence = 0;
+      }
+      return;
+    }
+
+    if (probability < endThreshold) {
+      this.silenceFrames++;
+      if (this.silenceFrames * frameMs >= hangoverMs) {
+        this.speaking = false;
+        this.speechFrames = 0;
+        this.peakConfidence = 0;
+        this.config.onSpeechEnd?.(Date.now() - this.speechStartedAt);
+      }
+    } else {
+      this.silenceFrames = 0;
+    }
+  }
+
+  private keepPreRoll(frame: Buffer, frameMs: number): void {
+    this.preRoll.push(frame);
+    this.preRollBytes += frame.length;
+
+    const maxBytes = (this.config.preRollMs / frameMs) * frame.length;
+    while (this.preRollBytes > maxBytes && this.preRoll.length > 0) {
+      this.preRollBytes -= this.preRoll.shift()!.length;
+    }
+  }
+
+  private clearPreRoll(): void {
+    this.preRoll = [];
+    this.preRollBytes = 0;
+  }
+}
+
+function frameDb(frame: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const sample = frame[i] / 32768;
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / frame.length);
+  return 20 * Math.log10(rms + 1e-9);
+}
+
+function zeroCrossingRate(frame: Int16Array): number {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return crossings / (frame.length - 1);
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
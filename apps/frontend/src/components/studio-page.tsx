@@ -4,7 +4,7 @@ import { useEffect, useMemo, useState } from "react";
 import clsx from "clsx";
 import { Orb, type AgentState } from "./ui/orb";
 import { useStudioStore } from "../state/studio-store";
-import type { SpeakerId } from "@basil/shared";
+import type { LatencyStats, SpeakerId } from "@basil/shared";
 
 const speakerDisplay: Record<SpeakerId, { label: string; colors: [string, string]; accent: string }> = {
   you: {
@@ -38,8 +38,21 @@ const orbStateToAgentState = (state: string | undefined): AgentState => {
 };
 
 export function StudioPage() {
-  const { connect, connection, orbStates, captions, autopilot, toggleAutopilot, lastAck } =
-    useStudioStore();
+  const {
+    connect,
+    connection,
+    orbStates,
+    captions,
+    autopilot,
+    toggleAutopilot,
+    segment,
+    cost,
+    latency,
+    thinking,
+    cancelThinking,
+    extendThinking,
+    lastAck,
+  } = useStudioStore();
   const [showControls, setShowControls] = useState(true);
 
   useEffect(() => {
@@ -48,6 +61,11 @@ export function StudioPage() {
 
   const latestCaption = captions[0];
 
+  // Host turns are timed from the host's last word, Autopilot turns from the LLM request
+  const endToEnd = latency?.stages.mouthToEar
+    ? { label: "Mouth-to-ear", stats: latency.stages.mouthToEar }
+    : latency?.stages.response && { label: "Response", stats: latency.stages.response };
+
   const sharedScreenContent = useMemo(() => {
     if (!latestCaption) {
       return (
@@ -185,6 +203,42 @@ export function StudioPage() {
             >
               {showControls ? "Hide" : "Show"} Controls
             </button>
+            {autopilot && segment && (
+              <span className="rounded-lg bg-indigo-500/10 px-4 py-2 text-sm text-indigo-200 border border-indigo-500/30">
+                {segment.index + 1}/{segment.total} · {segment.title}
+              </span>
+            )}
+            {cost && cost.totalUsd > 0 && (
+              <span
+                className={clsx(
+                  "rounded-lg px-4 py-2 text-sm font-mono border",
+                  cost.budgetUsd !== undefined && cost.totalUsd > cost.budgetUsd
+                    ? "bg-red-500/10 text-red-200 border-red-500/30"
+                    : "bg-white/5 text-slate-300 border-white/10",
+                )}
+              >
+                ${cost.totalUsd.toFixed(2)}
+                {cost.budgetUsd !== undefined && ` / $${cost.budgetUsd.toFixed(2)}`}
+              </span>
+            )}
+            {thinking && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => extendThinking(15000)}
+                  className="rounded-lg bg-purple-500/10 px-4 py-2 text-sm text-purple-200 hover:bg-purple-500/20 transition-all border border-purple-500/30"
+                >
+                  +15s Thinking
+                </button>
+                <button
+                  type="button"
+                  onClick={cancelThinking}
+                  className="rounded-lg bg-white/5 px-4 py-2 text-sm text-slate-300 hover:bg-white/10 transition-all border border-white/10"
+                >
+                  Cancel Thinking
+                </button>
+              </>
+            )}
             <button
               type="button"
               onClick={toggleAutopilot}
@@ -294,6 +348,12 @@ export function StudioPage() {
                   <StatusBadge label="Phase 1" value="Complete" color="emerald" />
                   <StatusBadge label="Adapters" value="Wired" color="blue" />
                   <StatusBadge label="Services" value="Ready" color="purple" />
+                  {latency?.stages.ttft && (
+                    <StatusBadge label="TTFT p50/p90" value={formatLatency(latency.stages.ttft)} color="blue" />
+                  )}
+                  {endToEnd && (
+                    <StatusBadge label={`${endToEnd.label} p50/p90`} value={formatLatency(endToEnd.stats)} color="purple" />
+                  )}
                 </div>
                 
                 {lastAck && (
@@ -379,4 +439,8 @@ function StatusBadge({ label, value, color }: { label: string; value: string; co
   );
 }
 
+function formatLatency({ p50, p90 }: LatencyStats) {
+  return `${p50} / ${p90} ms`;
+}
+
 const SPEAKER_ORDER: SpeakerId[] = ["you", "claude", "guest"];
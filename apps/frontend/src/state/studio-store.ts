@@ -5,7 +5,11 @@ import { io, Socket } from "socket.io-client";
 import type {
   CaptionPayload,
   ClientToServerEvents,
+  CostUpdatePayload,
+  LatencyPayload,
+  ModeThinkingPayload,
   OrchestratorStateSnapshot,
+  SegmentChangePayload,
   ServerToClientEvents,
   SpeakerId,
   OrbState,
@@ -18,8 +22,14 @@ interface StudioState {
   autopilot: boolean;
   orbStates: Record<SpeakerId, OrbState>;
   captions: CaptionPayload[];
+  thinking?: ModeThinkingPayload;
+  segment?: SegmentChangePayload;
+  cost?: CostUpdatePayload;
+  latency?: LatencyPayload;
   connect: () => void;
   toggleAutopilot: () => void;
+  cancelThinking: () => void;
+  extendThinking: (extraMs?: number) => void;
   lastAck?: string;
 }
 
@@ -72,6 +82,9 @@ export const useStudioStore = create<StudioState>((set, get) => ({
           autopilot: snapshot.autopilot,
           orbStates: snapshot.orbStates,
           captions: snapshot.captions,
+          segment: snapshot.segment,
+          cost: snapshot.cost,
+          latency: snapshot.latency,
         });
       });
 
@@ -81,14 +94,16 @@ export const useStudioStore = create<StudioState>((set, get) => ({
         }));
       });
 
+      // Streamed replies resend their caption with the same id as it grows
       socket.on("caption", (payload) => {
         set((prev) => ({
-          captions: [payload, ...prev.captions].slice(0, 5),
+          captions: [payload, ...prev.captions.filter((caption) => caption.id !== payload.id)].slice(0, 5),
         }));
       });
 
       socket.on("mode.thinking", (payload) => {
         set((prev) => ({
+          thinking: payload,
           captions: [
             {
               id: payload.startedAt.toString(),
@@ -100,6 +115,22 @@ export const useStudioStore = create<StudioState>((set, get) => ({
           ].slice(0, 5),
         }));
       });
+
+      socket.on("mode.normal", () => {
+        set({ thinking: undefined });
+      });
+
+      socket.on("segment.change", (payload) => {
+        set({ segment: payload.segment ? payload : undefined });
+      });
+
+      socket.on("cost.update", (payload) => {
+        set({ cost: payload });
+      });
+
+      socket.on("latency.update", (payload) => {
+        set({ latency: payload });
+      });
     } else if (socket.disconnected) {
       set({ connection: "connecting" });
       socket.connect();
@@ -110,6 +141,12 @@ export const useStudioStore = create<StudioState>((set, get) => ({
     socket?.emit("client.toggle-autopilot", !current);
     set({ autopilot: !current });
   },
+  cancelThinking: () => {
+    socket?.emit("client.thinking-cancel");
+  },
+  extendThinking: (extraMs) => {
+    socket?.emit("client.thinking-extend", extraMs);
+  },
 }));
 
 export function getSocket() {
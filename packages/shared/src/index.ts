@@ -1,5 +1,7 @@
 export type SpeakerId = "you" | "claude" | "guest";
 
+export type AgentId = Exclude<SpeakerId, "you">;
+
 export type OrbState = "idle" | "listening" | "thinking" | "speaking" | "muted" | "error";
 
 export interface CaptionPayload {
@@ -15,33 +17,120 @@ export interface ModeThinkingPayload {
   startedAt: number;
 }
 
+export interface ModeNormalPayload {
+  speaker: SpeakerId;
+  // "answered": the thinker is about to speak; "cancelled": the answer was dropped
+  reason: "answered" | "cancelled";
+  endedAt: number;
+}
+
+export type SegmentId =
+  | "cold-open"
+  | "guest-stance"
+  | "cross-exam"
+  | "steelman-swap"
+  | "verdict"
+  | "outro";
+
+export interface SegmentChangePayload {
+  // null once the run of show ends or Autopilot is switched off
+  segment: SegmentId | null;
+  title?: string;
+  index: number;
+  total: number;
+  startedAt: number;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+}
+
+export interface UsageLine {
+  role: "stt" | "tts" | "llm";
+  provider: string;
+  model?: string;
+  // Which agent an LLM or TTS line belongs to
+  speaker?: AgentId;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  characters: number;
+  costUsd: number;
+}
+
+export interface CostUpdatePayload {
+  // Running total for the episode
+  totalUsd: number;
+  budgetUsd?: number;
+  lines: UsageLine[];
+}
+
+// Stages of a turn, each measured in milliseconds:
+// stt: host stops talking → final transcript; ttft: LLM request → first token;
+// tts: first clause sent → first audio; response: LLM request → first audio;
+// mouthToEar: host stops talking → first audio of the reply
+export type LatencyStage = "stt" | "ttft" | "tts" | "response" | "mouthToEar";
+
+export interface LatencyStats {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface LatencyPayload {
+  // Rolling percentiles over recent turns; stages without samples are absent
+  stages: Partial<Record<LatencyStage, LatencyStats>>;
+}
+
 export interface RecordingReadyPayload {
   files: string[];
 }
 
+// Raw PCM (little-endian), PCM in a WAV container, or compressed audio as MediaRecorder emits it
+export type AudioEncoding = "pcm_s16le" | "pcm_f32le" | "wav" | "webm_opus";
+
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRate: number;
+  channels: number;
+}
+
 export interface ClientHelloPayload {
   episodeId?: string;
   participantName?: string;
+  // Format of the "audio.chunk" frames that follow; 16 kHz 16-bit mono PCM when absent
+  audioFormat?: AudioFormat;
 }
 
 export interface OrchestratorStateSnapshot {
   orbStates: Record<SpeakerId, OrbState>;
   captions: CaptionPayload[];
   autopilot: boolean;
+  segment?: SegmentChangePayload;
+  cost?: CostUpdatePayload;
+  latency?: LatencyPayload;
 }
 
 export interface ClientToServerEvents {
   hello(payload: ClientHelloPayload): void;
-  "audio.chunk"(chunk: ArrayBuffer): void;
+  // capturedAt: when the chunk's first sample was captured, in ms on the client clock
+  "audio.chunk"(chunk: ArrayBuffer, capturedAt?: number): void;
   "client.toggle-autopilot"(on: boolean): void;
   "client.request-state"(): void;
+  "client.thinking-cancel"(): void;
+  "client.thinking-extend"(extraMs?: number): void;
 }
 
 export interface ServerToClientEvents {
   "orb.state"(speaker: SpeakerId, state: OrbState): void;
   caption(payload: CaptionPayload): void;
   "mode.thinking"(payload: ModeThinkingPayload): void;
+  "mode.normal"(payload: ModeNormalPayload): void;
+  "segment.change"(payload: SegmentChangePayload): void;
+  "cost.update"(payload: CostUpdatePayload): void;
+  "latency.update"(payload: LatencyPayload): void;
   "recording.ready"(payload: RecordingReadyPayload): void;
   "server.ack"(message: string): void;
+  // Monitor mix of all three speakers, 48 kHz 16-bit mono PCM (MONITOR_MIX=true)
+  "audio.monitor"(chunk: ArrayBuffer): void;
   "state.snapshot"(snapshot: OrchestratorStateSnapshot): void;
 }
@@ -2,9 +2,14 @@
 """
 Simple faster-whisper HTTP server for STT
 Usage with Docker Compose or standalone
+
+POST /transcribe   one-shot transcription of a raw PCM chunk
+WS   /stream       sliding-window streaming (see stream() below)
 """
+import asyncio
+import json
 import os
-from fastapi import FastAPI, Request
+from fastapi import FastAPI, Request, WebSocket, WebSocketDisconnect
 from faster_whisper import WhisperModel
 import numpy as np
 import uvicorn
@@ -66,6 +71,73 @@ async def transcribe(request: Request):
             "error": str(e)
         }
 
+SAMPLE_RATE = 16000
+
+
+def transcribe_words(audio_float, prompt):
+    """Transcribe with word timestamps, in seconds from the start of the audio"""
+    segments, _ = model.transcribe(
+        audio_float,
+        language="en",
+        beam_size=5,
+        word_timestamps=True,
+        initial_prompt=prompt or None,
+        condition_on_previous_text=False,
+    )
+    return [
+        {"word": word.word, "start": word.start, "end": word.end}
+        for segment in segments
+        for word in segment.words
+    ]
+
+
+@app.websocket("/stream")
+async def stream(websocket: WebSocket):
+    """
+    Streaming transcription over a sliding window of the connection's audio.
+
+    Client -> server:
+      binary frames                                  16-bit PCM, 16kHz, mono, appended to the window
+      {"type": "transcribe", "id", "prompt", "final"} transcribe the window; a final pass also
+                                                     drops the audio it covered
+      {"type": "trim", "seconds"}                    drop audio from the front of the window
+    Server -> client:
+      {"type": "result", "id", "words": [{"word", "start", "end"}]}
+      {"type": "error", "id", "message"}
+
+    Messages are handled in order, so audio sent after a command stays in the window.
+    """
+    await websocket.accept()
+    window = np.zeros(0, dtype=np.int16)
+    loop = asyncio.get_running_loop()
+
+    try:
+        while True:
+            message = await websocket.receive()
+            if message["type"] == "websocket.disconnect":
+                break
+
+            if message.get("bytes") is not None:
+                window = np.concatenate([window, np.frombuffer(message["bytes"], dtype=np.int16)])
+                continue
+
+            command = json.loads(message["text"])
+            if command["type"] == "trim":
+                window = window[int(command["seconds"] * SAMPLE_RATE):]
+            elif command["type"] == "transcribe":
+                covered = len(window)
+                try:
+                    audio_float = window.astype(np.float32) / 32768.0
+                    words = await loop.run_in_executor(None, transcribe_words, audio_float, command.get("prompt"))
+                    await websocket.send_json({"type": "result", "id": command["id"], "words": words})
+                except Exception as e:
+                    await websocket.send_json({"type": "error", "id": command["id"], "message": str(e)})
+                if command.get("final"):
+                    window = window[covered:]
+    except WebSocketDisconnect:
+        pass
+
+
 @app.get("/health")
 async def health():
     return {"status": "ok", "model": model_size, "device": device}